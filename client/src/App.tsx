@@ -6,22 +6,33 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/app-sidebar";
 import { ThemeToggle } from "@/components/ThemeToggle";
+import { GlobalSearch } from "@/components/GlobalSearch";
 import { useAuth } from "@/hooks/useAuth";
 import { MsalProvider } from "@azure/msal-react";
-import { PublicClientApplication } from "@azure/msal-browser";
-import { msalConfig } from "./auth/msalConfig";
+import { msalInstance } from "./auth/msalInstance";
+import { hasPermission, type Permission } from "@shared/permissions";
 
 // Pages
 import { Landing } from "@/components/Landing";
 import DashboardPage from "@/pages/Dashboard";
 import CreateCampaignPage from "@/pages/CreateCampaign";
 import CampaignCenterPage from "@/pages/CampaignCenterPage";
+import ImportCampaignsPage from "@/pages/ImportCampaigns";
+import CampaignTemplatesPage from "@/pages/CampaignTemplates";
+import PlacementDetailPage from "@/pages/PlacementDetail";
 import AdminCenterPage from "@/pages/AdminCenterPage";
+import AdminChannelTypesPage from "@/pages/AdminChannelTypes";
+import AdminTaxonomyPage from "@/pages/AdminTaxonomy";
+import AdminSchedulerPage from "@/pages/AdminScheduler";
+import AdminApprovalRulesPage from "@/pages/AdminApprovalRules";
+import AdminRedirectsPage from "@/pages/AdminRedirects";
+import AuditLogPage from "@/pages/AuditLog";
 import AnalyticsPage from "@/pages/Analytics";
 import NotFound from "@/pages/not-found";
 
 function Router() {
   const { isAuthenticated, isLoading, user } = useAuth();
+  const can = (permission: Permission) => hasPermission(user?.permissions, permission);
 
   return (
     <Switch>
@@ -31,11 +42,22 @@ function Router() {
         <>
           <Route path="/" component={DashboardPage} />
           <Route path="/dashboard" component={DashboardPage} />
-          <Route path="/create" component={CreateCampaignPage} />
+          {can("campaigns:edit") && <Route path="/create" component={CreateCampaignPage} />}
+          {can("campaigns:edit") && <Route path="/import" component={ImportCampaignsPage} />}
+          {can("campaigns:edit") && <Route path="/templates" component={CampaignTemplatesPage} />}
           <Route path="/campaigns" component={CampaignCenterPage} />
-          <Route path="/analytics" component={AnalyticsPage} />
-          {(user?.isAdmin || import.meta.env.DEV) && (
-            <Route path="/admin" component={AdminCenterPage} />
+          <Route path="/campaigns/:id" component={PlacementDetailPage} />
+          {can("analytics:view") && <Route path="/analytics" component={AnalyticsPage} />}
+          {can("settings:manage") && (
+            <>
+              <Route path="/admin" component={AdminCenterPage} />
+              <Route path="/admin/channel-types" component={AdminChannelTypesPage} />
+              <Route path="/admin/taxonomy" component={AdminTaxonomyPage} />
+              <Route path="/admin/scheduler" component={AdminSchedulerPage} />
+              <Route path="/admin/approval-rules" component={AdminApprovalRulesPage} />
+              <Route path="/admin/redirects" component={AdminRedirectsPage} />
+              <Route path="/admin/audit" component={AuditLogPage} />
+            </>
           )}
         </>
       )}
@@ -67,7 +89,10 @@ function AuthenticatedApp() {
         <div className="flex flex-col flex-1">
           <header className="flex items-center justify-between p-4 border-b bg-background">
             <SidebarTrigger data-testid="button-sidebar-toggle" />
-            <ThemeToggle />
+            <div className="flex items-center gap-4 flex-1 justify-end">
+              <GlobalSearch />
+              <ThemeToggle />
+            </div>
           </header>
           <main className="flex-1 overflow-auto p-6">
             <Router />
@@ -78,9 +103,6 @@ function AuthenticatedApp() {
   );
 }
 
-// Initialize MSAL instance
-const msalInstance = new PublicClientApplication(msalConfig);
-
 function App() {
   return (
     <MsalProvider instance={msalInstance}>
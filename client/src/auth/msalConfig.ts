@@ -1,4 +1,4 @@
-import { Configuration, PopupRequest } from "@azure/msal-browser";
+import { Configuration, PopupRequest, SilentRequest } from "@azure/msal-browser";
 
 // MSAL configuration for Microsoft Azure AD
 export const msalConfig: Configuration = {
@@ -27,6 +27,15 @@ export const loginRequest: PopupRequest = {
   prompt: "select_account",
 };
 
+// Access token request for the campaign builder API, attached to every
+// call made through apiRequest
+export const apiTokenRequest: SilentRequest = {
+  scopes: [
+    import.meta.env.VITE_AZURE_API_SCOPE ||
+      `api://${import.meta.env.VITE_AZURE_CLIENT_ID || "your-client-id-here"}/access_as_user`,
+  ],
+};
+
 // Graph API configuration
 export const graphConfig = {
   graphMeEndpoint: "https://graph.microsoft.com/v1.0/me",
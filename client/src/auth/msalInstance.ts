@@ -0,0 +1,25 @@
+import { InteractionRequiredAuthError, PublicClientApplication } from "@azure/msal-browser";
+import { apiTokenRequest, msalConfig } from "./msalConfig";
+
+// Single MSAL instance shared by MsalProvider and the API client
+export const msalInstance = new PublicClientApplication(msalConfig);
+
+// Access token for the API, or undefined when nobody is signed in (the
+// development server then falls back to its dev user)
+export async function getApiAccessToken(): Promise<string | undefined> {
+  const account = msalInstance.getActiveAccount() ?? msalInstance.getAllAccounts()[0];
+  if (!account) {
+    return undefined;
+  }
+
+  try {
+    const response = await msalInstance.acquireTokenSilent({ ...apiTokenRequest, account });
+    return response.accessToken;
+  } catch (error) {
+    if (error instanceof InteractionRequiredAuthError) {
+      const response = await msalInstance.acquireTokenPopup({ ...apiTokenRequest, account });
+      return response.accessToken;
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,188 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Check, X } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { ApiError, apiRequest } from "@/lib/queryClient";
+import { approvalStatusLabels, canDecide, type PlacementApprovals } from "@shared/approvals";
+import { hasPermission, roleLabels, type Permission, type Role } from "@shared/permissions";
+import type { ApprovalRequest, ApprovalStatus, MarketingPlacement } from "@shared/schema";
+
+interface ApprovalPanelProps {
+  placement: MarketingPlacement;
+  permissions?: Permission[];
+}
+
+const requestStatusVariants: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "secondary",
+  approved: "default",
+  rejected: "destructive",
+  cancelled: "outline",
+};
+
+// Groups requests by submission round, newest round first
+function groupByRound(requests: ApprovalRequest[]): [number, ApprovalRequest[]][] {
+  const rounds = new Map<number, ApprovalRequest[]>();
+  for (const request of requests) {
+    rounds.set(request.round, [...(rounds.get(request.round) ?? []), request]);
+  }
+  return Array.from(rounds.entries()).sort(([a], [b]) => b - a);
+}
+
+export function ApprovalPanel({ placement, permissions }: ApprovalPanelProps) {
+  const [comment, setComment] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: approvals } = useQuery<PlacementApprovals>({
+    queryKey: ['/api/placements', placement.id, 'approvals'],
+  });
+
+  const onSuccess = (title: string) => () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/placements'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/audit'] });
+    setComment("");
+    toast({ title });
+  };
+
+  const onError = (error: any) => {
+    const fieldErrors = error instanceof ApiError ? error.body?.fieldErrors : undefined;
+    toast({
+      title: error instanceof ApiError ? error.body?.error ?? "Error" : "Error",
+      description: fieldErrors ? Object.values(fieldErrors).join(" ") : error.message,
+      variant: "destructive",
+    });
+  };
+
+  const submitMutation = useMutation({
+    mutationFn: async (action: "submit" | "resubmit") => {
+      const response = await apiRequest('POST', `/api/placements/${placement.id}/approval/${action}`, {
+        comment: comment || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: onSuccess("Submitted for approval"),
+    onError,
+  });
+
+  const decideMutation = useMutation({
+    mutationFn: async ({ requestId, action }: { requestId: string; action: "approve" | "reject" }) => {
+      const response = await apiRequest('POST', `/api/approval-requests/${requestId}/${action}`, {
+        comment: comment || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: onSuccess("Decision recorded"),
+    onError,
+  });
+
+  const required = approvals?.required ?? [];
+  const requests = approvals?.requests ?? [];
+  if (required.length === 0 && requests.length === 0) {
+    return null;
+  }
+
+  const status = placement.approvalStatus as ApprovalStatus | null;
+  const canEdit = hasPermission(permissions, "campaigns:edit");
+  const decidable = requests.filter((request) => canDecide(request, permissions));
+  const canSubmit = canEdit && placement.status !== "archived" && (!status || status === "rejected");
+  const isPending = submitMutation.isPending || decideMutation.isPending;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center gap-3 space-y-0">
+        <CardTitle className="text-lg">Approval</CardTitle>
+        <Badge variant={status === "rejected" ? "destructive" : status === "approved" ? "default" : "secondary"}>
+          {status ? approvalStatusLabels[status] : "Not Submitted"}
+        </Badge>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {required.length > 0 && (
+          <div className="text-sm text-muted-foreground">
+            Needs approval before going live:{" "}
+            {required.map((rule) => `${rule.name} (${roleLabels[rule.approverRole as Role]})`).join(", ")}
+          </div>
+        )}
+
+        {(canSubmit || decidable.length > 0) && (
+          <div className="space-y-3">
+            <Textarea
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder={decidable.length > 0 ? "Comment (required to reject)" : "Note for the approvers (optional)"}
+              rows={2}
+              data-testid="input-approval-comment"
+            />
+            <div className="flex flex-wrap gap-2">
+              {canSubmit && (
+                <Button
+                  type="button"
+                  onClick={() => submitMutation.mutate(status === "rejected" ? "resubmit" : "submit")}
+                  disabled={isPending}
+                  data-testid="button-submit-approval"
+                >
+                  {status === "rejected" ? "Resubmit for Approval" : "Submit for Approval"}
+                </Button>
+              )}
+              {decidable.map((request) => (
+                <div key={request.id} className="flex gap-2">
+                  <Button
+                    type="button"
+                    onClick={() => decideMutation.mutate({ requestId: request.id, action: "approve" })}
+                    disabled={isPending}
+                    data-testid={`button-approve-${request.id}`}
+                  >
+                    <Check className="h-4 w-4 mr-2" />
+                    Approve {request.ruleName}
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="destructive"
+                    onClick={() => decideMutation.mutate({ requestId: request.id, action: "reject" })}
+                    disabled={isPending || !comment.trim()}
+                    data-testid={`button-reject-${request.id}`}
+                  >
+                    <X className="h-4 w-4 mr-2" />
+                    Reject
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {groupByRound(requests).map(([round, roundRequests]) => (
+          <div key={round} className="space-y-2" data-testid={`approval-round-${round}`}>
+            <div className="text-sm font-medium text-foreground">
+              Submission {round}
+              {roundRequests[0].submittedAt && ` · ${format(new Date(roundRequests[0].submittedAt), "PPp")}`}
+            </div>
+            {roundRequests[0].submitComment && (
+              <div className="text-sm text-muted-foreground">{roundRequests[0].submitComment}</div>
+            )}
+            {roundRequests.map((request) => (
+              <div key={request.id} className="flex items-start gap-3 pl-2">
+                <Badge variant={requestStatusVariants[request.status] ?? "outline"}>{request.status}</Badge>
+                <div>
+                  <div className="text-foreground">
+                    {request.ruleName} · {roleLabels[request.approverRole as Role] ?? request.approverRole}
+                  </div>
+                  {request.decidedAt && (
+                    <div className="text-sm text-muted-foreground">
+                      {request.decidedBy ? `by ${request.decidedBy}` : ""} · {format(new Date(request.decidedAt), "PPp")}
+                    </div>
+                  )}
+                  {request.comment && <div className="text-sm text-muted-foreground">{request.comment}</div>}
+                </div>
+              </div>
+            ))}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,33 @@
+import { formatAuditField, formatAuditValue, type AuditChanges as Changes } from "@shared/audit";
+
+interface AuditChangesProps {
+  changes: Changes;
+  // Creates list every field, so only the new values are shown
+  created?: boolean;
+}
+
+export function AuditChanges({ changes, created }: AuditChangesProps) {
+  const entries = Object.entries(changes);
+  if (entries.length === 0) {
+    return null;
+  }
+
+  return (
+    <dl className="grid grid-cols-[minmax(8rem,auto)_1fr] gap-x-4 gap-y-1 text-sm">
+      {entries.map(([field, { from, to }]) => (
+        <div key={field} className="contents">
+          <dt className="text-muted-foreground">{formatAuditField(field)}</dt>
+          <dd className="text-foreground break-all">
+            {!created && (
+              <>
+                <span className="line-through text-muted-foreground">{formatAuditValue(from)}</span>
+                {" → "}
+              </>
+            )}
+            {formatAuditValue(to)}
+          </dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
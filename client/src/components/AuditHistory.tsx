@@ -0,0 +1,60 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { AuditChanges } from "@/components/AuditChanges";
+import { apiRequest } from "@/lib/queryClient";
+import { creationActions, type AuditEntryWithActor } from "@shared/audit";
+import type { AuditEntityType } from "@shared/schema";
+
+interface AuditHistoryProps {
+  entityType: AuditEntityType;
+  entityId: string;
+}
+
+export function actorLabel(entry: AuditEntryWithActor): string {
+  if (!entry.actorId) return "the system";
+  return entry.actorName || entry.actorEmail || entry.actorId;
+}
+
+// Change history of a single entity, newest first
+export function AuditHistory({ entityType, entityId }: AuditHistoryProps) {
+  const { data: entries = [], isLoading } = useQuery<AuditEntryWithActor[]>({
+    queryKey: ['/api/audit', entityType, entityId],
+    queryFn: async () => {
+      const params = new URLSearchParams({ entityType, entityId });
+      const response = await apiRequest('GET', `/api/audit?${params}`);
+      return response.json();
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Change History</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading history...</p>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No changes recorded yet.</p>
+        ) : (
+          <div className="space-y-4">
+            {entries.map((entry) => (
+              <div key={entry.id} className="space-y-1 border-b pb-3" data-testid={`audit-entry-${entry.id}`}>
+                <div className="flex items-center gap-2 text-sm">
+                  <Badge variant="outline">{entry.action}</Badge>
+                  <span className="text-muted-foreground">
+                    by {actorLabel(entry)}
+                    {entry.createdAt && ` · ${format(new Date(entry.createdAt), "PPp")}`}
+                  </span>
+                </div>
+                <AuditChanges changes={entry.changes} created={creationActions.includes(entry.action)} />
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
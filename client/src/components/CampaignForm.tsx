@@ -1,7 +1,6 @@
 import { useState, useEffect, useMemo, useRef } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { z } from "zod";
 import { HelpCircle, X, Check, Calendar as CalendarIcon, Plus } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -18,59 +17,39 @@ import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { cn } from "@/lib/utils";
 import { format } from "date-fns";
+import {
+  emptyTaxonomy,
+  getAdTypeDetails,
+  getAdTypes,
+  getCampaignSources,
+  getSubLedgers,
+  optionNames,
+  type CampaignTaxonomy,
+} from "@shared/taxonomy";
+import { createPlacementSchema, type FieldErrors, type PlacementFormData } from "@shared/validation";
 
-// Comprehensive form schema based on screenshots - exact field order
-const campaignFormSchema = z.object({
-  // Basic campaign info (first tab in screenshots)
-  baseUrl: z.string().url("Must be a valid URL"),
-  anchorTag: z.string().optional(),
-  campaignType: z.string().min(1, "Campaign type is required"),
-  campaignSource: z.string().min(1, "Campaign source is required"), 
-  adType: z.string().min(1, "Ad type is required"),
-  adTypeDetail: z.string().optional(),
-  targeting: z.boolean(),
-  brand1: z.string().min(1, "Brand 1 is required"),
-  brand2: z.string().optional(),
-  brand3: z.string().optional(),
-  productCategory: z.string().min(1, "Product category is required"),
-  productBrand: z.string().optional(),
-  
-  // Campaign management (second tab in screenshots)
-  campaignOwner: z.string().min(1, "Campaign owner is required"),
-  startDate: z.date({ required_error: "Start date is required" }),
-  endDate: z.date().optional(),
-  campaignNotes: z.string().min(1, "Campaign notes are required"),
-  projectReferenceNumber: z.string().min(1, "Project reference number is required"),
-  budget: z.string().optional(),
-  industry: z.string().min(1, "Industry is required"),
-  tactic: z.string().min(1, "Tactic is required"),
-  costCenter: z.string().optional(),
-  subLedger: z.string().optional(),
-  partnering: z.boolean(),
-  partnerName: z.string().optional(),
-  thirdParty: z.boolean(),
-  thirdPartyName: z.string().optional(),
-}).refine((data) => {
-  // Sub Ledger is required when Cost Center is selected
-  if (data.costCenter && data.costCenter.trim() !== '') {
-    return data.subLedger && data.subLedger.trim() !== '';
-  }
-  return true;
-}, {
-  message: "Sub Ledger is required when Cost Center is selected",
-  path: ["subLedger"], // This will show the error on the subLedger field
-});
-
-type CampaignFormData = z.infer<typeof campaignFormSchema>;
+// The campaign form validates with the same schema as the placement API,
+// including the cross-field rules and taxonomy checks from @shared/validation
+export type CampaignFormData = PlacementFormData;
 
 interface CampaignFormProps {
   onSubmit: (data: CampaignFormData) => void;
   initialData?: Partial<CampaignFormData>;
   isLoading?: boolean;
+  // Field-level errors returned by the placement API
+  serverErrors?: FieldErrors;
+  // Fields fixed by a campaign template; they keep their initialData values
+  lockedFields?: string[];
+  // Called with every edit, e.g. to autosave a draft
+  onValuesChange?: (values: Partial<CampaignFormData>) => void;
 }
 
 // Help content for each field
 const helpContent: Record<string, { title: string; content: string }> = {
+  title: {
+    title: "Campaign Title",
+    content: "Enter a descriptive name for this campaign. The title is used to find the campaign later in the Campaign Center."
+  },
   baseUrl: {
     title: "Base URL",
     content: "Enter the destination URL where users will be directed when they click on your campaign link. This should be a complete URL including https://"
@@ -133,7 +112,7 @@ const helpContent: Record<string, { title: string; content: string }> = {
   }
 };
 
-export function CampaignForm({ onSubmit, initialData, isLoading = false }: CampaignFormProps) {
+export function CampaignForm({ onSubmit, initialData, isLoading = false, serverErrors, lockedFields = [], onValuesChange }: CampaignFormProps) {
   const [activeHelp, setActiveHelp] = useState<string | null>(null);
   const [completedFields, setCompletedFields] = useState<Set<string>>(new Set());
   const [showPartnerModal, setShowPartnerModal] = useState(false);
@@ -150,6 +129,16 @@ export function CampaignForm({ onSubmit, initialData, isLoading = false }: Campa
     enabled: true,
   });
   
+  // Query for the campaign taxonomy behind the dependent dropdowns
+  const { data: taxonomyData } = useQuery<CampaignTaxonomy>({
+    queryKey: ['/api/taxonomy'],
+  });
+  const taxonomy = taxonomyData ?? emptyTaxonomy;
+
+  // Taxonomy membership is only checked once the taxonomy has loaded
+  const taxonomyRef = useRef<CampaignTaxonomy | undefined>(undefined);
+  taxonomyRef.current = taxonomyData;
+
   // Query for third parties
   const { data: thirdParties = [], isLoading: thirdPartiesLoading, error: thirdPartiesError } = useQuery<{id: string, name: string}[]>({
     queryKey: ['/api/third-parties'],
@@ -231,8 +220,10 @@ export function CampaignForm({ onSubmit, initialData, isLoading = false }: Campa
   });
 
   const form = useForm<CampaignFormData>({
-    resolver: zodResolver(campaignFormSchema),
+    resolver: (values, context, options) =>
+      zodResolver(createPlacementSchema(taxonomyRef.current))(values, context, options),
     defaultValues: {
+      title: initialData?.title || "",
       baseUrl: initialData?.baseUrl || "",
       anchorTag: initialData?.anchorTag || "",
       campaignType: initialData?.campaignType || "",
@@ -262,6 +253,19 @@ export function CampaignForm({ onSubmit, initialData, isLoading = false }: Campa
     },
   });
 
+  // Show errors returned by the server on the matching fields
+  useEffect(() => {
+    Object.entries(serverErrors ?? {}).forEach(([field, message]) => {
+      form.setError(field as keyof CampaignFormData, { type: "server", message });
+    });
+  }, [serverErrors, form]);
+
+  useEffect(() => {
+    if (!onValuesChange) return;
+    const subscription = form.watch((values) => onValuesChange(values as Partial<CampaignFormData>));
+    return () => subscription.unsubscribe();
+  }, [form, onValuesChange]);
+
   // Watch form values to track completion
   const formValues = form.watch();
   
@@ -277,7 +281,10 @@ export function CampaignForm({ onSubmit, initialData, isLoading = false }: Campa
 
   const handleSubmit = (data: CampaignFormData) => {
     console.log('Campaign form submitted:', data);
-    onSubmit(data);
+    const lockedValues = Object.fromEntries(
+      lockedFields.map((field) => [field, initialData?.[field as keyof CampaignFormData]]),
+    );
+    onSubmit({ ...data, ...lockedValues });
   };
   
   // Handle adding new partner
@@ -308,7 +315,7 @@ export function CampaignForm({ onSubmit, initialData, isLoading = false }: Campa
 
   const isFieldRequired = (fieldName: string): boolean => {
     const baseRequiredFields = [
-      'baseUrl', 'campaignType', 'campaignSource', 'adType', 
+      'title', 'baseUrl', 'campaignType', 'campaignSource', 'adType', 
       'brand1', 'productCategory', 'campaignOwner', 'startDate',
       'campaignNotes', 'projectReferenceNumber', 'industry', 'tactic'
     ];
@@ -338,9 +345,11 @@ export function CampaignForm({ onSubmit, initialData, isLoading = false }: Campa
     return 'default';
   };
 
+  const isLocked = (fieldName: string) => lockedFields.includes(fieldName);
+
   const getFieldClassName = (fieldName: string) => {
     const status = getFieldStatus(fieldName);
-    const baseClass = "transition-all duration-200";
+    const baseClass = cn("transition-all duration-200", isLocked(fieldName) && "pointer-events-none opacity-60");
     
     switch (status) {
       case 'error':
@@ -354,105 +363,6 @@ export function CampaignForm({ onSubmit, initialData, isLoading = false }: Campa
     }
   };
 
-  // Hierarchical data for dependent dropdowns
-  const hierarchicalData = {
-    // Campaign Type → Campaign Source → Ad Type → Ad Type Detail chain
-    campaignHierarchy: {
-      "Display Ads": {
-        sources: ["Google", "Facebook", "LinkedIn"],
-        adTypes: {
-          "Google": ["Banner", "Video"],
-          "Facebook": ["Image", "Video", "Carousel"],
-          "LinkedIn": ["Banner", "Text"]
-        },
-        adTypeDetails: {
-          "Banner": ["Standard Banner", "Rich Media"],
-          "Video": ["Interstitial", "Native"],
-          "Image": ["Standard Banner", "Native"],
-          "Carousel": ["Rich Media", "Native"],
-          "Text": ["Standard Banner"]
-        }
-      },
-      "Email Campaign": {
-        sources: ["Email Newsletter", "Organic Social"],
-        adTypes: {
-          "Email Newsletter": ["Text", "Image"],
-          "Organic Social": ["Text", "Image", "Video"]
-        },
-        adTypeDetails: {
-          "Text": ["Standard Banner"],
-          "Image": ["Standard Banner", "Rich Media"],
-          "Video": ["Native", "Interstitial"]
-        }
-      },
-      "Google Ads": {
-        sources: ["Google", "Paid Social"],
-        adTypes: {
-          "Google": ["Banner", "Video", "Text"],
-          "Paid Social": ["Image", "Video", "Carousel"]
-        },
-        adTypeDetails: {
-          "Banner": ["Standard Banner", "Rich Media", "Expandable"],
-          "Video": ["Interstitial", "Native"],
-          "Text": ["Standard Banner"],
-          "Image": ["Standard Banner", "Rich Media"],
-          "Carousel": ["Rich Media", "Native"]
-        }
-      },
-      "Social Media": {
-        sources: ["Facebook", "LinkedIn", "Organic Social", "Paid Social"],
-        adTypes: {
-          "Facebook": ["Image", "Video", "Carousel", "Story"],
-          "LinkedIn": ["Banner", "Text", "Image"],
-          "Organic Social": ["Text", "Image", "Video"],
-          "Paid Social": ["Image", "Video", "Carousel"]
-        },
-        adTypeDetails: {
-          "Image": ["Standard Banner", "Rich Media", "Native"],
-          "Video": ["Interstitial", "Native"],
-          "Carousel": ["Rich Media", "Native"],
-          "Story": ["Native"],
-          "Banner": ["Standard Banner", "Rich Media"],
-          "Text": ["Standard Banner"]
-        }
-      },
-      "Video Campaign": {
-        sources: ["Google", "Facebook", "Paid Social"],
-        adTypes: {
-          "Google": ["Video"],
-          "Facebook": ["Video", "Story"],
-          "Paid Social": ["Video", "Carousel"]
-        },
-        adTypeDetails: {
-          "Video": ["Interstitial", "Native", "Rich Media"],
-          "Story": ["Native"],
-          "Carousel": ["Rich Media", "Native"]
-        }
-      }
-    },
-    
-    // Cost Center → Sub Ledger dependency
-    costCenterSubLedgers: {
-      "Engineering": ["Engineering Projects", "Engineering Operations", "Engineering R&D"],
-      "Marketing": ["Marketing Campaigns", "Marketing Events", "Marketing Content"],
-      "Operations": ["Operations Support", "Operations Infrastructure", "Operations Maintenance"],
-      "Product": ["Product Development", "Product Support", "Product Research"],
-      "Sales": ["Sales Activities", "Sales Support", "Sales Training"]
-    }
-  };
-
-  // Base data for dropdowns
-  const mockData = {
-    campaignTypes: Object.keys(hierarchicalData.campaignHierarchy).sort(),
-    brands: ["Brand A", "Brand B", "Brand C", "Brand D"].sort(),
-    productCategories: ["Consulting", "Electronics", "Hardware", "Services", "Software"].sort(),
-    productBrands: ["Product Brand 1", "Product Brand 2", "Product Brand 3"].sort(),
-    campaignOwners: ["Campaign Manager", "Daniel Konig", "Marketing Manager"].sort(),
-    industries: ["Finance", "Healthcare", "Manufacturing", "Retail", "Technology"].sort(),
-    tactics: ["Acquisition", "Awareness", "Consideration", "Conversion", "Retention"].sort(),
-    costCenters: Object.keys(hierarchicalData.costCenterSubLedgers).sort(),
-  };
-
   // Watch form values to prevent infinite loops in filter functions
   const campaignType = form.watch("campaignType");
   const campaignSource = form.watch("campaignSource");
@@ -460,45 +370,25 @@ export function CampaignForm({ onSubmit, initialData, isLoading = false }: Campa
   const costCenter = form.watch("costCenter");
 
   // Dynamic dropdown data based on selections using useMemo
-  const filteredCampaignSources = useMemo((): string[] => {
-    if (!campaignType || !(campaignType in hierarchicalData.campaignHierarchy)) {
-      return [];
-    }
-    const sources = hierarchicalData.campaignHierarchy[campaignType as keyof typeof hierarchicalData.campaignHierarchy].sources;
-    return [...sources].sort();
-  }, [campaignType]);
+  const filteredCampaignSources = useMemo(
+    () => getCampaignSources(taxonomy, campaignType),
+    [taxonomy, campaignType],
+  );
 
-  const filteredAdTypes = useMemo((): string[] => {
-    if (!campaignType || !campaignSource || !(campaignType in hierarchicalData.campaignHierarchy)) {
-      return [];
-    }
-    const typeData = hierarchicalData.campaignHierarchy[campaignType as keyof typeof hierarchicalData.campaignHierarchy];
-    if (!(campaignSource in typeData.adTypes)) {
-      return [];
-    }
-    const adTypes = typeData.adTypes[campaignSource as keyof typeof typeData.adTypes];
-    return [...adTypes].sort();
-  }, [campaignType, campaignSource]);
+  const filteredAdTypes = useMemo(
+    () => getAdTypes(taxonomy, campaignType, campaignSource),
+    [taxonomy, campaignType, campaignSource],
+  );
 
-  const filteredAdTypeDetails = useMemo((): string[] => {
-    if (!campaignType || !adType || !(campaignType in hierarchicalData.campaignHierarchy)) {
-      return [];
-    }
-    const typeData = hierarchicalData.campaignHierarchy[campaignType as keyof typeof hierarchicalData.campaignHierarchy];
-    if (!(adType in typeData.adTypeDetails)) {
-      return [];
-    }
-    const details = typeData.adTypeDetails[adType as keyof typeof typeData.adTypeDetails];
-    return [...details].sort();
-  }, [campaignType, adType]);
+  const filteredAdTypeDetails = useMemo(
+    () => getAdTypeDetails(taxonomy, campaignType, campaignSource, adType),
+    [taxonomy, campaignType, campaignSource, adType],
+  );
 
-  const filteredSubLedgers = useMemo((): string[] => {
-    if (!costCenter || !(costCenter in hierarchicalData.costCenterSubLedgers)) {
-      return [];
-    }
-    const subLedgers = hierarchicalData.costCenterSubLedgers[costCenter as keyof typeof hierarchicalData.costCenterSubLedgers];
-    return [...subLedgers].sort();
-  }, [costCenter]);
+  const filteredSubLedgers = useMemo(
+    () => getSubLedgers(taxonomy, costCenter),
+    [taxonomy, costCenter],
+  );
 
   // Clear dependent fields when parent fields change - using separate effects to prevent infinite loops
   const prevCampaignType = useRef<string | null>(null);
@@ -556,6 +446,36 @@ export function CampaignForm({ onSubmit, initialData, isLoading = false }: Campa
               <div className="space-y-4">
                 <h3 className="text-lg font-semibold text-foreground border-b pb-2">Campaign Details</h3>
                 
+                {/* Row 0: Campaign Title (full width) */}
+                <div className="space-y-2">
+                  <div className="flex items-center gap-2 h-5">
+                    <Label htmlFor="title" className="flex items-center gap-1">
+                      Campaign Title
+                      {isFieldRequired('title') && <span className="text-pink-500">*</span>}
+                    </Label>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="h-4 w-4 p-0"
+                      onClick={() => setActiveHelp('title')}
+                      data-testid="help-title"
+                    >
+                      <HelpCircle className="h-3 w-3 text-muted-foreground" />
+                    </Button>
+                  </div>
+                  <Input
+                    id="title"
+                    {...form.register("title")}
+                    className={getFieldClassName('title')}
+                    placeholder="Enter campaign title"
+                    data-testid="input-title"
+                  />
+                  {form.formState.errors.title && (
+                    <p className="text-sm text-destructive">{form.formState.errors.title.message}</p>
+                  )}
+                </div>
+
                 {/* Row 1: Campaign Owner (wider), Start Date & End Date (smaller) */}
                 <div className="grid grid-cols-1 lg:grid-cols-5 gap-3">
                   <div className="lg:col-span-3 space-y-2">
@@ -583,7 +503,7 @@ export function CampaignForm({ onSubmit, initialData, isLoading = false }: Campa
                         <SelectValue placeholder="Select campaign owner" />
                       </SelectTrigger>
                       <SelectContent>
-                        {mockData.campaignOwners.map((owner) => (
+                        {optionNames(taxonomy.campaignOwners).map((owner) => (
                           <SelectItem key={owner} value={owner}>{owner}</SelectItem>
                         ))}
                       </SelectContent>
@@ -661,12 +581,15 @@ export function CampaignForm({ onSubmit, initialData, isLoading = false }: Campa
                       <PopoverContent className="w-auto p-0">
                         <Calendar
                           mode="single"
-                          selected={form.watch("endDate")}
+                          selected={form.watch("endDate") ?? undefined}
                           onSelect={(date) => form.setValue("endDate", date)}
                           initialFocus
                         />
                       </PopoverContent>
                     </Popover>
+                    {form.formState.errors.endDate && (
+                      <p className="text-sm text-destructive">{form.formState.errors.endDate.message}</p>
+                    )}
                   </div>
                 </div>
 
@@ -770,7 +693,7 @@ export function CampaignForm({ onSubmit, initialData, isLoading = false }: Campa
                         <SelectValue placeholder="Select industry" />
                       </SelectTrigger>
                       <SelectContent>
-                        {mockData.industries.map((industry) => (
+                        {optionNames(taxonomy.industries).map((industry) => (
                           <SelectItem key={industry} value={industry}>{industry}</SelectItem>
                         ))}
                       </SelectContent>
@@ -805,7 +728,7 @@ export function CampaignForm({ onSubmit, initialData, isLoading = false }: Campa
                         <SelectValue placeholder="Select tactic" />
                       </SelectTrigger>
                       <SelectContent>
-                        {mockData.tactics.map((tactic) => (
+                        {optionNames(taxonomy.tactics).map((tactic) => (
                           <SelectItem key={tactic} value={tactic}>{tactic}</SelectItem>
                         ))}
                       </SelectContent>
@@ -827,7 +750,7 @@ export function CampaignForm({ onSubmit, initialData, isLoading = false }: Campa
                         <SelectValue placeholder="Select cost center" />
                       </SelectTrigger>
                       <SelectContent>
-                        {mockData.costCenters.map((center) => (
+                        {optionNames(taxonomy.costCenters).map((center) => (
                           <SelectItem key={center} value={center}>{center}</SelectItem>
                         ))}
                       </SelectContent>
@@ -854,6 +777,9 @@ export function CampaignForm({ onSubmit, initialData, isLoading = false }: Campa
                         ))}
                       </SelectContent>
                     </Select>
+                    {form.formState.errors.subLedger && (
+                      <p className="text-sm text-destructive">{form.formState.errors.subLedger.message}</p>
+                    )}
                   </div>
                 </div>
 
@@ -880,6 +806,7 @@ export function CampaignForm({ onSubmit, initialData, isLoading = false }: Campa
                       <RadioGroup
                         value={form.watch("partnering") ? "yes" : "no"}
                         onValueChange={(value) => form.setValue("partnering", value === "yes")}
+                        disabled={isLocked("partnering")}
                         className="flex gap-4"
                       >
                         <div className="flex items-center space-x-2">
@@ -978,6 +905,9 @@ export function CampaignForm({ onSubmit, initialData, isLoading = false }: Campa
                               ))}
                           </SelectContent>
                         </Select>
+                        {form.formState.errors.partnerName && (
+                          <p className="text-sm text-destructive">{form.formState.errors.partnerName.message}</p>
+                        )}
                       </div>
                     )}
                   </div>
@@ -991,6 +921,7 @@ export function CampaignForm({ onSubmit, initialData, isLoading = false }: Campa
                       <RadioGroup
                         value={form.watch("thirdParty") ? "yes" : "no"}
                         onValueChange={(value) => form.setValue("thirdParty", value === "yes")}
+                        disabled={isLocked("thirdParty")}
                         className="flex gap-4"
                       >
                         <div className="flex items-center space-x-2">
@@ -1089,6 +1020,9 @@ export function CampaignForm({ onSubmit, initialData, isLoading = false }: Campa
                               ))}
                           </SelectContent>
                         </Select>
+                        {form.formState.errors.thirdPartyName && (
+                          <p className="text-sm text-destructive">{form.formState.errors.thirdPartyName.message}</p>
+                        )}
                       </div>
                     )}
                   </div>
@@ -1181,7 +1115,7 @@ export function CampaignForm({ onSubmit, initialData, isLoading = false }: Campa
                         <SelectValue placeholder="Select Type" />
                       </SelectTrigger>
                       <SelectContent>
-                        {mockData.campaignTypes.map((type) => (
+                        {optionNames(taxonomy.campaignTypes).map((type) => (
                           <SelectItem key={type} value={type}>{type}</SelectItem>
                         ))}
                       </SelectContent>
@@ -1303,6 +1237,7 @@ export function CampaignForm({ onSubmit, initialData, isLoading = false }: Campa
                     <RadioGroup
                       value={form.watch("targeting") ? "yes" : "no"}
                       onValueChange={(value) => form.setValue("targeting", value === "yes")}
+                      disabled={isLocked("targeting")}
                       className="flex gap-4"
                     >
                       <div className="flex items-center space-x-2">
@@ -1344,7 +1279,7 @@ export function CampaignForm({ onSubmit, initialData, isLoading = false }: Campa
                         <SelectValue placeholder="Find Items" />
                       </SelectTrigger>
                       <SelectContent>
-                        {mockData.brands.map((brand) => (
+                        {optionNames(taxonomy.brands).map((brand) => (
                           <SelectItem key={brand} value={brand}>{brand}</SelectItem>
                         ))}
                       </SelectContent>
@@ -1366,7 +1301,7 @@ export function CampaignForm({ onSubmit, initialData, isLoading = false }: Campa
                         <SelectValue placeholder="Find Items" />
                       </SelectTrigger>
                       <SelectContent>
-                        {mockData.brands.map((brand) => (
+                        {optionNames(taxonomy.brands).map((brand) => (
                           <SelectItem key={brand} value={brand}>{brand}</SelectItem>
                         ))}
                       </SelectContent>
@@ -1385,7 +1320,7 @@ export function CampaignForm({ onSubmit, initialData, isLoading = false }: Campa
                         <SelectValue placeholder="Find Items" />
                       </SelectTrigger>
                       <SelectContent>
-                        {mockData.brands.map((brand) => (
+                        {optionNames(taxonomy.brands).map((brand) => (
                           <SelectItem key={brand} value={brand}>{brand}</SelectItem>
                         ))}
                       </SelectContent>
@@ -1417,7 +1352,7 @@ export function CampaignForm({ onSubmit, initialData, isLoading = false }: Campa
                         <SelectValue placeholder="Find Items" />
                       </SelectTrigger>
                       <SelectContent>
-                        {mockData.productCategories.map((category) => (
+                        {optionNames(taxonomy.productCategories).map((category) => (
                           <SelectItem key={category} value={category}>{category}</SelectItem>
                         ))}
                       </SelectContent>
@@ -1439,7 +1374,7 @@ export function CampaignForm({ onSubmit, initialData, isLoading = false }: Campa
                         <SelectValue placeholder="Find Items" />
                       </SelectTrigger>
                       <SelectContent>
-                        {mockData.productBrands.map((brand) => (
+                        {optionNames(taxonomy.productBrands).map((brand) => (
                           <SelectItem key={brand} value={brand}>{brand}</SelectItem>
                         ))}
                       </SelectContent>
@@ -0,0 +1,120 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Copy, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { ApiError, apiRequest } from "@/lib/queryClient";
+import { redirectPath } from "@shared/clicks";
+import type { MarketingPlacement } from "@shared/schema";
+
+interface ClickLinksProps {
+  placement: MarketingPlacement;
+  canEdit: boolean;
+}
+
+// Counted links for a placement: the /r/<tracking code> redirect and its
+// optional short link
+export function ClickLinks({ placement, canEdit }: ClickLinksProps) {
+  const [slug, setSlug] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const clickUrl = `${window.location.origin}${redirectPath(placement.trackingCode)}`;
+  const shortUrl = placement.shortSlug ? `${window.location.origin}${redirectPath(placement.shortSlug)}` : null;
+
+  const copy = (url: string) => {
+    navigator.clipboard.writeText(url);
+    toast({ title: "Copied", description: "Link copied to clipboard." });
+  };
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error instanceof ApiError ? error.body?.error ?? error.message : error.message,
+      variant: "destructive",
+    });
+  };
+
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/placements'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/audit'] });
+    setSlug("");
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (requested: string) => {
+      const response = await apiRequest('PUT', `/api/placements/${placement.id}/short-link`, {
+        slug: requested || undefined,
+      });
+      return response.json() as Promise<MarketingPlacement>;
+    },
+    onSuccess,
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('DELETE', `/api/placements/${placement.id}/short-link`);
+    },
+    onSuccess,
+    onError,
+  });
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex items-center gap-2">
+        <span className="w-24 shrink-0 text-muted-foreground">Click link</span>
+        <span className="font-mono break-all flex-1" data-testid="text-click-url">{clickUrl}</span>
+        <Button variant="ghost" size="sm" onClick={() => copy(clickUrl)} data-testid="button-copy-click-url">
+          <Copy className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <span className="w-24 shrink-0 text-muted-foreground">Short link</span>
+        {shortUrl ? (
+          <>
+            <span className="font-mono break-all flex-1" data-testid="text-short-url">{shortUrl}</span>
+            <Button variant="ghost" size="sm" onClick={() => copy(shortUrl)} data-testid="button-copy-short-url">
+              <Copy className="h-4 w-4" />
+            </Button>
+            {canEdit && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => removeMutation.mutate()}
+                disabled={removeMutation.isPending}
+                title="Remove short link"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </>
+        ) : canEdit ? (
+          <>
+            <Input
+              value={slug}
+              onChange={(e) => setSlug(e.target.value)}
+              placeholder="Custom slug (optional)"
+              className="max-w-xs"
+              data-testid="input-short-slug"
+            />
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => saveMutation.mutate(slug.trim())}
+              disabled={saveMutation.isPending}
+              data-testid="button-create-short-link"
+            >
+              {slug.trim() ? "Create" : "Generate"}
+            </Button>
+          </>
+        ) : (
+          <span className="text-muted-foreground">None</span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,204 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Download, Trash2 } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { ApiError, apiRequest } from "@/lib/queryClient";
+import { defaultExportColumns, exportColumnLabels, exportFormatLabels } from "@shared/export";
+import { toPlacementQueryString } from "@shared/placementQuery";
+import {
+  exportColumnKeys,
+  exportFormats,
+  type ExportColumn,
+  type ExportFormat,
+  type ExportPreset,
+  type InsertExportPreset,
+  type PlacementQueryInput,
+} from "@shared/schema";
+
+interface ExportDialogProps {
+  // Campaign Center filters and sort to export; everything when left out
+  filters?: Omit<PlacementQueryInput, "cursor" | "limit">;
+  label?: string;
+}
+
+// Hands a downloaded file to the browser
+function saveFile(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function ExportDialog({ filters = {}, label = "Export" }: ExportDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [columns, setColumns] = useState<ExportColumn[]>(defaultExportColumns);
+  const [presetName, setPresetName] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: presets = [] } = useQuery<ExportPreset[]>({
+    queryKey: ['/api/export-presets'],
+    enabled: open,
+  });
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error instanceof ApiError ? error.body?.error ?? error.message : error.message,
+      variant: "destructive",
+    });
+  };
+
+  const exportMutation = useMutation({
+    mutationFn: async () => {
+      const query = toPlacementQueryString({ ...filters, format, columns });
+      const response = await apiRequest('GET', `/api/placements/export?${query}`);
+      const fileName = response.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] ?? `campaigns.${format}`;
+      saveFile(await response.blob(), fileName);
+    },
+    onSuccess: () => setOpen(false),
+    onError,
+  });
+
+  const savePresetMutation = useMutation({
+    mutationFn: async (preset: InsertExportPreset) => {
+      const response = await apiRequest('POST', '/api/export-presets', preset);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/export-presets'] });
+      setPresetName("");
+      toast({ title: "Preset saved" });
+    },
+    onError,
+  });
+
+  const deletePresetMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest('DELETE', `/api/export-presets/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/export-presets'] });
+    },
+    onError,
+  });
+
+  const applyPreset = (preset: ExportPreset) => {
+    setFormat(preset.format as ExportFormat);
+    setColumns(preset.columns);
+  };
+
+  // Keeps the columns in their canonical order whatever order they were ticked in
+  const toggleColumn = (column: ExportColumn, checked: boolean) => {
+    setColumns((current) =>
+      exportColumnKeys.filter((key) => (key === column ? checked : current.includes(key))),
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" data-testid="button-export">
+          <Download className="h-4 w-4 mr-2" />
+          {label}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Export Campaigns</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          {presets.length > 0 && (
+            <div className="space-y-2">
+              <Label>Presets</Label>
+              <div className="flex flex-wrap gap-2">
+                {presets.map((preset) => (
+                  <div key={preset.id} className="flex items-center">
+                    <Button type="button" size="sm" variant="secondary" onClick={() => applyPreset(preset)}>
+                      {preset.name}
+                    </Button>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => deletePresetMutation.mutate(preset.id)}
+                      title="Delete preset"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as ExportFormat)}>
+              <SelectTrigger data-testid="select-export-format">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {exportFormats.map((option) => (
+                  <SelectItem key={option} value={option}>{exportFormatLabels[option]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Columns</Label>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-1 max-h-64 overflow-auto">
+              {exportColumnKeys.map((column) => (
+                <label key={column} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={columns.includes(column)}
+                    onChange={(e) => toggleColumn(column, e.target.checked)}
+                  />
+                  {exportColumnLabels[column]}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <Input
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              placeholder="Preset name"
+              data-testid="input-preset-name"
+            />
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => savePresetMutation.mutate({ name: presetName.trim(), format, columns })}
+              disabled={!presetName.trim() || columns.length === 0 || savePresetMutation.isPending}
+              data-testid="button-save-preset"
+            >
+              Save Preset
+            </Button>
+          </div>
+
+          <Button
+            type="button"
+            className="w-full"
+            onClick={() => exportMutation.mutate()}
+            disabled={columns.length === 0 || exportMutation.isPending}
+            data-testid="button-download-export"
+          >
+            {exportMutation.isPending ? "Exporting..." : "Download"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,125 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Search } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { PlacementStatusBadge } from "@/components/PlacementStatusBadge";
+import { useDebounced } from "@/hooks/useDebounced";
+import { apiRequest } from "@/lib/queryClient";
+import { searchMatchLabels, type SearchHighlight, type SearchResult } from "@shared/search";
+
+const MIN_QUERY_LENGTH = 2;
+
+function Highlighted({ highlight }: { highlight: SearchHighlight }) {
+  const parts: JSX.Element[] = [];
+  let position = 0;
+  highlight.ranges.forEach(([start, end], i) => {
+    parts.push(<span key={`text-${i}`}>{highlight.text.slice(position, start)}</span>);
+    parts.push(
+      <mark key={`mark-${i}`} className="bg-yellow-200 text-foreground dark:bg-yellow-700/60 rounded-sm">
+        {highlight.text.slice(start, end)}
+      </mark>,
+    );
+    position = end;
+  });
+  parts.push(<span key="rest">{highlight.text.slice(position)}</span>);
+  return <>{parts}</>;
+}
+
+// Header search box: finds campaigns by title, notes, tracking code or URL
+export function GlobalSearch() {
+  const [query, setQuery] = useState("");
+  const [open, setOpen] = useState(false);
+  const [active, setActive] = useState(0);
+  const [, navigate] = useLocation();
+
+  const search = useDebounced(query.trim(), 250);
+  const enabled = search.length >= MIN_QUERY_LENGTH;
+
+  const { data: results = [], isFetching } = useQuery<SearchResult[]>({
+    queryKey: ['/api/search', search],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/search?${new URLSearchParams({ q: search })}`);
+      return response.json();
+    },
+    enabled,
+    staleTime: 30_000,
+  });
+
+  const openResult = (result: SearchResult) => {
+    setOpen(false);
+    setQuery("");
+    navigate(`/campaigns/${result.placementId}`);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setActive((index) => Math.min(index + 1, results.length - 1));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActive((index) => Math.max(index - 1, 0));
+    } else if (e.key === "Enter" && results[active]) {
+      e.preventDefault();
+      openResult(results[active]);
+    } else if (e.key === "Escape") {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative w-full max-w-md">
+      <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+      <Input
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setActive(0);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        // Delay so a click on a result lands before the list closes
+        onBlur={() => setTimeout(() => setOpen(false), 150)}
+        onKeyDown={handleKeyDown}
+        placeholder="Search campaigns, tracking codes, URLs..."
+        className="pl-9"
+        data-testid="input-global-search"
+      />
+
+      {open && enabled && (
+        <div className="absolute z-50 mt-1 w-full rounded-md border bg-popover shadow-md max-h-96 overflow-auto">
+          {results.length === 0 ? (
+            <p className="p-3 text-sm text-muted-foreground">
+              {isFetching ? "Searching..." : `No campaigns match "${search}"`}
+            </p>
+          ) : (
+            results.map((result, index) => (
+              <button
+                key={result.placementId}
+                type="button"
+                className={`block w-full text-left px-3 py-2 space-y-1 ${index === active ? "bg-accent" : "hover:bg-accent"}`}
+                onMouseDown={(e) => e.preventDefault()}
+                onMouseEnter={() => setActive(index)}
+                onClick={() => openResult(result)}
+                data-testid={`search-result-${result.placementId}`}
+              >
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-foreground truncate">{result.title}</span>
+                  <span className="font-mono text-xs text-muted-foreground">{result.trackingCode}</span>
+                  <PlacementStatusBadge status={result.status} />
+                </div>
+                <div className="flex items-center gap-2 text-sm">
+                  <Badge variant="secondary" className="shrink-0">{searchMatchLabels[result.matchType]}</Badge>
+                  <span className="truncate text-muted-foreground">
+                    <Highlighted highlight={result.highlight} />
+                  </span>
+                </div>
+              </button>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { format } from "date-fns";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAnalytics } from "@/hooks/useAnalytics";
+import {
+  analyticsDimensionLabels,
+  analyticsDrillDownUrl,
+  formatPreviousPeriod,
+  getAnalyticsPeriod,
+  type AnalyticsSegment,
+  type AnalyticsTimeseries,
+} from "@shared/analytics";
+import {
+  analyticsDimensions,
+  type AnalyticsDimension,
+  type AnalyticsRange,
+  type AttributionModel,
+} from "@shared/schema";
+
+const CHART_HEIGHT = 300;
+// Bars beyond this are left off the breakdown; they would be too thin to read
+const MAX_SEGMENTS = 12;
+const CURRENT_COLOR = "hsl(var(--primary))";
+const PREVIOUS_COLOR = "hsl(var(--muted-foreground))";
+const CONVERSION_COLOR = "#16a34a";
+
+interface PerformanceChartsProps {
+  range: AnalyticsRange;
+  model: AttributionModel;
+}
+
+// Clicks and conversions over time, and both broken down by a campaign
+// field. Clicking a bar opens the Campaign Center filtered to its campaigns.
+export function PerformanceCharts({ range, model }: PerformanceChartsProps) {
+  const [, setLocation] = useLocation();
+  const [dimension, setDimension] = useState<AnalyticsDimension>("channelType");
+  const [compare, setCompare] = useState(true);
+
+  const { data: timeseries, isLoading: timeseriesLoading } = useAnalytics<AnalyticsTimeseries>(
+    '/api/analytics/timeseries',
+    range,
+    { model },
+  );
+  const { data: segments = [], isLoading: segmentsLoading } = useAnalytics<AnalyticsSegment[]>(
+    '/api/analytics/breakdown',
+    range,
+    { dimension, model },
+  );
+
+  const points = timeseries?.points ?? [];
+  const hasClicks = points.some((point) => point.clicks > 0 || (compare && point.previousClicks > 0));
+  const hasConversions = points.some((point) => point.conversions > 0 || (compare && point.previousConversions > 0));
+  const bucketFormat = timeseries?.granularity === "hour" ? "MMM d, HH:mm" : "MMM d";
+  const chartData = points.map((point) => ({ ...point, label: format(new Date(point.bucketStart), bucketFormat) }));
+  const shownSegments = segments.slice(0, MAX_SEGMENTS);
+  const segmentsHaveConversions = shownSegments.some((segment) => segment.conversions > 0);
+
+  const drillDown = (index: number) => {
+    const segment = shownSegments[index];
+    const url = segment && analyticsDrillDownUrl(dimension, segment.key, getAnalyticsPeriod(range));
+    if (url) setLocation(url);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col md:flex-row md:items-center justify-between gap-4 space-y-0">
+        <CardTitle className="text-lg">Performance Chart</CardTitle>
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={compare}
+            onChange={(e) => setCompare(e.target.checked)}
+            data-testid="checkbox-compare-previous"
+          />
+          Compare with the {formatPreviousPeriod(range)}
+        </label>
+      </CardHeader>
+      <CardContent className="space-y-8">
+        <div>
+          {timeseriesLoading ? (
+            <p className="text-muted-foreground">Loading chart...</p>
+          ) : !hasClicks ? (
+            <p className="text-muted-foreground">No clicks in this period.</p>
+          ) : (
+            <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+              <LineChart data={chartData} data-testid="chart-timeseries">
+                <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                <XAxis dataKey="label" tick={{ fontSize: 12 }} minTickGap={24} />
+                <YAxis allowDecimals={false} tick={{ fontSize: 12 }} />
+                <Tooltip />
+                <Legend />
+                <Line type="monotone" dataKey="clicks" name="Clicks" stroke={CURRENT_COLOR} dot={false} strokeWidth={2} />
+                {compare && (
+                  <Line
+                    type="monotone"
+                    dataKey="previousClicks"
+                    name={`Clicks, ${formatPreviousPeriod(range)}`}
+                    stroke={PREVIOUS_COLOR}
+                    strokeDasharray="4 4"
+                    dot={false}
+                  />
+                )}
+                {hasConversions && (
+                  <Line
+                    type="monotone"
+                    dataKey="conversions"
+                    name="Conversions"
+                    stroke={CONVERSION_COLOR}
+                    dot={false}
+                    strokeWidth={2}
+                  />
+                )}
+                {hasConversions && compare && (
+                  <Line
+                    type="monotone"
+                    dataKey="previousConversions"
+                    name={`Conversions, ${formatPreviousPeriod(range)}`}
+                    stroke={CONVERSION_COLOR}
+                    strokeDasharray="4 4"
+                    strokeOpacity={0.5}
+                    dot={false}
+                  />
+                )}
+              </LineChart>
+            </ResponsiveContainer>
+          )}
+        </div>
+
+        <div className="space-y-4">
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+            <div>
+              <h3 className="font-medium text-foreground">
+                Clicks and conversions by {analyticsDimensionLabels[dimension].toLowerCase()}
+              </h3>
+              <p className="text-sm text-muted-foreground">Click a bar to see its campaigns</p>
+            </div>
+            <Select value={dimension} onValueChange={(value) => setDimension(value as AnalyticsDimension)}>
+              <SelectTrigger className="md:w-48" data-testid="select-breakdown-dimension">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {analyticsDimensions.map((option) => (
+                  <SelectItem key={option} value={option}>{analyticsDimensionLabels[option]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {segmentsLoading ? (
+            <p className="text-muted-foreground">Loading breakdown...</p>
+          ) : shownSegments.length === 0 ? (
+            <p className="text-muted-foreground">No clicks in this period.</p>
+          ) : (
+            <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+              <BarChart data={shownSegments} data-testid="chart-breakdown">
+                <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                <XAxis dataKey="label" tick={{ fontSize: 12 }} interval={0} />
+                <YAxis allowDecimals={false} tick={{ fontSize: 12 }} />
+                <Tooltip />
+                <Legend />
+                <Bar dataKey="clicks" name="Clicks" fill={CURRENT_COLOR} onClick={(_, index) => drillDown(index)}>
+                  {shownSegments.map((segment) => (
+                    <Cell
+                      key={segment.key ?? "none"}
+                      fill={segment.color ?? CURRENT_COLOR}
+                      cursor={segment.key === null ? "default" : "pointer"}
+                    />
+                  ))}
+                </Bar>
+                {compare && (
+                  <Bar
+                    dataKey="previousClicks"
+                    name={`Clicks, ${formatPreviousPeriod(range)}`}
+                    fill={PREVIOUS_COLOR}
+                    fillOpacity={0.5}
+                  />
+                )}
+                {segmentsHaveConversions && (
+                  <Bar
+                    dataKey="conversions"
+                    name="Conversions"
+                    fill={CONVERSION_COLOR}
+                    onClick={(_, index) => drillDown(index)}
+                    cursor="pointer"
+                  />
+                )}
+              </BarChart>
+            </ResponsiveContainer>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
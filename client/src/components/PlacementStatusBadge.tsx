@@ -0,0 +1,20 @@
+import { Badge } from "@/components/ui/badge";
+import { placementStatusLabels } from "@shared/lifecycle";
+import type { PlacementStatus } from "@shared/schema";
+
+const statusClassNames: Record<PlacementStatus, string> = {
+  draft: "bg-muted text-muted-foreground",
+  scheduled: "bg-blue-100 text-blue-800 dark:bg-blue-950/40 dark:text-blue-300",
+  active: "bg-green-100 text-green-800 dark:bg-green-950/40 dark:text-green-300",
+  paused: "bg-amber-100 text-amber-800 dark:bg-amber-950/40 dark:text-amber-300",
+  archived: "bg-slate-200 text-slate-700 dark:bg-slate-800 dark:text-slate-300",
+};
+
+export function PlacementStatusBadge({ status }: { status: string | null | undefined }) {
+  const key = (status ?? "draft") as PlacementStatus;
+  return (
+    <Badge variant="outline" className={statusClassNames[key]} data-testid="badge-status">
+      {placementStatusLabels[key] ?? status}
+    </Badge>
+  );
+}
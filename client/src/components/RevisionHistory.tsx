@@ -0,0 +1,178 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { RotateCcw } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { ApiError, apiRequest } from "@/lib/queryClient";
+import { formatAuditField, formatAuditValue } from "@shared/audit";
+import {
+  changedRevisionFields,
+  revisionFields,
+  type PlacementRevisionWithActor,
+  type RevisionField,
+} from "@shared/revisions";
+
+interface RevisionHistoryProps {
+  placementId: string;
+  canEdit: boolean;
+}
+
+const dateFields = new Set<RevisionField>(["startDate", "endDate"]);
+
+function formatRevisionValue(field: RevisionField, value: unknown): string {
+  if (dateFields.has(field) && typeof value === "string") {
+    return format(new Date(value), "PP");
+  }
+  return formatAuditValue(value);
+}
+
+function revisionAuthor(revision: PlacementRevisionWithActor): string {
+  return revision.actorName || revision.actorEmail || revision.actorId || "unknown";
+}
+
+export function RevisionHistory({ placementId, canEdit }: RevisionHistoryProps) {
+  // Revision numbers being compared; defaults to the latest two
+  const [selected, setSelected] = useState<[number, number] | null>(null);
+  const [showAll, setShowAll] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: revisions = [], isLoading } = useQuery<PlacementRevisionWithActor[]>({
+    queryKey: ['/api/placements', placementId, 'revisions'],
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (revision: number) => {
+      const response = await apiRequest('POST', `/api/placements/${placementId}/revisions/${revision}/restore`);
+      return response.json();
+    },
+    onSuccess: (_data, revision) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/placements'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/audit'] });
+      setSelected(null);
+      toast({ title: `Revision ${revision} restored` });
+    },
+    onError: (error: any) => {
+      const fieldErrors = error instanceof ApiError ? error.body?.fieldErrors : undefined;
+      toast({
+        title: error instanceof ApiError ? error.body?.error ?? "Error" : "Error",
+        description: fieldErrors ? Object.values(fieldErrors).join(" ") : error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const latest = revisions[0];
+  const [olderNumber, newerNumber] = selected ?? [revisions[1]?.revision, latest?.revision];
+  const older = revisions.find((revision) => revision.revision === olderNumber);
+  const newer = revisions.find((revision) => revision.revision === newerNumber);
+  const changed = older && newer ? changedRevisionFields(older.snapshot, newer.snapshot) : [];
+  const fields = showAll ? revisionFields : changed;
+
+  // Clicking a revision compares it with the latest one
+  const compareWithLatest = (revision: number) => {
+    if (latest && revision !== latest.revision) {
+      setSelected([revision, latest.revision]);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Revisions</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading revisions...</p>
+        ) : revisions.length < 2 ? (
+          <p className="text-sm text-muted-foreground">No earlier revisions yet.</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-2">
+              {revisions.map((revision) => (
+                <Button
+                  key={revision.id}
+                  type="button"
+                  size="sm"
+                  variant={revision.revision === olderNumber || revision.revision === newerNumber ? "default" : "outline"}
+                  onClick={() => compareWithLatest(revision.revision)}
+                  title={`by ${revisionAuthor(revision)}${revision.createdAt ? ` · ${format(new Date(revision.createdAt), "PPp")}` : ""}`}
+                  data-testid={`button-revision-${revision.revision}`}
+                >
+                  #{revision.revision}
+                  {revision.restoredFrom && ` (restored #${revision.restoredFrom})`}
+                </Button>
+              ))}
+            </div>
+
+            {older && newer && (
+              <div className="space-y-3">
+                <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                  <span>
+                    Comparing #{older.revision} with #{newer.revision}
+                    {newer.revision === latest.revision && " (current)"}
+                  </span>
+                  <Badge variant="secondary">{changed.length} changed</Badge>
+                  <label className="flex items-center gap-2">
+                    <input type="checkbox" checked={showAll} onChange={(e) => setShowAll(e.target.checked)} />
+                    Show unchanged fields
+                  </label>
+                </div>
+
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-muted-foreground">
+                        <th className="py-1 pr-4 font-medium">Field</th>
+                        <th className="py-1 pr-4 font-medium">
+                          #{older.revision} · {revisionAuthor(older)}
+                          {older.createdAt && ` · ${format(new Date(older.createdAt), "PPp")}`}
+                        </th>
+                        <th className="py-1 font-medium">
+                          #{newer.revision} · {revisionAuthor(newer)}
+                          {newer.createdAt && ` · ${format(new Date(newer.createdAt), "PPp")}`}
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {fields.map((field) => {
+                        const isChanged = changed.includes(field);
+                        return (
+                          <tr key={field} className={isChanged ? "bg-yellow-50 dark:bg-yellow-900/20" : ""}>
+                            <td className="py-1 pr-4 text-muted-foreground">{formatAuditField(field)}</td>
+                            <td className={`py-1 pr-4 break-all ${isChanged ? "text-red-700 dark:text-red-400" : "text-foreground"}`}>
+                              {formatRevisionValue(field, older.snapshot[field])}
+                            </td>
+                            <td className={`py-1 break-all ${isChanged ? "text-green-700 dark:text-green-400" : "text-foreground"}`}>
+                              {formatRevisionValue(field, newer.snapshot[field])}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+
+                {canEdit && older.revision !== latest.revision && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => restoreMutation.mutate(older.revision)}
+                    disabled={restoreMutation.isPending}
+                    data-testid="button-restore-revision"
+                  >
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    {restoreMutation.isPending ? "Restoring..." : `Restore Revision ${older.revision}`}
+                  </Button>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
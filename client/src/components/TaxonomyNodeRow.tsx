@@ -0,0 +1,179 @@
+import { useState } from "react";
+import { ChevronRight, Pencil, Plus, Archive, RotateCcw, Check, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { TaxonomyKind, TaxonomyNode } from "@shared/schema";
+
+export interface TaxonomyNodeWithChildren extends TaxonomyNode {
+  children: TaxonomyNodeWithChildren[];
+}
+
+export interface ParentOption {
+  id: string;
+  label: string;
+}
+
+interface TaxonomyNodeRowProps {
+  node: TaxonomyNodeWithChildren;
+  depth: number;
+  childKind?: TaxonomyKind;
+  parentOptions: (kind: TaxonomyKind) => ParentOption[];
+  onRename: (node: TaxonomyNode, name: string) => void;
+  onToggleActive: (node: TaxonomyNode) => void;
+  onMove: (node: TaxonomyNode, parentId: string) => void;
+  onAddChild: (parent: TaxonomyNode, name: string) => void;
+  childKindOf: (kind: TaxonomyKind) => TaxonomyKind | undefined;
+}
+
+export function TaxonomyNodeRow({
+  node,
+  depth,
+  childKind,
+  parentOptions,
+  onRename,
+  onToggleActive,
+  onMove,
+  onAddChild,
+  childKindOf,
+}: TaxonomyNodeRowProps) {
+  const [expanded, setExpanded] = useState(depth === 0);
+  const [editing, setEditing] = useState(false);
+  const [name, setName] = useState(node.name);
+  const [addingChild, setAddingChild] = useState(false);
+  const [childName, setChildName] = useState("");
+
+  const kind = node.kind as TaxonomyKind;
+  const moveOptions = node.parentId ? parentOptions(kind) : [];
+
+  return (
+    <div className="space-y-1">
+      <div
+        className="flex items-center gap-2 py-1 rounded hover:bg-muted/50"
+        style={{ paddingLeft: `${depth * 1.5}rem` }}
+        data-testid={`taxonomy-node-${node.id}`}
+      >
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="h-6 w-6 p-0"
+          onClick={() => setExpanded(!expanded)}
+          disabled={node.children.length === 0}
+        >
+          <ChevronRight className={`h-4 w-4 transition-transform ${expanded ? "rotate-90" : ""}`} />
+        </Button>
+
+        {editing ? (
+          <>
+            <Input value={name} onChange={(e) => setName(e.target.value)} className="h-8 w-64" />
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                onRename(node, name.trim());
+                setEditing(false);
+              }}
+              disabled={!name.trim()}
+            >
+              <Check className="h-4 w-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                setName(node.name);
+                setEditing(false);
+              }}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </>
+        ) : (
+          <span className={node.isActive === false ? "text-muted-foreground line-through" : "text-foreground"}>
+            {node.name}
+          </span>
+        )}
+        {node.isActive === false && <Badge variant="outline">Retired</Badge>}
+
+        <div className="ml-auto flex items-center gap-1">
+          {moveOptions.length > 1 && (
+            <Select value={node.parentId ?? undefined} onValueChange={(parentId) => onMove(node, parentId)}>
+              <SelectTrigger className="h-8 w-56" data-testid={`select-move-${node.id}`}>
+                <SelectValue placeholder="Move to..." />
+              </SelectTrigger>
+              <SelectContent>
+                {moveOptions.map((option) => (
+                  <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Button type="button" variant="ghost" size="sm" onClick={() => setEditing(true)} title="Rename">
+            <Pencil className="h-4 w-4" />
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onToggleActive(node)}
+            title={node.isActive === false ? "Restore" : "Retire"}
+          >
+            {node.isActive === false ? <RotateCcw className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+          </Button>
+          {childKind && (
+            <Button type="button" variant="ghost" size="sm" onClick={() => setAddingChild(true)} title="Add child">
+              <Plus className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {addingChild && childKind && (
+        <div className="flex items-center gap-2" style={{ paddingLeft: `${(depth + 1) * 1.5 + 2}rem` }}>
+          <Input
+            value={childName}
+            onChange={(e) => setChildName(e.target.value)}
+            placeholder={`New ${childKind}`}
+            className="h-8 w-64"
+          />
+          <Button
+            type="button"
+            size="sm"
+            onClick={() => {
+              onAddChild(node, childName.trim());
+              setChildName("");
+              setAddingChild(false);
+              setExpanded(true);
+            }}
+            disabled={!childName.trim()}
+          >
+            Add
+          </Button>
+          <Button type="button" variant="ghost" size="sm" onClick={() => setAddingChild(false)}>
+            Cancel
+          </Button>
+        </div>
+      )}
+
+      {expanded &&
+        node.children.map((child) => (
+          <TaxonomyNodeRow
+            key={child.id}
+            node={child}
+            depth={depth + 1}
+            childKind={childKindOf(child.kind as TaxonomyKind)}
+            parentOptions={parentOptions}
+            onRename={onRename}
+            onToggleActive={onToggleActive}
+            onMove={onMove}
+            onAddChild={onAddChild}
+            childKindOf={childKindOf}
+          />
+        ))}
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { ApiError, apiRequest } from "@/lib/queryClient";
+import { formatAuditField, formatAuditValue } from "@shared/audit";
+import {
+  templateFields,
+  type CampaignTemplate,
+  type InsertCampaignTemplateInput,
+  type TemplateField,
+  type TemplateValues,
+} from "@shared/schema";
+
+interface TemplateDialogProps {
+  // Values for a new template; ignored when editing an existing one
+  values?: TemplateValues;
+  template?: CampaignTemplate;
+  trigger: React.ReactNode;
+}
+
+// Saves a campaign as a new template, or edits the name, sharing and locks of
+// an existing one
+export function TemplateDialog({ values: newValues = {}, template, trigger }: TemplateDialogProps) {
+  const values = template?.values ?? newValues;
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState(template?.name ?? "");
+  const [description, setDescription] = useState(template?.description ?? "");
+  const [isShared, setIsShared] = useState(template?.isShared ?? false);
+  const [lockedFields, setLockedFields] = useState<TemplateField[]>(template?.lockedFields ?? []);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Only fields with a value can be locked
+  const lockableFields = templateFields.filter((field) => values[field] !== undefined && values[field] !== "");
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: InsertCampaignTemplateInput) => {
+      const response = template
+        ? await apiRequest('PUT', `/api/templates/${template.id}`, data)
+        : await apiRequest('POST', '/api/templates', data);
+      return response.json() as Promise<CampaignTemplate>;
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/templates'] });
+      setOpen(false);
+      toast({ title: template ? "Template updated" : "Template saved", description: saved.name });
+    },
+    onError: (error: any) => {
+      const fieldErrors = error instanceof ApiError ? error.body?.fieldErrors : undefined;
+      toast({
+        title: error instanceof ApiError ? error.body?.error ?? "Error" : "Error",
+        description: fieldErrors ? Object.values(fieldErrors).join(" ") : error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleLock = (field: TemplateField, checked: boolean) => {
+    setLockedFields((current) => templateFields.filter((key) => (key === field ? checked : current.includes(key))));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{template ? "Edit Template" : "Save as Template"}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="template-name">Name</Label>
+            <Input
+              id="template-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Spring newsletter"
+              data-testid="input-template-name"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="template-description">Description</Label>
+            <Textarea
+              id="template-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={2}
+            />
+          </div>
+
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={isShared} onChange={(e) => setIsShared(e.target.checked)} />
+            Share with everyone who creates campaigns
+          </label>
+
+          <div className="space-y-2">
+            <Label>Locked fields</Label>
+            <p className="text-sm text-muted-foreground">
+              Campaigns created from this template cannot change locked fields.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-1 max-h-64 overflow-auto">
+              {lockableFields.map((field) => (
+                <label key={field} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={lockedFields.includes(field)}
+                    onChange={(e) => toggleLock(field, e.target.checked)}
+                  />
+                  <span className="text-foreground">{formatAuditField(field)}</span>
+                  <span className="truncate text-muted-foreground">{formatAuditValue(values[field])}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <Button
+            type="button"
+            className="w-full"
+            onClick={() =>
+              saveMutation.mutate({ name: name.trim(), description: description || null, isShared, values, lockedFields })
+            }
+            disabled={!name.trim() || saveMutation.isPending}
+            data-testid="button-save-template"
+          >
+            {saveMutation.isPending ? "Saving..." : "Save Template"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,181 @@
+import { useState } from "react";
+import { Plus, Trash2 } from "lucide-react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  trackingUrlTemplateSchema,
+  trackingUrlTokens,
+  type ChannelType,
+  type TrackingUrlFormat,
+  type TrackingUrlTemplate,
+} from "@shared/schema";
+import { buildTrackingUrl, defaultTrackingTemplate, resolveTemplateParams } from "@shared/trackingUrl";
+
+interface TrackingTemplateEditorProps {
+  channelType: ChannelType;
+}
+
+const formatLabels: Record<TrackingUrlFormat, string> = {
+  utm: "UTM parameters",
+  adobe: "Adobe Analytics cid",
+  custom: "Custom parameters",
+};
+
+// Sample placement used to preview the generated URL
+const samplePlacement = {
+  baseUrl: "https://example.com/landing?lang=en",
+  anchorTag: "offer",
+  trackingCode: "SAMPLE-000123",
+  title: "Summer Product Launch",
+  campaignType: "Social Media",
+  campaignSource: "LinkedIn",
+  adType: "Image",
+  adTypeDetail: "Native",
+  brand1: "Brand A",
+  tactic: "Awareness",
+};
+
+export function TrackingTemplateEditor({ channelType }: TrackingTemplateEditorProps) {
+  const [template, setTemplate] = useState<TrackingUrlTemplate>(
+    channelType.trackingTemplate ?? defaultTrackingTemplate,
+  );
+
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const validation = trackingUrlTemplateSchema.safeParse(template);
+
+  const preview = validation.success ? buildTrackingUrl(samplePlacement, validation.data) : null;
+
+  const saveTemplateMutation = useMutation({
+    mutationFn: async (trackingTemplate: TrackingUrlTemplate | null) => {
+      const response = await apiRequest('PUT', `/api/channel-types/${channelType.id}/template`, { trackingTemplate });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/channel-types'] });
+      toast({
+        title: "Template saved",
+        description: `New ${channelType.name} placements will use this template.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save template",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateParam = (index: number, field: "key" | "value", value: string) => {
+    setTemplate((current) => ({
+      ...current,
+      params: current.params.map((param, i) => (i === index ? { ...param, [field]: value } : param)),
+    }));
+  };
+
+  const removeParam = (index: number) => {
+    setTemplate((current) => ({
+      ...current,
+      params: current.params.filter((_, i) => i !== index),
+    }));
+  };
+
+  const addParam = () => {
+    setTemplate((current) => ({ ...current, params: [...current.params, { key: "", value: "" }] }));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>URL Format</Label>
+        <Select
+          value={template.format}
+          onValueChange={(format) => setTemplate((current) => ({ ...current, format: format as TrackingUrlFormat }))}
+        >
+          <SelectTrigger className="w-64" data-testid={`select-template-format-${channelType.id}`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(formatLabels).map(([format, label]) => (
+              <SelectItem key={format} value={format}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Parameters</Label>
+        <p className="text-sm text-muted-foreground">
+          {template.format === "custom"
+            ? "Only the parameters below are added."
+            : `Defaults: ${resolveTemplateParams({ format: template.format, params: [] }).map((p) => p.key).join(", ")}. Parameters below override them.`}
+        </p>
+        {template.params.map((param, index) => (
+          <div key={index} className="flex gap-2">
+            <Input
+              value={param.key}
+              onChange={(e) => updateParam(index, "key", e.target.value)}
+              placeholder="Parameter"
+              className="w-48"
+              data-testid={`input-param-key-${index}`}
+            />
+            <Input
+              value={param.value}
+              onChange={(e) => updateParam(index, "value", e.target.value)}
+              placeholder="{campaignSource|slug}"
+              data-testid={`input-param-value-${index}`}
+            />
+            <Button type="button" variant="ghost" size="icon" onClick={() => removeParam(index)}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <Button type="button" variant="outline" size="sm" onClick={addParam} data-testid="button-add-param">
+          <Plus className="h-3 w-3 mr-1" />
+          Add Parameter
+        </Button>
+        <p className="text-xs text-muted-foreground">
+          Available fields: {trackingUrlTokens.map((token) => `{${token}}`).join(" ")}. Filters: |lower, |upper, |slug
+        </p>
+      </div>
+
+      <div className="space-y-1">
+        <Label>Preview</Label>
+        {validation.success ? (
+          <p className="text-sm font-mono break-all text-foreground" data-testid="text-template-preview">{preview}</p>
+        ) : (
+          <p className="text-sm text-destructive">{validation.error.issues[0]?.message}</p>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          onClick={() => validation.success && saveTemplateMutation.mutate(validation.data)}
+          disabled={!validation.success || saveTemplateMutation.isPending}
+          data-testid={`button-save-template-${channelType.id}`}
+        >
+          {saveTemplateMutation.isPending ? "Saving..." : "Save Template"}
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => {
+            setTemplate(defaultTrackingTemplate);
+            saveTemplateMutation.mutate(null);
+          }}
+          disabled={saveTemplateMutation.isPending}
+        >
+          Reset to Default
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import { Link } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Trash2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { apiRequest } from "@/lib/queryClient";
+import { draftTitle } from "@shared/drafts";
+import type { CampaignDraft } from "@shared/schema";
+
+// The user's campaign builder drafts, so a half-filled form can be picked up again
+export function UnfinishedDrafts() {
+  const queryClient = useQueryClient();
+
+  const { data: drafts = [] } = useQuery<CampaignDraft[]>({
+    queryKey: ['/api/drafts'],
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest('DELETE', `/api/drafts/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/drafts'] });
+    },
+  });
+
+  if (drafts.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Your Unfinished Drafts</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {drafts.map((draft) => (
+          <div key={draft.id} className="flex items-center gap-3" data-testid={`draft-${draft.id}`}>
+            <div className="flex-1 min-w-0">
+              <div className="font-medium text-foreground truncate">{draftTitle(draft)}</div>
+              {draft.updatedAt && (
+                <div className="text-sm text-muted-foreground">
+                  Saved {formatDistanceToNow(new Date(draft.updatedAt), { addSuffix: true })}
+                </div>
+              )}
+            </div>
+            <Button asChild size="sm">
+              <Link href={`/create?draft=${draft.id}`}>Resume</Link>
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => deleteMutation.mutate(draft.id)}
+              disabled={deleteMutation.isPending}
+              title="Discard draft"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
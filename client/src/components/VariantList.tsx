@@ -0,0 +1,60 @@
+import { Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { PlacementStatusBadge } from "@/components/PlacementStatusBadge";
+import { variantLabel, type ParentCampaignWithPlacements } from "@shared/variants";
+
+interface VariantListProps {
+  parentCampaignId: string;
+  currentId: string;
+}
+
+// The other placements generated together with this one in variants mode
+export function VariantList({ parentCampaignId, currentId }: VariantListProps) {
+  const { data: parent } = useQuery<ParentCampaignWithPlacements>({
+    queryKey: ['/api/parent-campaigns', parentCampaignId],
+  });
+
+  if (!parent) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Variants of {parent.title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-muted-foreground border-b">
+              <th className="py-2 pr-4 font-medium">Combination</th>
+              <th className="py-2 pr-4 font-medium">Tracking Code</th>
+              <th className="py-2 font-medium">Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {parent.placements.map((placement) => (
+              <tr key={placement.id} className="border-b" data-testid={`variant-${placement.id}`}>
+                <td className="py-2 pr-4">
+                  {placement.id === currentId ? (
+                    <span className="font-medium text-foreground">
+                      {variantLabel(placement)}
+                      {" (this campaign)"}
+                    </span>
+                  ) : (
+                    <Link href={`/campaigns/${placement.id}`} className="text-primary hover:underline">
+                      {variantLabel(placement)}
+                    </Link>
+                  )}
+                </td>
+                <td className="py-2 pr-4 font-mono">{placement.trackingCode}</td>
+                <td className="py-2"><PlacementStatusBadge status={placement.status} /></td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,106 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { emptyTaxonomy, type CampaignTaxonomy } from "@shared/taxonomy";
+import { listVariantCombinations, variantKey } from "@shared/variants";
+import { MAX_VARIANTS, type VariantCombination } from "@shared/schema";
+
+interface VariantPickerProps {
+  campaignType?: string;
+  selected: VariantCombination[];
+  onChange: (selected: VariantCombination[]) => void;
+}
+
+// Source x ad type matrix for variants mode: every combination the taxonomy
+// allows for the campaign type, grouped by source
+export function VariantPicker({ campaignType, selected, onChange }: VariantPickerProps) {
+  const { data: taxonomy = emptyTaxonomy } = useQuery<CampaignTaxonomy>({
+    queryKey: ['/api/taxonomy'],
+  });
+
+  const combinations = useMemo(() => listVariantCombinations(taxonomy, campaignType), [taxonomy, campaignType]);
+  const bySource = useMemo(() => {
+    const groups = new Map<string, VariantCombination[]>();
+    for (const combination of combinations) {
+      groups.set(combination.campaignSource, [...(groups.get(combination.campaignSource) ?? []), combination]);
+    }
+    return Array.from(groups.entries());
+  }, [combinations]);
+
+  const selectedKeys = new Set(selected.map(variantKey));
+  // The combination chosen in the form is always generated too, so it takes
+  // up one of the MAX_VARIANTS
+  const maxSelected = MAX_VARIANTS - 1;
+  const full = selected.length >= maxSelected;
+
+  // Keeps the selection in taxonomy order
+  const update = (keys: Set<string>) => {
+    onChange(combinations.filter((combination) => keys.has(variantKey(combination))).slice(0, maxSelected));
+  };
+
+  const toggle = (combination: VariantCombination, checked: boolean) => {
+    const keys = new Set(selectedKeys);
+    if (checked) keys.add(variantKey(combination));
+    else keys.delete(variantKey(combination));
+    update(keys);
+  };
+
+  const toggleSource = (sourceCombinations: VariantCombination[]) => {
+    const keys = new Set(selectedKeys);
+    const allSelected = sourceCombinations.every((combination) => keys.has(variantKey(combination)));
+    sourceCombinations.forEach((combination) =>
+      allSelected ? keys.delete(variantKey(combination)) : keys.add(variantKey(combination)),
+    );
+    update(keys);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center gap-3 space-y-0">
+        <CardTitle className="text-lg">Variants</CardTitle>
+        <Badge variant={full ? "outline" : "secondary"}>
+          {selected.length + 1} of at most {MAX_VARIANTS} campaigns, the form's own included
+        </Badge>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!campaignType ? (
+          <p className="text-sm text-muted-foreground">Choose a campaign type to see its combinations.</p>
+        ) : bySource.length === 0 ? (
+          <p className="text-sm text-muted-foreground">The taxonomy has no sources for {campaignType}.</p>
+        ) : (
+          <>
+            <p className="text-sm text-muted-foreground">
+              One campaign with its own tracking code is created for each combination ticked here, plus the
+              source and ad type chosen in the form.
+            </p>
+            {bySource.map(([source, sourceCombinations]) => (
+              <div key={source} className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-foreground">{source}</span>
+                  <Button type="button" variant="ghost" size="sm" onClick={() => toggleSource(sourceCombinations)}>
+                    Toggle all
+                  </Button>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-1">
+                  {sourceCombinations.map((combination) => (
+                    <label key={variantKey(combination)} className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={selectedKeys.has(variantKey(combination))}
+                        disabled={full && !selectedKeys.has(variantKey(combination))}
+                        onChange={(e) => toggle(combination, e.target.checked)}
+                      />
+                      {[combination.adType, combination.adTypeDetail].filter(Boolean).join(" / ")}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,20 @@
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { AnalyticsRange } from "@shared/schema";
+
+// Clicks are rolled up in the background, so a few minutes' caching loses nothing
+const ANALYTICS_STALE_TIME = 5 * 60 * 1000;
+
+// Fetches one of the /api/analytics endpoints for a range, plus any extra
+// query parameters such as the breakdown dimension
+export function useAnalytics<T>(path: string, range: AnalyticsRange, params: Record<string, string> = {}) {
+  const search = new URLSearchParams({ range, ...params });
+  return useQuery<T>({
+    queryKey: [path, range, params],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `${path}?${search}`);
+      return response.json();
+    },
+    staleTime: ANALYTICS_STALE_TIME,
+  });
+}
@@ -0,0 +1,133 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { ApiError, apiRequest } from "@/lib/queryClient";
+import type { CampaignDraft, DraftValues } from "@shared/schema";
+
+// Saves wait until the user pauses typing for this long
+const AUTOSAVE_DELAY = 1500;
+
+export type DraftSaveState = "idle" | "saving" | "saved" | "conflict" | "error";
+
+interface UseCampaignDraftOptions {
+  // The draft the builder was opened with, if any
+  draft?: CampaignDraft;
+  templateId?: string;
+  // Called once the first autosave has created a new draft
+  onCreated?: (draft: CampaignDraft) => void;
+}
+
+// Autosaves the campaign builder to a server-side draft. Each save sends the
+// version it started from; when another tab saved first the newer draft is
+// held in `conflict` and autosaving pauses until the user picks a side.
+export function useCampaignDraft({ draft, templateId, onCreated }: UseCampaignDraftOptions) {
+  const queryClient = useQueryClient();
+  const [saveState, setSaveState] = useState<DraftSaveState>("idle");
+  const [savedAt, setSavedAt] = useState<Date | null>(draft?.updatedAt ? new Date(draft.updatedAt) : null);
+  const [conflict, setConflict] = useState<CampaignDraft | null>(null);
+
+  const idRef = useRef(draft?.id);
+  const versionRef = useRef(draft?.version);
+  const pendingRef = useRef<DraftValues>();
+  const timerRef = useRef<ReturnType<typeof setTimeout>>();
+  const savingRef = useRef(false);
+  const conflictRef = useRef(false);
+  const onCreatedRef = useRef(onCreated);
+  onCreatedRef.current = onCreated;
+
+  useEffect(() => {
+    if (draft && draft.id !== idRef.current) {
+      idRef.current = draft.id;
+      versionRef.current = draft.version;
+      setSavedAt(draft.updatedAt ? new Date(draft.updatedAt) : null);
+    }
+  }, [draft]);
+
+  const flush = useCallback(async () => {
+    const values = pendingRef.current;
+    if (!values || savingRef.current || conflictRef.current) return;
+    pendingRef.current = undefined;
+    savingRef.current = true;
+    setSaveState("saving");
+
+    try {
+      const isNew = !idRef.current;
+      const response = isNew
+        ? await apiRequest('POST', '/api/drafts', { values, templateId })
+        : await apiRequest('PUT', `/api/drafts/${idRef.current}`, { values, templateId, version: versionRef.current });
+      const saved: CampaignDraft = await response.json();
+      idRef.current = saved.id;
+      versionRef.current = saved.version;
+      queryClient.setQueryData(['/api/drafts', saved.id], saved);
+      queryClient.invalidateQueries({ queryKey: ['/api/drafts'], exact: true });
+      setSavedAt(saved.updatedAt ? new Date(saved.updatedAt) : new Date());
+      setSaveState("saved");
+      if (isNew) onCreatedRef.current?.(saved);
+    } catch (error) {
+      // Newer values typed during the save win over the ones that failed
+      pendingRef.current ??= values;
+      if (error instanceof ApiError && error.status === 409 && error.body?.draft) {
+        conflictRef.current = true;
+        setConflict(error.body.draft);
+        setSaveState("conflict");
+      } else {
+        setSaveState("error");
+      }
+    } finally {
+      savingRef.current = false;
+    }
+
+    // Catch up on changes made while the save was in flight
+    if (pendingRef.current && !conflictRef.current && !timerRef.current) {
+      void flush();
+    }
+  }, [queryClient, templateId]);
+
+  const queueSave = useCallback((values: DraftValues) => {
+    pendingRef.current = values;
+    clearTimeout(timerRef.current);
+    timerRef.current = setTimeout(() => {
+      timerRef.current = undefined;
+      void flush();
+    }, AUTOSAVE_DELAY);
+  }, [flush]);
+
+  // Drops unsaved changes, e.g. once the campaign itself has been created
+  const cancel = useCallback(() => {
+    clearTimeout(timerRef.current);
+    timerRef.current = undefined;
+    pendingRef.current = undefined;
+  }, []);
+
+  // Keep this tab's values, overwriting the save made elsewhere
+  const keepMine = useCallback(() => {
+    if (!conflict) return;
+    versionRef.current = conflict.version;
+    conflictRef.current = false;
+    setConflict(null);
+    void flush();
+  }, [conflict, flush]);
+
+  // Take the save made elsewhere; the caller reloads the form with it
+  const takeTheirs = useCallback((): CampaignDraft | null => {
+    if (!conflict) return null;
+    versionRef.current = conflict.version;
+    pendingRef.current = undefined;
+    conflictRef.current = false;
+    queryClient.setQueryData(['/api/drafts', conflict.id], conflict);
+    setConflict(null);
+    setSavedAt(conflict.updatedAt ? new Date(conflict.updatedAt) : null);
+    setSaveState("saved");
+    return conflict;
+  }, [conflict, queryClient]);
+
+  // Save whatever is still waiting when the builder is left
+  useEffect(() => () => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = undefined;
+      void flush();
+    }
+  }, [flush]);
+
+  return { draftId: idRef.current, saveState, savedAt, conflict, queueSave, cancel, keepMine, takeTheirs };
+}
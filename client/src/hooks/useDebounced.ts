@@ -0,0 +1,12 @@
+import { useEffect, useState } from "react";
+
+// Follows `value` once it has stopped changing for `delay` milliseconds, so
+// text inputs only hit the API when the user stops typing
+export function useDebounced<T>(value: T, delay = 300): T {
+  const [debounced, setDebounced] = useState(value);
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timeout);
+  }, [value, delay]);
+  return debounced;
+}
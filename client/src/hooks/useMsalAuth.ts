@@ -2,6 +2,8 @@ import { useEffect, useState } from "react";
 import { useMsal, useIsAuthenticated } from "@azure/msal-react";
 import { AccountInfo } from "@azure/msal-browser";
 import { loginRequest, graphConfig } from "../auth/msalConfig";
+import { apiRequest } from "@/lib/queryClient";
+import { hasPermission, type AuthUser, type Permission, type Role } from "@shared/permissions";
 
 export interface MsalUser {
   id: string;
@@ -10,6 +12,30 @@ export interface MsalUser {
   lastName?: string;
   profileImageUrl?: string;
   isAdmin?: boolean;
+  roles: Role[];
+  permissions: Permission[];
+}
+
+// Roles and permissions come from the API, which maps them from the token
+async function fetchAuthUser(): Promise<AuthUser | null> {
+  try {
+    const response = await apiRequest("GET", "/api/auth/user");
+    return await response.json();
+  } catch (error) {
+    console.error("Error fetching user permissions:", error);
+    return null;
+  }
+}
+
+function withAccess(user: Omit<MsalUser, "roles" | "permissions" | "isAdmin">, authUser: AuthUser | null): MsalUser {
+  const permissions = authUser?.permissions ?? [];
+  return {
+    ...user,
+    id: authUser?.id ?? user.id,
+    roles: authUser?.roles ?? [],
+    permissions,
+    isAdmin: hasPermission(permissions, "settings:manage"),
+  };
 }
 
 export function useMsalAuth() {
@@ -18,22 +44,25 @@ export function useMsalAuth() {
   const [user, setUser] = useState<MsalUser | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
-  // Development bypass - mock user when not in production
+  // Development bypass - mock user when not in production. The API only
+  // accepts its token-less requests when the server runs with AUTH_DEV_BYPASS.
   const isDevelopmentBypass = import.meta.env.DEV && !isAuthenticated;
 
   useEffect(() => {
     if (isAuthenticated && accounts.length > 0) {
       fetchUserProfile(accounts[0]);
     } else if (isDevelopmentBypass) {
-      // Mock user for development bypass
-      setUser({
-        id: "dev-user-id",
-        email: "developer@company.com",
-        firstName: "Dev",
-        lastName: "User",
-        isAdmin: true,
+      // Mock user for development bypass; the dev server signs API calls
+      // without a token in as the same user
+      fetchAuthUser().then((authUser) => {
+        setUser(withAccess({
+          id: "dev-user-id",
+          email: "developer@company.com",
+          firstName: "Dev",
+          lastName: "User",
+        }, authUser));
+        setIsLoading(false);
       });
-      setIsLoading(false);
     } else {
       setUser(null);
       setIsLoading(false);
@@ -60,35 +89,36 @@ export function useMsalAuth() {
       if (graphResponse.ok) {
         const profileData = await graphResponse.json();
         
-        const msalUser: MsalUser = {
+        const msalUser = withAccess({
           id: account.homeAccountId,
           email: profileData.mail || profileData.userPrincipalName,
           firstName: profileData.givenName,
           lastName: profileData.surname,
           profileImageUrl: `https://graph.microsoft.com/v1.0/me/photo/$value`,
-          isAdmin: false, // Will be determined by your backend logic
-        };
+        }, await fetchAuthUser());
 
         setUser(msalUser);
       }
     } catch (error) {
       console.error("Error fetching user profile:", error);
-      setUser({
+      setUser(withAccess({
         id: account.homeAccountId,
         email: account.username,
         firstName: account.name?.split(" ")[0],
         lastName: account.name?.split(" ").slice(1).join(" "),
-        isAdmin: false,
-      });
+      }, await fetchAuthUser()));
     } finally {
       setIsLoading(false);
     }
   };
 
   const login = () => {
-    instance.loginPopup(loginRequest).catch((error) => {
-      console.error("Login error:", error);
-    });
+    instance
+      .loginPopup(loginRequest)
+      .then((result) => instance.setActiveAccount(result.account))
+      .catch((error) => {
+        console.error("Login error:", error);
+      });
   };
 
   const logout = () => {
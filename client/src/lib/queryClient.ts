@@ -1,12 +1,54 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { getApiAccessToken } from "@/auth/msalInstance";
+import type { ImportReport } from "@shared/import";
+import type { CampaignDraft } from "@shared/schema";
+import type { FieldErrors } from "@shared/validation";
+
+// JSON body of an error response. Every route sends `error`; the others come
+// with particular failures.
+export interface ApiErrorBody {
+  error?: string;
+  // Placement, template and approval validation failures, by form field
+  fieldErrors?: FieldErrors;
+  // Variants that failed validation, by variant key
+  variantErrors?: Record<string, FieldErrors>;
+  // The newer draft when a save conflicts with another tab
+  draft?: CampaignDraft;
+  // Rejected import, with the problems found in each row
+  report?: ImportReport;
+}
+
+// Error thrown for non-2xx responses. `body` holds the parsed JSON response.
+export class ApiError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+    public body?: ApiErrorBody,
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
-    throw new Error(`${res.status}: ${text}`);
+    let body: unknown;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      body = undefined;
+    }
+    const errorBody = body && typeof body === "object" && !Array.isArray(body) ? (body as ApiErrorBody) : undefined;
+    throw new ApiError(res.status, `${res.status}: ${text}`, errorBody);
   }
 }
 
+async function authHeaders(): Promise<Record<string, string>> {
+  const token = await getApiAccessToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
 export async function apiRequest(
   method: string,
   url: string,
@@ -14,7 +56,10 @@ export async function apiRequest(
 ): Promise<Response> {
   const res = await fetch(url, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
+    headers: {
+      ...(data ? { "Content-Type": "application/json" } : {}),
+      ...(await authHeaders()),
+    },
     body: data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
@@ -30,6 +75,7 @@ export const getQueryFn: <T>(options: {
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
     const res = await fetch(queryKey.join("/") as string, {
+      headers: await authHeaders(),
       credentials: "include",
     });
 
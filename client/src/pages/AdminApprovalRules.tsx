@@ -0,0 +1,217 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Archive, RotateCcw } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { emptyTaxonomy, optionNames, type CampaignTaxonomy } from "@shared/taxonomy";
+import { roleLabels } from "@shared/permissions";
+import {
+  approverRoles,
+  type ApprovalRule,
+  type ApproverRole,
+  type InsertApprovalRule,
+  type UpdateApprovalRule,
+} from "@shared/schema";
+
+const ANY_COST_CENTER = "__any__";
+
+function describeRule(rule: ApprovalRule): string {
+  const conditions = [
+    rule.costCenter && `cost center is ${rule.costCenter}`,
+    rule.minBudget !== null && rule.minBudget !== undefined && `budget is at least ${rule.minBudget.toLocaleString()}`,
+    rule.requiresPartner && "a partner is involved",
+    rule.requiresThirdParty && "a 3rd party is involved",
+  ].filter(Boolean);
+  return conditions.length > 0 ? `When ${conditions.join(" and ")}` : "Every campaign";
+}
+
+export default function AdminApprovalRulesPage() {
+  const [name, setName] = useState("");
+  const [approverRole, setApproverRole] = useState<ApproverRole>("approver");
+  const [costCenter, setCostCenter] = useState(ANY_COST_CENTER);
+  const [minBudget, setMinBudget] = useState("");
+  const [requiresPartner, setRequiresPartner] = useState(false);
+  const [requiresThirdParty, setRequiresThirdParty] = useState(false);
+
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: rules = [], isLoading } = useQuery<ApprovalRule[]>({
+    queryKey: ['/api/admin/approval-rules'],
+  });
+
+  const { data: taxonomy = emptyTaxonomy } = useQuery<CampaignTaxonomy>({
+    queryKey: ['/api/taxonomy'],
+  });
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || "Failed to save approval rule",
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (rule: InsertApprovalRule) => {
+      const response = await apiRequest('POST', '/api/admin/approval-rules', rule);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/approval-rules'] });
+      setName("");
+      setCostCenter(ANY_COST_CENTER);
+      setMinBudget("");
+      setRequiresPartner(false);
+      setRequiresThirdParty(false);
+      toast({ title: "Approval rule created" });
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, ...rule }: UpdateApprovalRule & { id: string }) => {
+      const response = await apiRequest('PATCH', `/api/admin/approval-rules/${id}`, rule);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/approval-rules'] });
+    },
+    onError,
+  });
+
+  const handleCreate = () => {
+    createMutation.mutate({
+      name: name.trim(),
+      approverRole,
+      costCenter: costCenter === ANY_COST_CENTER ? null : costCenter,
+      minBudget: minBudget ? Number(minBudget) : null,
+      requiresPartner,
+      requiresThirdParty,
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold text-foreground">Approval Rules</h1>
+        <p className="text-muted-foreground">
+          Campaigns matching a rule must be approved before they can be activated or scheduled
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+        <Card className="xl:col-span-2">
+          <CardHeader>
+            <CardTitle className="text-lg">Rules</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {isLoading ? (
+              <p className="text-muted-foreground">Loading rules...</p>
+            ) : rules.length === 0 ? (
+              <p className="text-muted-foreground">No rules yet. Campaigns go live without approval.</p>
+            ) : (
+              rules.map((rule) => (
+                <div key={rule.id} className="flex items-start gap-3 border-b pb-2" data-testid={`approval-rule-${rule.id}`}>
+                  <div className="flex-1">
+                    <div className="flex items-center gap-2">
+                      <span className={rule.isActive === false ? "text-muted-foreground line-through" : "font-medium text-foreground"}>
+                        {rule.name}
+                      </span>
+                      <Badge variant="secondary">{roleLabels[rule.approverRole as ApproverRole] ?? rule.approverRole}</Badge>
+                      {rule.isActive === false && <Badge variant="outline">Retired</Badge>}
+                    </div>
+                    <div className="text-sm text-muted-foreground">{describeRule(rule)}</div>
+                  </div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => updateMutation.mutate({ id: rule.id, isActive: rule.isActive === false })}
+                    title={rule.isActive === false ? "Restore" : "Retire"}
+                  >
+                    {rule.isActive === false ? <RotateCcw className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+                  </Button>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">New Rule</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="rule-name">Name</Label>
+              <Input id="rule-name" value={name} onChange={(e) => setName(e.target.value)} data-testid="input-rule-name" />
+            </div>
+            <div className="space-y-2">
+              <Label>Approved By</Label>
+              <Select value={approverRole} onValueChange={(value) => setApproverRole(value as ApproverRole)}>
+                <SelectTrigger data-testid="select-rule-approver">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {approverRoles.map((role) => (
+                    <SelectItem key={role} value={role}>{roleLabels[role]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Cost Center</Label>
+              <Select value={costCenter} onValueChange={setCostCenter}>
+                <SelectTrigger data-testid="select-rule-cost-center">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY_COST_CENTER}>Any cost center</SelectItem>
+                  {optionNames(taxonomy.costCenters).map((option) => (
+                    <SelectItem key={option} value={option}>{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-min-budget">Minimum Budget</Label>
+              <Input
+                id="rule-min-budget"
+                type="number"
+                min={0}
+                value={minBudget}
+                onChange={(e) => setMinBudget(e.target.value)}
+                placeholder="Any budget"
+                data-testid="input-rule-min-budget"
+              />
+            </div>
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={requiresPartner} onChange={(e) => setRequiresPartner(e.target.checked)} />
+              Only when a partner is involved
+            </label>
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={requiresThirdParty} onChange={(e) => setRequiresThirdParty(e.target.checked)} />
+              Only when a 3rd party is involved
+            </label>
+            <Button
+              type="button"
+              className="w-full"
+              onClick={handleCreate}
+              disabled={!name.trim() || createMutation.isPending}
+              data-testid="button-create-rule"
+            >
+              {createMutation.isPending ? "Saving..." : "Add Rule"}
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
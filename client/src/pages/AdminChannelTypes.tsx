@@ -0,0 +1,38 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { TrackingTemplateEditor } from "@/components/TrackingTemplateEditor";
+import type { ChannelType } from "@shared/schema";
+
+export default function AdminChannelTypesPage() {
+  const { data: channelTypes = [], isLoading } = useQuery<ChannelType[]>({
+    queryKey: ['/api/channel-types'],
+  });
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold text-foreground">Tracking URL Templates</h1>
+        <p className="text-muted-foreground">Configure how tracking URLs are built for each channel type</p>
+      </div>
+
+      {isLoading ? (
+        <p className="text-muted-foreground">Loading channel types...</p>
+      ) : channelTypes.length === 0 ? (
+        <p className="text-muted-foreground">No channel types have been created yet.</p>
+      ) : (
+        channelTypes.map((channelType) => (
+          <Card key={channelType.id} data-testid={`card-channel-type-${channelType.id}`}>
+            <CardHeader className="flex flex-row items-center gap-3 space-y-0">
+              <CardTitle className="text-lg">{channelType.name}</CardTitle>
+              <Badge variant="secondary">{channelType.prefix}</Badge>
+            </CardHeader>
+            <CardContent>
+              <TrackingTemplateEditor channelType={channelType} />
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </div>
+  );
+}
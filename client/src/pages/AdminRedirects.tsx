@@ -0,0 +1,304 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Play, RefreshCw } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { ApiError, apiRequest } from "@/lib/queryClient";
+import { clickIdParam } from "@shared/clicks";
+import type { AttributionSettings, ClickRollupRun } from "@shared/schema";
+
+interface RedirectFallback {
+  // Saved setting, empty when unset
+  url: string;
+  // Where visitors actually go, after the server default
+  effectiveUrl: string;
+}
+
+interface AttributionSettingsResponse extends AttributionSettings {
+  // Raw clicks are not kept any longer than this
+  maxLookbackDays: number;
+  // Whether CONVERSION_API_KEY is set for server-to-server reports
+  apiConfigured: boolean;
+}
+
+// Conversions are reported by API or pixel and credited to the clicks that
+// led to them within the lookback window
+function ConversionAttributionCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [lookbackDays, setLookbackDays] = useState("");
+
+  const { data } = useQuery<AttributionSettingsResponse>({
+    queryKey: ['/api/settings/attribution'],
+  });
+
+  useEffect(() => {
+    if (data) setLookbackDays(String(data.lookbackDays));
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (days: number) => {
+      const response = await apiRequest('PUT', '/api/settings/attribution', { lookbackDays: days });
+      return response.json() as Promise<AttributionSettingsResponse>;
+    },
+    onSuccess: (saved) => {
+      queryClient.setQueryData(['/api/settings/attribution'], saved);
+      // Only conversions reported from now on use the new window
+      toast({ title: "Lookback window saved" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error instanceof ApiError ? error.body?.error ?? error.message : error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <CardTitle className="text-lg">Conversion Attribution</CardTitle>
+        {data && (
+          <Badge variant={data.apiConfigured ? "secondary" : "outline"} data-testid="badge-conversion-api">
+            {data.apiConfigured ? "API key set" : "API key not set"}
+          </Badge>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-sm text-muted-foreground">
+          Campaign links pass a <span className="font-mono">{clickIdParam}</span> parameter to the landing page. Report
+          conversions with it, or with the campaign's tracking code, by POST to{" "}
+          <span className="font-mono">/api/conversions</span> with the API key as a bearer token, or from the browser
+          with an image pointing at <span className="font-mono">/api/conversions/pixel.gif</span>. Either way an
+          idempotency key is required, so a conversion reported twice is only counted once.
+        </p>
+        <p className="text-sm text-muted-foreground">
+          A visitor's earlier clicks are linked by a cookie the campaign link sets. Where the browser blocks it, only
+          the reported click or campaign is credited, so first-click and linear attribution match last-click.
+        </p>
+        <div className="space-y-2">
+          <Label htmlFor="lookback-days">Lookback window (days)</Label>
+          <Input
+            id="lookback-days"
+            type="number"
+            min={1}
+            max={data?.maxLookbackDays}
+            value={lookbackDays}
+            onChange={(e) => setLookbackDays(e.target.value)}
+            className="w-32"
+            data-testid="input-lookback-days"
+          />
+          {data && (
+            <p className="text-sm text-muted-foreground">
+              Clicks up to this long before a conversion are credited, at most {data.maxLookbackDays} days while raw
+              clicks are kept.
+            </p>
+          )}
+        </div>
+        <Button
+          type="button"
+          onClick={() => saveMutation.mutate(Number(lookbackDays))}
+          disabled={saveMutation.isPending || !lookbackDays}
+          data-testid="button-save-lookback"
+        >
+          {saveMutation.isPending ? "Saving..." : "Save"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+// Hourly and daily click totals are rolled up in the background; recomputing
+// a range rebuilds those days from the raw clicks that are still kept
+function ClickRollupsCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  const { data: runs = [], isLoading } = useQuery<ClickRollupRun[]>({
+    queryKey: ['/api/admin/click-rollups/runs'],
+  });
+
+  const runMutation = useMutation({
+    mutationFn: async (range?: { from: string; to: string }) => {
+      const response = await apiRequest('POST', '/api/admin/click-rollups/run', range);
+      return response.json() as Promise<ClickRollupRun>;
+    },
+    onSuccess: (run) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/click-rollups/runs'] });
+      toast({
+        title: "Click rollups complete",
+        description: `${run.hourlyRows ?? 0} hourly and ${run.dailyRows ?? 0} daily rows.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error instanceof ApiError ? error.body?.error ?? error.message : error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <CardTitle className="text-lg">Click Rollups</CardTitle>
+        <Button
+          type="button"
+          size="sm"
+          onClick={() => runMutation.mutate(undefined)}
+          disabled={runMutation.isPending}
+          data-testid="button-run-click-rollups"
+        >
+          <Play className="h-4 w-4 mr-2" />
+          Run Now
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Clicks are totalled per hour and per day for analytics. Raw clicks are deleted once they pass the retention
+          period, after which their days can no longer be recomputed.
+        </p>
+
+        <div className="flex flex-col md:flex-row md:items-end gap-3">
+          <div className="space-y-2">
+            <Label htmlFor="rollup-from">From</Label>
+            <Input id="rollup-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="rollup-to">To</Label>
+            <Input id="rollup-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => runMutation.mutate({ from, to })}
+            disabled={!from || !to || runMutation.isPending}
+            data-testid="button-recompute-click-rollups"
+          >
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Recompute Range
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <p className="text-muted-foreground">Loading runs...</p>
+        ) : runs.length === 0 ? (
+          <p className="text-muted-foreground">Click rollups have not run yet.</p>
+        ) : (
+          <div className="space-y-3">
+            {runs.slice(0, 10).map((run) => (
+              <div key={run.id} className="border-b pb-2" data-testid={`click-rollup-run-${run.id}`}>
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-foreground">
+                    {run.startedAt ? format(new Date(run.startedAt), "PPp") : "—"}
+                  </span>
+                  <Badge variant="outline">{run.trigger}</Badge>
+                  {!run.finishedAt && <Badge variant="secondary">Running</Badge>}
+                  {(run.errors?.length ?? 0) > 0 && <Badge variant="destructive">Failed</Badge>}
+                </div>
+                <div className="text-sm text-muted-foreground">
+                  {format(new Date(run.fromTime), "PPp")} to {format(new Date(run.toTime), "PPp")}: {run.hourlyRows ?? 0}{" "}
+                  hourly, {run.dailyRows ?? 0} daily, purged {run.purgedEvents ?? 0} clicks
+                </div>
+                {run.errors?.map((error, index) => (
+                  <div key={index} className="text-sm text-destructive">{error}</div>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function AdminRedirectsPage() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [url, setUrl] = useState("");
+
+  const { data } = useQuery<RedirectFallback>({
+    queryKey: ['/api/settings/redirect-fallback'],
+  });
+
+  useEffect(() => {
+    if (data) setUrl(data.url);
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (fallbackUrl: string) => {
+      const response = await apiRequest('PUT', '/api/settings/redirect-fallback', { url: fallbackUrl });
+      return response.json() as Promise<RedirectFallback>;
+    },
+    onSuccess: (saved) => {
+      queryClient.setQueryData(['/api/settings/redirect-fallback'], saved);
+      toast({ title: "Fallback saved" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error instanceof ApiError ? error.body?.error ?? error.message : error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-6 max-w-3xl">
+      <div>
+        <h1 className="text-2xl font-semibold text-foreground">Click Redirects</h1>
+        <p className="text-muted-foreground">
+          Campaign links go through /r/&lt;tracking code&gt; or a short link, which counts the click before redirecting
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Fallback URL</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <p className="text-sm text-muted-foreground">
+            Visitors following the link of a paused or archived campaign are sent here instead. Leave empty to use
+            the server default.
+          </p>
+          <div className="space-y-2">
+            <Label htmlFor="fallback-url">URL</Label>
+            <Input
+              id="fallback-url"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="https://www.example.com/offers"
+              data-testid="input-fallback-url"
+            />
+          </div>
+          {data && (
+            <p className="text-sm text-muted-foreground">
+              Currently redirecting to <span className="font-mono">{data.effectiveUrl}</span>
+            </p>
+          )}
+          <Button
+            type="button"
+            onClick={() => saveMutation.mutate(url.trim())}
+            disabled={saveMutation.isPending}
+            data-testid="button-save-fallback"
+          >
+            {saveMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <ClickRollupsCard />
+
+      <ConversionAttributionCard />
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Play } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { SchedulerRun } from "@shared/schema";
+
+export default function AdminSchedulerPage() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: runs = [], isLoading } = useQuery<SchedulerRun[]>({
+    queryKey: ['/api/admin/scheduler/runs'],
+  });
+
+  const runMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/admin/scheduler/run');
+      return response.json() as Promise<SchedulerRun>;
+    },
+    onSuccess: (run) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/scheduler/runs'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/placements'] });
+      toast({
+        title: "Scheduler run complete",
+        description: `Activated ${run.activatedCount ?? 0}, expired ${run.expiredCount ?? 0}.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to run scheduler",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold text-foreground">Campaign Scheduler</h1>
+          <p className="text-muted-foreground">
+            Activates scheduled campaigns on their start date and archives campaigns after their end date
+          </p>
+        </div>
+        <Button
+          type="button"
+          onClick={() => runMutation.mutate()}
+          disabled={runMutation.isPending}
+          data-testid="button-run-scheduler"
+        >
+          <Play className="h-4 w-4 mr-2" />
+          {runMutation.isPending ? "Running..." : "Run Now"}
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Recent Runs</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-muted-foreground">Loading runs...</p>
+          ) : runs.length === 0 ? (
+            <p className="text-muted-foreground">The scheduler has not run yet.</p>
+          ) : (
+            <div className="space-y-3">
+              {runs.map((run) => (
+                <div key={run.id} className="border-b pb-2" data-testid={`scheduler-run-${run.id}`}>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-foreground">
+                      {run.startedAt ? format(new Date(run.startedAt), "PPp") : "—"}
+                    </span>
+                    <Badge variant="outline">{run.trigger}</Badge>
+                    {!run.finishedAt && <Badge variant="secondary">Running</Badge>}
+                    {(run.errors?.length ?? 0) > 0 && (
+                      <Badge variant="destructive">{run.errors!.length} failed</Badge>
+                    )}
+                  </div>
+                  <div className="text-sm text-muted-foreground">
+                    Activated {run.activatedCount ?? 0}, expired {run.expiredCount ?? 0}
+                  </div>
+                  {run.errors?.map((error, index) => (
+                    <div key={index} className="text-sm text-destructive">{error}</div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
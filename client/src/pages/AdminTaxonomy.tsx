@@ -0,0 +1,275 @@
+import { useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { TaxonomyNodeRow, type TaxonomyNodeWithChildren, type ParentOption } from "@/components/TaxonomyNodeRow";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  taxonomyParentKinds,
+  type InsertTaxonomyNode,
+  type TaxonomyKind,
+  type TaxonomyNode,
+  type TaxonomyVersion,
+  type UpdateTaxonomyNode,
+} from "@shared/schema";
+
+// Trees an admin can edit, keyed by their root kind
+const rootKindLabels: Partial<Record<TaxonomyKind, string>> = {
+  campaignType: "Campaign Types → Sources → Ad Types → Details",
+  costCenter: "Cost Centers → Sub Ledgers",
+  brand: "Brands",
+  productCategory: "Product Categories",
+  productBrand: "Product Brands",
+  industry: "Industries",
+  tactic: "Tactics",
+  campaignOwner: "Campaign Owners",
+};
+
+const childKindOf = (kind: TaxonomyKind): TaxonomyKind | undefined =>
+  (Object.entries(taxonomyParentKinds) as [TaxonomyKind, TaxonomyKind][]).find(([, parent]) => parent === kind)?.[0];
+
+export default function AdminTaxonomyPage() {
+  const [rootKind, setRootKind] = useState<TaxonomyKind>("campaignType");
+  const [newRootName, setNewRootName] = useState("");
+  const [effectiveFrom, setEffectiveFrom] = useState("");
+  const [notes, setNotes] = useState("");
+
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: nodes = [], isLoading } = useQuery<TaxonomyNode[]>({
+    queryKey: ['/api/admin/taxonomy/nodes'],
+  });
+
+  const { data: versions = [] } = useQuery<TaxonomyVersion[]>({
+    queryKey: ['/api/admin/taxonomy/versions'],
+  });
+
+  const nodesById = useMemo(() => new Map(nodes.map((node) => [node.id, node])), [nodes]);
+
+  const tree = useMemo((): TaxonomyNodeWithChildren[] => {
+    const withChildren = new Map<string, TaxonomyNodeWithChildren>(
+      nodes.map((node) => [node.id, { ...node, children: [] }]),
+    );
+    const roots: TaxonomyNodeWithChildren[] = [];
+    Array.from(withChildren.values()).forEach((node) => {
+      const parent = node.parentId ? withChildren.get(node.parentId) : undefined;
+      if (parent) {
+        parent.children.push(node);
+      } else if (!node.parentId && node.kind === rootKind) {
+        roots.push(node);
+      }
+    });
+    return roots;
+  }, [nodes, rootKind]);
+
+  // Full path of a node, e.g. "Social Media / Facebook", used to label move targets
+  const pathOf = (node: TaxonomyNode): string => {
+    const parent = node.parentId ? nodesById.get(node.parentId) : undefined;
+    return parent ? `${pathOf(parent)} / ${node.name}` : node.name;
+  };
+
+  const parentOptions = (kind: TaxonomyKind): ParentOption[] => {
+    const parentKind = taxonomyParentKinds[kind];
+    return nodes
+      .filter((node) => node.kind === parentKind)
+      .map((node) => ({ id: node.id, label: pathOf(node) }))
+      .sort((a, b) => a.label.localeCompare(b.label));
+  };
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || "Failed to update taxonomy",
+      variant: "destructive",
+    });
+  };
+
+  const createNodeMutation = useMutation({
+    mutationFn: async (node: InsertTaxonomyNode) => {
+      const response = await apiRequest('POST', '/api/admin/taxonomy/nodes', node);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/taxonomy/nodes'] });
+    },
+    onError,
+  });
+
+  const updateNodeMutation = useMutation({
+    mutationFn: async ({ id, ...node }: UpdateTaxonomyNode & { id: string }) => {
+      const response = await apiRequest('PATCH', `/api/admin/taxonomy/nodes/${id}`, node);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/taxonomy/nodes'] });
+    },
+    onError,
+  });
+
+  const publishMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/admin/taxonomy/versions', {
+        effectiveFrom: new Date(effectiveFrom),
+        notes: notes || undefined,
+      });
+      return response.json() as Promise<TaxonomyVersion>;
+    },
+    onSuccess: (version) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/taxonomy/versions'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/taxonomy'] });
+      setEffectiveFrom("");
+      setNotes("");
+      toast({
+        title: "Taxonomy published",
+        description: `Version ${version.versionNumber} takes effect ${format(new Date(version.effectiveFrom), "PPp")}.`,
+      });
+    },
+    onError,
+  });
+
+  const handleAddRoot = () => {
+    if (!newRootName.trim()) return;
+    createNodeMutation.mutate({ kind: rootKind, name: newRootName.trim(), parentId: null });
+    setNewRootName("");
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold text-foreground">Campaign Taxonomy</h1>
+        <p className="text-muted-foreground">
+          Edit the options behind the campaign builder, then publish them as a new version
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+        <Card className="xl:col-span-2">
+          <CardHeader className="space-y-4">
+            <CardTitle className="text-lg">Working Copy</CardTitle>
+            <Select value={rootKind} onValueChange={(value) => setRootKind(value as TaxonomyKind)}>
+              <SelectTrigger className="w-96" data-testid="select-taxonomy-tree">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(rootKindLabels).map(([kind, label]) => (
+                  <SelectItem key={kind} value={kind}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex gap-2">
+              <Input
+                value={newRootName}
+                onChange={(e) => setNewRootName(e.target.value)}
+                placeholder={`New ${rootKind}`}
+                className="w-64"
+                data-testid="input-new-root-node"
+              />
+              <Button type="button" onClick={handleAddRoot} disabled={!newRootName.trim()} data-testid="button-add-root-node">
+                Add
+              </Button>
+            </div>
+
+            {isLoading ? (
+              <p className="text-muted-foreground">Loading taxonomy...</p>
+            ) : tree.length === 0 ? (
+              <p className="text-muted-foreground">No entries yet.</p>
+            ) : (
+              tree.map((node) => (
+                <TaxonomyNodeRow
+                  key={node.id}
+                  node={node}
+                  depth={0}
+                  childKind={childKindOf(rootKind)}
+                  parentOptions={parentOptions}
+                  onRename={(target, name) => updateNodeMutation.mutate({ id: target.id, name })}
+                  onToggleActive={(target) =>
+                    updateNodeMutation.mutate({ id: target.id, isActive: target.isActive === false })
+                  }
+                  onMove={(target, parentId) => updateNodeMutation.mutate({ id: target.id, parentId })}
+                  onAddChild={(parent, name) =>
+                    createNodeMutation.mutate({
+                      kind: childKindOf(parent.kind as TaxonomyKind)!,
+                      name,
+                      parentId: parent.id,
+                    })
+                  }
+                  childKindOf={childKindOf}
+                />
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Versions</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="space-y-3">
+              <div className="space-y-2">
+                <Label htmlFor="effective-from">Effective From</Label>
+                <Input
+                  id="effective-from"
+                  type="datetime-local"
+                  value={effectiveFrom}
+                  onChange={(e) => setEffectiveFrom(e.target.value)}
+                  data-testid="input-effective-from"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="version-notes">Notes</Label>
+                <Textarea
+                  id="version-notes"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  placeholder="What changed in this version"
+                  rows={2}
+                />
+              </div>
+              <Button
+                type="button"
+                className="w-full"
+                onClick={() => publishMutation.mutate()}
+                disabled={!effectiveFrom || publishMutation.isPending}
+                data-testid="button-publish-taxonomy"
+              >
+                {publishMutation.isPending ? "Publishing..." : "Publish Working Copy"}
+              </Button>
+            </div>
+
+            <div className="space-y-3">
+              {versions.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  Nothing published yet. The campaign builder uses the working copy.
+                </p>
+              ) : (
+                versions.map((version) => (
+                  <div key={version.id} className="border-b pb-2" data-testid={`taxonomy-version-${version.versionNumber}`}>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-foreground">Version {version.versionNumber}</span>
+                      {new Date(version.effectiveFrom) > new Date() && <Badge variant="outline">Scheduled</Badge>}
+                    </div>
+                    <div className="text-sm text-muted-foreground">
+                      Effective {format(new Date(version.effectiveFrom), "PPp")}
+                    </div>
+                    {version.notes && <div className="text-sm text-muted-foreground">{version.notes}</div>}
+                  </div>
+                ))
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
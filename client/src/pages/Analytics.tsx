@@ -1,10 +1,59 @@
-import { BarChart3, TrendingUp, Users, ExternalLink } from "lucide-react";
+import { useState } from "react";
+import { Link } from "wouter";
+import { formatDistanceToNow } from "date-fns";
+import { BarChart3, TrendingUp, ExternalLink } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
-import { Button } from "@/components/ui/button";
+import { ExportDialog } from "@/components/ExportDialog";
+import { PerformanceCharts } from "@/components/PerformanceCharts";
+import { useAnalytics } from "@/hooks/useAnalytics";
+import {
+  analyticsRangeLabels,
+  attributionModelLabels,
+  formatActivity,
+  formatPreviousPeriod,
+  percentChange,
+  type AnalyticsActivity,
+  type AnalyticsSegment,
+  type AnalyticsSummary,
+  type MetricComparison,
+} from "@shared/analytics";
+import { analyticsRanges, attributionModels, type AnalyticsRange, type AttributionModel } from "@shared/schema";
+
+const TOP_CHANNELS = 5;
+
+// "+15.2% from the previous 30 days"
+function Delta({ metric, range }: { metric: MetricComparison; range: AnalyticsRange }) {
+  const change = percentChange(metric.value, metric.previous);
+  if (change === null) {
+    return <p className="text-sm text-muted-foreground">Nothing to compare with in the {formatPreviousPeriod(range)}</p>;
+  }
+  const className = change > 0 ? "text-green-600" : change < 0 ? "text-destructive" : "text-muted-foreground";
+  return (
+    <p className={`text-sm ${className}`}>
+      {change > 0 ? "+" : ""}
+      {change.toFixed(1)}% from the {formatPreviousPeriod(range)}
+    </p>
+  );
+}
+
+// Linear attribution splits conversions, so credit can be fractional
+function formatConversions(conversions: number): string {
+  return conversions.toLocaleString(undefined, { maximumFractionDigits: 1 });
+}
 
 export default function AnalyticsPage() {
+  const [range, setRange] = useState<AnalyticsRange>("30d");
+  const [model, setModel] = useState<AttributionModel>("lastClick");
+
+  const { data: summary } = useAnalytics<AnalyticsSummary>('/api/analytics/summary', range, { model });
+  const { data: channels = [], isLoading: channelsLoading } = useAnalytics<AnalyticsSegment[]>('/api/analytics/breakdown', range, {
+    dimension: "channelType",
+    model,
+  });
+  const { data: activity = [], isLoading: activityLoading } = useAnalytics<AnalyticsActivity[]>('/api/analytics/activity', range);
+
   return (
     <div className="space-y-6">
       <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
@@ -13,20 +62,27 @@ export default function AnalyticsPage() {
           <p className="text-muted-foreground">Track performance across all your marketing campaigns</p>
         </div>
         <div className="flex gap-2">
-          <Select defaultValue="30d">
+          <Select value={range} onValueChange={(value) => setRange(value as AnalyticsRange)}>
             <SelectTrigger className="w-32" data-testid="select-analytics-range">
               <SelectValue />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="7d">Last 7 days</SelectItem>
-              <SelectItem value="30d">Last 30 days</SelectItem>
-              <SelectItem value="90d">Last 90 days</SelectItem>
-              <SelectItem value="1y">Last year</SelectItem>
+              {analyticsRanges.map((option) => (
+                <SelectItem key={option} value={option}>{analyticsRangeLabels[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={model} onValueChange={(value) => setModel(value as AttributionModel)}>
+            <SelectTrigger className="w-36" data-testid="select-attribution-model">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {attributionModels.map((option) => (
+                <SelectItem key={option} value={option}>{attributionModelLabels[option]}</SelectItem>
+              ))}
             </SelectContent>
           </Select>
-          <Button variant="outline" data-testid="button-export">
-            Export Data
-          </Button>
+          <ExportDialog label="Export Data" />
         </div>
       </div>
 
@@ -37,8 +93,10 @@ export default function AnalyticsPage() {
             <ExternalLink className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold text-foreground">12,847</div>
-            <p className="text-sm text-green-600">+15.2% from last month</p>
+            <div className="text-2xl font-bold text-foreground">
+              {summary ? (summary.totalClicks.value ?? 0).toLocaleString() : "—"}
+            </div>
+            {summary && <Delta metric={summary.totalClicks} range={range} />}
           </CardContent>
         </Card>
 
@@ -48,8 +106,20 @@ export default function AnalyticsPage() {
             <TrendingUp className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold text-foreground">4.2%</div>
-            <p className="text-sm text-green-600">+0.8% from last month</p>
+            <div className="text-2xl font-bold text-foreground">
+              {summary?.conversionRate.value != null ? `${summary.conversionRate.value.toFixed(1)}%` : "—"}
+            </div>
+            {summary &&
+              (summary.conversionRate.value === null ? (
+                <p className="text-sm text-muted-foreground">No clicks to convert in this period</p>
+              ) : (
+                <>
+                  <p className="text-sm text-muted-foreground">
+                    {formatConversions(summary.conversions.value ?? 0)} conversions, {attributionModelLabels[model].toLowerCase()}
+                  </p>
+                  <Delta metric={summary.conversionRate} range={range} />
+                </>
+              ))}
           </CardContent>
         </Card>
 
@@ -59,8 +129,15 @@ export default function AnalyticsPage() {
             <BarChart3 className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold text-foreground">24</div>
-            <p className="text-sm text-green-600">+3 new this month</p>
+            <div className="text-2xl font-bold text-foreground">
+              {summary ? summary.activeCampaigns.value.toLocaleString() : "—"}
+            </div>
+            {summary && (
+              <p className="text-sm text-muted-foreground">
+                {summary.activeCampaigns.started} went live in this period, {summary.activeCampaigns.previousStarted} in
+                the {formatPreviousPeriod(range)}
+              </p>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -71,22 +148,37 @@ export default function AnalyticsPage() {
             <CardTitle className="text-lg">Top Performing Channels</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="space-y-4">
-              {[
-                { name: "Social Media", clicks: 4250, rate: "5.2%" },
-                { name: "Email Campaign", clicks: 3100, rate: "4.8%" },
-                { name: "Google Ads", clicks: 2890, rate: "3.9%" },
-                { name: "LinkedIn Ads", clicks: 1650, rate: "3.2%" },
-              ].map((channel, index) => (
-                <div key={index} className="flex items-center justify-between" data-testid={`channel-${index}`}>
-                  <div>
-                    <div className="font-medium text-foreground">{channel.name}</div>
-                    <div className="text-sm text-muted-foreground">{channel.clicks.toLocaleString()} clicks</div>
+            {channelsLoading ? (
+              <p className="text-muted-foreground">Loading channels...</p>
+            ) : channels.length === 0 ? (
+              <p className="text-muted-foreground">No clicks in this period.</p>
+            ) : (
+              <div className="space-y-4">
+                {channels.slice(0, TOP_CHANNELS).map((channel, index) => (
+                  <div key={channel.key ?? "none"} className="flex items-center justify-between" data-testid={`channel-${index}`}>
+                    <div className="flex items-start gap-2">
+                      <span
+                        className="w-2 h-2 rounded-full mt-2 flex-shrink-0 bg-muted-foreground"
+                        style={channel.color ? { backgroundColor: channel.color } : undefined}
+                      />
+                      <div>
+                        <div className="font-medium text-foreground">{channel.label}</div>
+                        <div className="text-sm text-muted-foreground">
+                          {channel.clicks.toLocaleString()} clicks, {formatConversions(channel.conversions)} conversions
+                        </div>
+                        <Delta metric={{ value: channel.clicks, previous: channel.previousClicks }} range={range} />
+                      </div>
+                    </div>
+                    <div className="flex flex-col items-end gap-1">
+                      <Badge variant="secondary">{channel.share.toFixed(1)}% of clicks</Badge>
+                      {channel.conversionRate !== null && (
+                        <span className="text-xs text-muted-foreground">{channel.conversionRate.toFixed(1)}% converted</span>
+                      )}
+                    </div>
                   </div>
-                  <Badge variant="secondary">{channel.rate} CTR</Badge>
-                </div>
-              ))}
-            </div>
+                ))}
+              </div>
+            )}
           </CardContent>
         </Card>
 
@@ -95,39 +187,40 @@ export default function AnalyticsPage() {
             <CardTitle className="text-lg">Recent Activity</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="space-y-4">
-              {[
-                { action: "Campaign Created", item: "Summer Product Launch", time: "2 hours ago" },
-                { action: "High Traffic Alert", item: "Email Newsletter Signup", time: "4 hours ago" },
-                { action: "Campaign Updated", item: "Google Ads - Retargeting", time: "6 hours ago" },
-                { action: "New Channel Added", item: "TikTok Ads", time: "1 day ago" },
-              ].map((activity, index) => (
-                <div key={index} className="flex items-start gap-3" data-testid={`activity-${index}`}>
-                  <div className="w-2 h-2 bg-primary rounded-full mt-2 flex-shrink-0" />
-                  <div className="flex-1">
-                    <div className="font-medium text-foreground">{activity.action}</div>
-                    <div className="text-sm text-muted-foreground">{activity.item}</div>
-                    <div className="text-xs text-muted-foreground">{activity.time}</div>
+            {activityLoading ? (
+              <p className="text-muted-foreground">Loading activity...</p>
+            ) : activity.length === 0 ? (
+              <p className="text-muted-foreground">No activity in this period.</p>
+            ) : (
+              <div className="space-y-4">
+                {activity.map((entry, index) => (
+                  <div key={entry.id} className="flex items-start gap-3" data-testid={`activity-${index}`}>
+                    <div className="w-2 h-2 bg-primary rounded-full mt-2 flex-shrink-0" />
+                    <div className="flex-1">
+                      <div className="font-medium text-foreground">{formatActivity(entry.entityType, entry.action)}</div>
+                      <div className="text-sm text-muted-foreground">
+                        {entry.entityType === "placement" && entry.entityName ? (
+                          <Link href={`/campaigns/${entry.entityId}`} className="hover:underline">
+                            {entry.entityName}
+                          </Link>
+                        ) : (
+                          entry.entityName ?? "Deleted"
+                        )}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {entry.createdAt && formatDistanceToNow(new Date(entry.createdAt), { addSuffix: true })}
+                        {entry.actorName && ` by ${entry.actorName}`}
+                      </div>
+                    </div>
                   </div>
-                </div>
-              ))}
-            </div>
+                ))}
+              </div>
+            )}
           </CardContent>
         </Card>
       </div>
 
-      <Card>
-        <CardHeader>
-          <CardTitle className="text-lg">Performance Chart</CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="text-center py-16 text-muted-foreground">
-            <BarChart3 className="h-16 w-16 mx-auto mb-4 opacity-50" />
-            <h3 className="text-lg font-medium mb-2">Charts Coming Soon</h3>
-            <p>Interactive analytics charts will be integrated in the full application</p>
-          </div>
-        </CardContent>
-      </Card>
+      <PerformanceCharts range={range} model={model} />
     </div>
   );
 }
\ No newline at end of file
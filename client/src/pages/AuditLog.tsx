@@ -0,0 +1,145 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AuditChanges } from "@/components/AuditChanges";
+import { actorLabel } from "@/components/AuditHistory";
+import { apiRequest } from "@/lib/queryClient";
+import { auditEntityLabels, creationActions, type AuditEntryWithActor } from "@shared/audit";
+import { auditEntityTypes, type AuditEntityType } from "@shared/schema";
+
+const PAGE_SIZE = 100;
+const ALL_ENTITIES = "__all__";
+
+export default function AuditLogPage() {
+  const [entityType, setEntityType] = useState(ALL_ENTITIES);
+  const [actor, setActor] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  const filters = { entityType, actor: actor.trim(), from, to };
+
+  const { data, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: ['/api/audit', filters],
+    initialPageParam: undefined as { before: string; beforeId: string } | undefined,
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+      if (filters.entityType !== ALL_ENTITIES) params.set("entityType", filters.entityType);
+      if (filters.actor) params.set("actor", filters.actor);
+      // Date inputs are local days; "to" includes the whole day
+      if (filters.from) params.set("from", new Date(`${filters.from}T00:00:00`).toISOString());
+      if (filters.to) params.set("to", new Date(`${filters.to}T23:59:59.999`).toISOString());
+      if (pageParam) {
+        params.set("before", pageParam.before);
+        params.set("beforeId", pageParam.beforeId);
+      }
+      const response = await apiRequest('GET', `/api/audit?${params}`);
+      return response.json() as Promise<AuditEntryWithActor[]>;
+    },
+    getNextPageParam: (lastPage) => {
+      const last = lastPage[lastPage.length - 1];
+      return lastPage.length === PAGE_SIZE && last?.createdAt
+        ? { before: new Date(last.createdAt).toISOString(), beforeId: last.id }
+        : undefined;
+    },
+  });
+
+  const entries = data?.pages.flat() ?? [];
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold text-foreground">Audit Log</h1>
+        <p className="text-muted-foreground">Every change to campaigns and reference data, with who made it</p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="space-y-2">
+          <Label>Entity</Label>
+          <Select value={entityType} onValueChange={setEntityType}>
+            <SelectTrigger data-testid="select-audit-entity">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_ENTITIES}>All entities</SelectItem>
+              {auditEntityTypes.map((type) => (
+                <SelectItem key={type} value={type}>{auditEntityLabels[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="audit-actor">User</Label>
+          <Input
+            id="audit-actor"
+            value={actor}
+            onChange={(e) => setActor(e.target.value)}
+            placeholder="Email or user id"
+            data-testid="input-audit-actor"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="audit-from">From</Label>
+          <Input id="audit-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="audit-to">To</Label>
+          <Input id="audit-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+        </div>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          {isLoading ? (
+            <p className="text-muted-foreground">Loading audit log...</p>
+          ) : entries.length === 0 ? (
+            <p className="text-muted-foreground">No changes match these filters.</p>
+          ) : (
+            <div className="space-y-4">
+              {entries.map((entry) => (
+                <div key={entry.id} className="space-y-1 border-b pb-3" data-testid={`audit-entry-${entry.id}`}>
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <Badge variant="secondary">
+                      {auditEntityLabels[entry.entityType as AuditEntityType] ?? entry.entityType}
+                    </Badge>
+                    <Badge variant="outline">{entry.action}</Badge>
+                    {entry.entityType === "placement" ? (
+                      <Link href={`/campaigns/${entry.entityId}`} className="font-mono text-primary hover:underline">
+                        {entry.entityId}
+                      </Link>
+                    ) : (
+                      <span className="font-mono text-foreground">{entry.entityId}</span>
+                    )}
+                    <span className="text-muted-foreground">
+                      by {actorLabel(entry)}
+                      {entry.createdAt && ` · ${format(new Date(entry.createdAt), "PPp")}`}
+                    </span>
+                  </div>
+                  <AuditChanges changes={entry.changes} created={creationActions.includes(entry.action)} />
+                </div>
+              ))}
+            </div>
+          )}
+          {hasNextPage && (
+            <Button
+              type="button"
+              variant="outline"
+              className="mt-4"
+              onClick={() => fetchNextPage()}
+              disabled={isFetchingNextPage}
+              data-testid="button-load-older"
+            >
+              {isFetchingNextPage ? "Loading..." : "Load Older"}
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,356 @@
+import { useState } from "react";
+import { Link, useSearch } from "wouter";
+import { useInfiniteQuery, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ArrowDown, ArrowUp, Search, Upload, X } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { PlacementStatusBadge } from "@/components/PlacementStatusBadge";
+import { ExportDialog } from "@/components/ExportDialog";
+import { useAuth } from "@/hooks/useAuth";
+import { useDebounced } from "@/hooks/useDebounced";
+import { apiRequest } from "@/lib/queryClient";
+import { placementStatusLabels } from "@shared/lifecycle";
+import { toPlacementQueryString, type PlacementPage } from "@shared/placementQuery";
+import { hasPermission } from "@shared/permissions";
+import { emptyTaxonomy, optionNames, type CampaignTaxonomy } from "@shared/taxonomy";
+import {
+  placementStatuses,
+  type Category,
+  type ChannelType,
+  type PlacementSort,
+  type PlacementSortField,
+} from "@shared/schema";
+
+const PAGE_SIZE = 50;
+const ANY = "__any__";
+
+const columns: { field: PlacementSortField; label: string }[] = [
+  { field: "title", label: "Title" },
+  { field: "trackingCode", label: "Tracking Code" },
+  { field: "status", label: "Status" },
+  { field: "campaignOwner", label: "Owner" },
+  { field: "startDate", label: "Start" },
+  { field: "endDate", label: "End" },
+  { field: "costCenter", label: "Cost Center" },
+  { field: "createdAt", label: "Created" },
+];
+
+const formatDate = (value: Date | string | null) => (value ? format(new Date(value), "PP") : "—");
+
+// Filters with no control of their own, only set through the URL, e.g. by a
+// drill-down from the Analytics charts
+const linkedFilters = [
+  { key: "campaignSource", label: "Source" },
+  { key: "tactic", label: "Tactic" },
+  { key: "industry", label: "Industry" },
+] as const;
+
+type LinkedFilter = (typeof linkedFilters)[number]["key"];
+
+export default function CampaignCenterPage() {
+  const { user } = useAuth();
+  // Filters can be preset through the URL: /campaigns?channelTypeId=...&from=2024-05-01
+  const params = new URLSearchParams(useSearch());
+  const [search, setSearch] = useState("");
+  const [statuses, setStatuses] = useState<string[]>([]);
+  const [owner, setOwner] = useState("");
+  const [channelTypeId, setChannelTypeId] = useState(params.get("channelTypeId") ?? ANY);
+  const [categoryId, setCategoryId] = useState(ANY);
+  const [brand, setBrand] = useState(params.get("brand") ?? "");
+  const [costCenter, setCostCenter] = useState(ANY);
+  const [partner, setPartner] = useState("");
+  const [from, setFrom] = useState(params.get("from") ?? "");
+  const [to, setTo] = useState(params.get("to") ?? "");
+  const [linked, setLinked] = useState<Partial<Record<LinkedFilter, string>>>(() =>
+    Object.fromEntries(linkedFilters.flatMap(({ key }) => (params.get(key) ? [[key, params.get(key)!]] : []))),
+  );
+  const [sort, setSort] = useState<PlacementSort[]>([{ field: "createdAt", direction: "desc" }]);
+
+  const q = useDebounced(search.trim());
+  const ownerFilter = useDebounced(owner.trim());
+  const brandFilter = useDebounced(brand.trim());
+  const partnerFilter = useDebounced(partner.trim());
+
+  const { data: channelTypes = [] } = useQuery<ChannelType[]>({ queryKey: ['/api/channel-types'] });
+  const { data: categories = [] } = useQuery<Category[]>({ queryKey: ['/api/categories'] });
+  const { data: taxonomy = emptyTaxonomy } = useQuery<CampaignTaxonomy>({ queryKey: ['/api/taxonomy'] });
+
+  const filters = {
+    q,
+    owner: ownerFilter,
+    brand: brandFilter,
+    partner: partnerFilter,
+    status: statuses,
+    channelTypeId: channelTypeId === ANY ? undefined : [channelTypeId],
+    categoryId: categoryId === ANY ? undefined : [categoryId],
+    costCenter: costCenter === ANY ? undefined : [costCenter],
+    campaignSource: linked.campaignSource ? [linked.campaignSource] : undefined,
+    tactic: linked.tactic ? [linked.tactic] : undefined,
+    industry: linked.industry ? [linked.industry] : undefined,
+    // Date inputs are local days; "to" includes the whole day
+    from: from ? new Date(`${from}T00:00:00`) : undefined,
+    to: to ? new Date(`${to}T23:59:59.999`) : undefined,
+    sort: sort.map(({ field, direction }) => `${field}:${direction}`).join(","),
+  };
+  const query = { ...filters, limit: PAGE_SIZE };
+
+  const { data, isLoading, error, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: ['/api/placements', 'query', query],
+    initialPageParam: undefined as string | undefined,
+    queryFn: async ({ pageParam }) => {
+      const response = await apiRequest('GET', `/api/placements/query?${toPlacementQueryString({ ...query, cursor: pageParam })}`);
+      return response.json() as Promise<PlacementPage>;
+    },
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+  });
+
+  const placements = data?.pages.flatMap((page) => page.items) ?? [];
+  const total = data?.pages[0]?.total ?? 0;
+
+  const toggleStatus = (status: string) => {
+    setStatuses((current) => (current.includes(status) ? current.filter((s) => s !== status) : [...current, status]));
+  };
+
+  // Click sorts by a single column, shift-click adds it as a further sort key.
+  // Clicking a column that is already sorted flips its direction.
+  const handleSort = (field: PlacementSortField, additive: boolean) => {
+    setSort((current) => {
+      const existing = current.find((spec) => spec.field === field);
+      const next: PlacementSort = {
+        field,
+        direction: existing ? (existing.direction === "asc" ? "desc" : "asc") : "asc",
+      };
+      if (!additive) return [next];
+      return existing ? current.map((spec) => (spec.field === field ? next : spec)) : [...current, next];
+    });
+  };
+
+  const clearFilters = () => {
+    setSearch("");
+    setStatuses([]);
+    setOwner("");
+    setChannelTypeId(ANY);
+    setCategoryId(ANY);
+    setBrand("");
+    setCostCenter(ANY);
+    setPartner("");
+    setFrom("");
+    setTo("");
+    setLinked({});
+  };
+
+  const removeLinkedFilter = (key: LinkedFilter) => {
+    setLinked(({ [key]: _removed, ...rest }) => rest);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold text-foreground">Campaign Center</h1>
+          <p className="text-muted-foreground">Find, filter and sort every campaign</p>
+        </div>
+        <div className="flex gap-2">
+          {hasPermission(user?.permissions, "campaigns:edit") && (
+            <Button asChild variant="outline">
+              <Link href="/import" data-testid="link-import">
+                <Upload className="h-4 w-4 mr-2" />
+                Import
+              </Link>
+            </Button>
+          )}
+          <ExportDialog filters={filters} />
+        </div>
+      </div>
+
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search title, notes or tracking code"
+          className="pl-9"
+          data-testid="input-campaign-search"
+        />
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {placementStatuses.map((status) => (
+          <Button
+            key={status}
+            type="button"
+            size="sm"
+            variant={statuses.includes(status) ? "default" : "outline"}
+            onClick={() => toggleStatus(status)}
+            data-testid={`filter-status-${status}`}
+          >
+            {placementStatusLabels[status]}
+          </Button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 xl:grid-cols-5 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="filter-owner">Owner</Label>
+          <Input id="filter-owner" value={owner} onChange={(e) => setOwner(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label>Channel Type</Label>
+          <Select value={channelTypeId} onValueChange={setChannelTypeId}>
+            <SelectTrigger data-testid="filter-channel-type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any channel type</SelectItem>
+              {channelTypes.map((channelType) => (
+                <SelectItem key={channelType.id} value={channelType.id}>{channelType.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Category</Label>
+          <Select value={categoryId} onValueChange={setCategoryId}>
+            <SelectTrigger data-testid="filter-category">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any category</SelectItem>
+              {categories.map((category) => (
+                <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Cost Center</Label>
+          <Select value={costCenter} onValueChange={setCostCenter}>
+            <SelectTrigger data-testid="filter-cost-center">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any cost center</SelectItem>
+              {optionNames(taxonomy.costCenters).map((option) => (
+                <SelectItem key={option} value={option}>{option}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="filter-brand">Brand</Label>
+          <Input id="filter-brand" value={brand} onChange={(e) => setBrand(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="filter-partner">Partner</Label>
+          <Input id="filter-partner" value={partner} onChange={(e) => setPartner(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="filter-from">Running From</Label>
+          <Input id="filter-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="filter-to">Running To</Label>
+          <Input id="filter-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+        </div>
+        <div className="flex items-end">
+          <Button type="button" variant="ghost" onClick={clearFilters} data-testid="button-clear-filters">
+            Clear Filters
+          </Button>
+        </div>
+      </div>
+
+      {linkedFilters.some(({ key }) => linked[key]) && (
+        <div className="flex flex-wrap gap-2">
+          {linkedFilters.map(({ key, label }) =>
+            linked[key] ? (
+              <Badge key={key} variant="secondary" className="gap-1" data-testid={`filter-linked-${key}`}>
+                {label}: {linked[key]}
+                <button type="button" onClick={() => removeLinkedFilter(key)} title={`Remove ${label.toLowerCase()} filter`}>
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ) : null,
+          )}
+        </div>
+      )}
+
+      <Card>
+        <CardContent className="pt-6 space-y-4">
+          <div className="text-sm text-muted-foreground">
+            {isLoading ? "Loading campaigns..." : `${total.toLocaleString()} campaigns`}
+          </div>
+
+          {error ? (
+            <p className="text-destructive">{(error as Error).message}</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-muted-foreground border-b">
+                    {columns.map(({ field, label }) => {
+                      const index = sort.findIndex((spec) => spec.field === field);
+                      const spec = sort[index];
+                      return (
+                        <th key={field} className="py-2 pr-4 font-medium">
+                          <button
+                            type="button"
+                            className="inline-flex items-center gap-1 hover:text-foreground"
+                            onClick={(e) => handleSort(field, e.shiftKey)}
+                            title="Click to sort, shift-click to add a sort key"
+                            data-testid={`sort-${field}`}
+                          >
+                            {label}
+                            {spec && (spec.direction === "asc" ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />)}
+                            {spec && sort.length > 1 && <span className="text-xs">{index + 1}</span>}
+                          </button>
+                        </th>
+                      );
+                    })}
+                  </tr>
+                </thead>
+                <tbody>
+                  {placements.map((placement) => (
+                    <tr key={placement.id} className="border-b" data-testid={`row-campaign-${placement.id}`}>
+                      <td className="py-2 pr-4">
+                        <Link href={`/campaigns/${placement.id}`} className="font-medium text-primary hover:underline">
+                          {placement.title}
+                        </Link>
+                      </td>
+                      <td className="py-2 pr-4 font-mono">{placement.trackingCode}</td>
+                      <td className="py-2 pr-4"><PlacementStatusBadge status={placement.status} /></td>
+                      <td className="py-2 pr-4">{placement.campaignOwner ?? "—"}</td>
+                      <td className="py-2 pr-4">{formatDate(placement.startDate)}</td>
+                      <td className="py-2 pr-4">{formatDate(placement.endDate)}</td>
+                      <td className="py-2 pr-4">{placement.costCenter || "—"}</td>
+                      <td className="py-2 pr-4">{formatDate(placement.createdAt)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {!isLoading && placements.length === 0 && (
+                <p className="py-6 text-center text-muted-foreground">No campaigns match these filters.</p>
+              )}
+            </div>
+          )}
+
+          {hasNextPage && (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => fetchNextPage()}
+              disabled={isFetchingNextPage}
+              data-testid="button-load-more"
+            >
+              {isFetchingNextPage ? "Loading..." : "Load More"}
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+import { Link } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Lock, Pencil, Trash2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { TemplateDialog } from "@/components/TemplateDialog";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { ApiError, apiRequest } from "@/lib/queryClient";
+import { formatAuditField } from "@shared/audit";
+import { hasPermission } from "@shared/permissions";
+import type { CampaignTemplate } from "@shared/schema";
+
+export default function CampaignTemplatesPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: templates = [], isLoading } = useQuery<CampaignTemplate[]>({
+    queryKey: ['/api/templates'],
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest('DELETE', `/api/templates/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/templates'] });
+      toast({ title: "Template deleted" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error instanceof ApiError ? error.body?.error ?? error.message : error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Mirrors the server: owners change their templates, admins can change any
+  const canChange = (template: CampaignTemplate) =>
+    template.ownerId === user?.id || hasPermission(user?.permissions, "settings:manage");
+
+  return (
+    <div className="space-y-6 max-w-5xl">
+      <div>
+        <h1 className="text-2xl font-semibold text-foreground">Campaign Templates</h1>
+        <p className="text-muted-foreground">
+          Your templates and the ones shared with you. Save a new template from any campaign's page.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <p className="text-muted-foreground">Loading templates...</p>
+      ) : templates.length === 0 ? (
+        <p className="text-muted-foreground">No templates yet.</p>
+      ) : (
+        templates.map((template) => (
+          <Card key={template.id} data-testid={`template-${template.id}`}>
+            <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+              <div className="space-y-1">
+                <CardTitle className="text-lg flex items-center gap-2">
+                  {template.name}
+                  {template.isShared && <Badge variant="secondary">Shared</Badge>}
+                  {template.ownerId === user?.id && <Badge variant="outline">Yours</Badge>}
+                </CardTitle>
+                {template.description && <p className="text-sm text-muted-foreground">{template.description}</p>}
+              </div>
+              <div className="flex gap-2">
+                <Button asChild size="sm">
+                  <Link href={`/create?template=${template.id}`}>Use</Link>
+                </Button>
+                {canChange(template) && (
+                  <>
+                    <TemplateDialog
+                      key={String(template.updatedAt)}
+                      template={template}
+                      trigger={
+                        <Button variant="outline" size="sm" title="Edit template">
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                      }
+                    />
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => deleteMutation.mutate(template.id)}
+                      disabled={deleteMutation.isPending}
+                      title="Delete template"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent className="text-sm text-muted-foreground space-y-1">
+              {template.lockedFields.length > 0 && (
+                <div className="flex items-start gap-2">
+                  <Lock className="h-4 w-4 mt-0.5 shrink-0" />
+                  <span>Locks {template.lockedFields.map(formatAuditField).join(", ")}</span>
+                </div>
+              )}
+              {template.updatedAt && <div>Updated {format(new Date(template.updatedAt), "PP")}</div>}
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </div>
+  );
+}
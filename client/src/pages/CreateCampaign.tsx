@@ -1,20 +1,294 @@
-import { CampaignForm } from "@/components/CampaignForm";
+import { useCallback, useEffect, useState } from "react";
+import { Link, useLocation, useSearch } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Lock } from "lucide-react";
+import { CampaignForm, type CampaignFormData } from "@/components/CampaignForm";
+import { VariantPicker } from "@/components/VariantPicker";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useCampaignDraft } from "@/hooks/useCampaignDraft";
 import { useToast } from "@/hooks/use-toast";
+import { ApiError, apiRequest } from "@/lib/queryClient";
+import { formatAuditField } from "@shared/audit";
+import { draftToFormValues } from "@shared/drafts";
+import { duplicatePlacementValues } from "@shared/templates";
+import { variantKey } from "@shared/variants";
+import type { CampaignDraft, CampaignTemplate, MarketingPlacement, VariantCombination } from "@shared/schema";
+import type { FieldErrors } from "@shared/validation";
 
-export default function CreateCampaignPage() {
+const BLANK = "__blank__";
+
+interface CampaignBuilderProps {
+  initialData?: Partial<CampaignFormData>;
+  template?: CampaignTemplate;
+  draft?: CampaignDraft;
+  onDraftCreated: (draft: CampaignDraft) => void;
+}
+
+// The form plus its draft autosave; remounted whenever a different campaign is started
+function CampaignBuilder({ initialData, template, draft, onDraftCreated }: CampaignBuilderProps) {
   const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
+  const [serverErrors, setServerErrors] = useState<FieldErrors>();
+  // Bumped to reload the form with another tab's version of the draft
+  const [formKey, setFormKey] = useState(0);
+  const [formData, setFormData] = useState(initialData);
+  // Variants mode generates one campaign per selected source / ad type combination
+  const [variantsMode, setVariantsMode] = useState(false);
+  const [variants, setVariants] = useState<VariantCombination[]>([]);
+  const [campaignType, setCampaignType] = useState(initialData?.campaignType);
+
+  // Combinations belong to a campaign type, so a new type starts a new selection
+  useEffect(() => setVariants([]), [campaignType]);
+
+  const { draftId, saveState, savedAt, conflict, queueSave, cancel, keepMine, takeTheirs } = useCampaignDraft({
+    draft,
+    templateId: template?.id,
+    onCreated: onDraftCreated,
+  });
 
-  const handleSubmit = (data: any) => {
-    console.log('Creating campaign:', data);
+  const onError = (error: any) => {
+    if (error instanceof ApiError && error.body?.fieldErrors) {
+      setServerErrors(error.body.fieldErrors);
+      toast({
+        title: "Please fix the highlighted fields",
+        description: Object.values(error.body.fieldErrors).join(" "),
+        variant: "destructive",
+      });
+      return;
+    }
+    if (error instanceof ApiError && error.body?.variantErrors) {
+      const variantErrors = error.body.variantErrors;
+      toast({
+        title: error.body.error,
+        description: Object.entries(variantErrors)
+          .map(([label, errors]) => `${label}: ${Object.values(errors).join(" ")}`)
+          .join(" "),
+        variant: "destructive",
+      });
+      return;
+    }
     toast({
-      title: "Campaign Created",
-      description: "Your campaign has been created successfully with all the specified details.",
+      title: "Error",
+      description: error.message || "Failed to create campaign",
+      variant: "destructive",
     });
   };
 
+  const onCreated = (placement: MarketingPlacement, count = 1) => {
+    queryClient.invalidateQueries({ queryKey: ['/api/placements'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/drafts'] });
+    toast({
+      title: count > 1 ? `${count} Campaigns Created` : "Campaign Created",
+      description: count > 1
+        ? "Each variant has its own tracking code."
+        : `Tracking code ${placement.trackingCode} has been generated for your campaign.`,
+    });
+    setLocation(`/campaigns/${placement.id}`);
+  };
+
+  const createPlacementMutation = useMutation({
+    mutationFn: async (data: CampaignFormData) => {
+      const response = await apiRequest('POST', '/api/placements', { ...data, templateId: template?.id, draftId });
+      return response.json() as Promise<MarketingPlacement>;
+    },
+    onSuccess: (placement) => onCreated(placement),
+    onError,
+  });
+
+  const createVariantsMutation = useMutation({
+    mutationFn: async (data: CampaignFormData) => {
+      // The combination picked in the form itself is always one of the variants
+      const formVariant = { campaignSource: data.campaignSource, adType: data.adType, adTypeDetail: data.adTypeDetail || undefined };
+      const response = await apiRequest('POST', '/api/placements/variants', {
+        placement: data,
+        variants: [formVariant, ...variants.filter((variant) => variantKey(variant) !== variantKey(formVariant))],
+        templateId: template?.id,
+        draftId,
+      });
+      return response.json() as Promise<{ parentCampaignId: string; placements: MarketingPlacement[] }>;
+    },
+    onSuccess: ({ placements }) => onCreated(placements[0], placements.length),
+    onError,
+  });
+
+  const handleSubmit = (data: CampaignFormData) => {
+    cancel();
+    if (variantsMode && variants.length > 0) {
+      createVariantsMutation.mutate(data);
+    } else {
+      createPlacementMutation.mutate(data);
+    }
+  };
+
+  const handleValuesChange = useCallback((values: Partial<CampaignFormData>) => {
+    queueSave(values);
+    setCampaignType(values.campaignType);
+  }, [queueSave]);
+
+  const loadTheirs = () => {
+    const theirs = takeTheirs();
+    if (theirs) {
+      setFormData(draftToFormValues(theirs.values));
+      setFormKey((key) => key + 1);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="max-w-7xl mx-auto text-sm text-muted-foreground" data-testid="text-draft-status">
+        {saveState === "saving" && "Saving draft..."}
+        {(saveState === "saved" || saveState === "idle") && savedAt && `Draft saved at ${format(savedAt, "p")}`}
+        {saveState === "error" && <span className="text-destructive">Draft not saved. It will be retried with your next change.</span>}
+      </div>
+
+      {conflict && (
+        <div className="max-w-7xl mx-auto flex flex-col md:flex-row md:items-center gap-3 rounded-md border border-destructive p-3 text-sm">
+          <span className="flex-1 text-foreground">
+            This draft was saved from another tab or window
+            {conflict.updatedAt && ` at ${format(new Date(conflict.updatedAt), "p")}`}. Which version do you want to keep?
+          </span>
+          <Button type="button" size="sm" variant="outline" onClick={loadTheirs} data-testid="button-draft-load-theirs">
+            Load the Other Version
+          </Button>
+          <Button type="button" size="sm" onClick={keepMine} data-testid="button-draft-keep-mine">
+            Keep This Version
+          </Button>
+        </div>
+      )}
+
+      <div className="max-w-7xl mx-auto space-y-4">
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={variantsMode}
+            onChange={(e) => setVariantsMode(e.target.checked)}
+            data-testid="checkbox-variants-mode"
+          />
+          Generate variants: one campaign per source and ad type
+        </label>
+        {variantsMode && <VariantPicker campaignType={campaignType} selected={variants} onChange={setVariants} />}
+      </div>
+
+      <CampaignForm
+        key={formKey}
+        onSubmit={handleSubmit}
+        initialData={formData}
+        isLoading={createPlacementMutation.isPending || createVariantsMutation.isPending}
+        serverErrors={serverErrors}
+        lockedFields={template?.lockedFields}
+        onValuesChange={handleValuesChange}
+      />
+    </div>
+  );
+}
+
+export default function CreateCampaignPage() {
+  const [, setLocation] = useLocation();
+  // Draft this page created itself; its id joining the URL must not restart the form
+  const [createdDraftId, setCreatedDraftId] = useState<string>();
+
+  // /create?from=<id> copies a campaign, /create?template=<id> starts from a
+  // template and /create?draft=<id> resumes an unfinished draft
+  const search = useSearch();
+  const params = new URLSearchParams(search);
+  const sourceId = params.get("from");
+  const draftId = params.get("draft");
+
+  const { data: draft, isLoading: draftLoading } = useQuery<CampaignDraft>({
+    queryKey: ['/api/drafts', draftId],
+    enabled: !!draftId,
+  });
+
+  const { data: templates = [] } = useQuery<CampaignTemplate[]>({
+    queryKey: ['/api/templates'],
+  });
+
+  const { data: source, isLoading: sourceLoading } = useQuery<MarketingPlacement>({
+    queryKey: ['/api/placements', sourceId],
+    enabled: !!sourceId,
+  });
+
+  // A copy stays bound to the template of the campaign it copies, locks included
+  const templateId = params.get("template") ?? draft?.templateId ?? source?.templateId ?? null;
+
+  const { data: template, isLoading: templateLoading } = useQuery<CampaignTemplate>({
+    queryKey: ['/api/templates', templateId],
+    enabled: !!templateId,
+  });
+
+  const chooseTemplate = (value: string) => {
+    setLocation(value === BLANK ? "/create" : `/create?template=${value}`);
+  };
+
+  const handleDraftCreated = (created: CampaignDraft) => {
+    setCreatedDraftId(created.id);
+    const next = new URLSearchParams(search);
+    next.set("draft", created.id);
+    setLocation(`/create?${next}`, { replace: true });
+  };
+
+  // The form only reads its initial values on mount, so it waits for them
+  const isLoading =
+    (!!draftId && draftLoading) || (!!sourceId && sourceLoading) || (!!templateId && templateLoading);
+  const initialData = draft
+    ? draftToFormValues(draft.values)
+    : source
+      ? duplicatePlacementValues(source)
+      : template?.values;
+  const isResuming = !!draft && draft.id !== createdDraftId;
+  const builderKey = [sourceId, templateId, isResuming ? draft.id : null].join("|");
+
   return (
-    <div className="min-h-screen bg-gradient-background p-6">
-      <CampaignForm onSubmit={handleSubmit} />
+    <div className="min-h-screen bg-gradient-background p-6 space-y-4">
+      <div className="max-w-7xl mx-auto flex flex-col md:flex-row md:items-center gap-3">
+        <span className="text-sm text-muted-foreground">
+          {isResuming
+            ? "Resuming your draft."
+            : source
+              ? `Copying "${source.title}". Set new dates before saving.`
+              : "Start from a template"}
+        </span>
+        {!isResuming && !source && (
+          <Select value={template?.id ?? BLANK} onValueChange={chooseTemplate}>
+            <SelectTrigger className="md:w-72" data-testid="select-template">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={BLANK}>Blank campaign</SelectItem>
+              {templates.map((option) => (
+                <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <Link href="/templates" className="text-sm text-primary hover:underline">
+          Manage templates
+        </Link>
+      </div>
+
+      {template && template.lockedFields.length > 0 && (
+        <div className="max-w-7xl mx-auto flex items-start gap-2 rounded-md border p-3 text-sm text-muted-foreground">
+          <Lock className="h-4 w-4 mt-0.5 shrink-0" />
+          <span>
+            The "{template.name}" template locks {template.lockedFields.map(formatAuditField).join(", ")}.
+          </span>
+        </div>
+      )}
+
+      {isLoading ? (
+        <p className="text-muted-foreground">Loading...</p>
+      ) : (
+        <CampaignBuilder
+          key={builderKey}
+          initialData={initialData}
+          template={template}
+          draft={draft}
+          onDraftCreated={handleDraftCreated}
+        />
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -1,12 +1,15 @@
 import { Dashboard } from "@/components/Dashboard";
+import { UnfinishedDrafts } from "@/components/UnfinishedDrafts";
+import { useAuth } from "@/hooks/useAuth";
+import { hasPermission } from "@shared/permissions";
 
 export default function DashboardPage() {
-  // Mock user data for prototype
-  const user = {
-    firstName: "John",
-    lastName: "Doe", 
-    isAdmin: true,
-  };
+  const { user } = useAuth();
 
-  return <Dashboard user={user} />;
-}
\ No newline at end of file
+  return (
+    <div className="space-y-6">
+      {hasPermission(user?.permissions, "campaigns:edit") && <UnfinishedDrafts />}
+      <Dashboard user={user || undefined} />
+    </div>
+  );
+}
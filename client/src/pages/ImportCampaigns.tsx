@@ -0,0 +1,292 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import Papa from "papaparse";
+import { readSheet } from "read-excel-file/browser";
+import { Upload } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { ApiError, apiRequest } from "@/lib/queryClient";
+import { guessImportField, importFields, type ImportField, type ImportReport, type ImportRow } from "@shared/import";
+import { MAX_IMPORT_ROWS } from "@shared/schema";
+
+const IGNORE = "__ignore__";
+
+interface Sheet {
+  fileName: string;
+  headers: string[];
+  data: string[][];
+}
+
+// Spreadsheet cells as the text a user would have typed
+function cellText(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return format(value, "yyyy-MM-dd");
+  return String(value);
+}
+
+async function readSpreadsheet(file: File): Promise<Sheet> {
+  let rows: string[][];
+  if (/\.xlsx$/i.test(file.name)) {
+    const data = await readSheet(file);
+    rows = data.map((row) => row.map(cellText));
+  } else {
+    rows = await new Promise<string[][]>((resolve, reject) => {
+      Papa.parse<string[]>(file, {
+        skipEmptyLines: "greedy",
+        complete: (result) => resolve(result.data),
+        error: reject,
+      });
+    });
+  }
+  const [headers = [], ...data] = rows;
+  return { fileName: file.name, headers: headers.map((header) => header.trim()), data };
+}
+
+export default function ImportCampaignsPage() {
+  const [sheet, setSheet] = useState<Sheet | null>(null);
+  // Field each column maps to, by column index
+  const [mapping, setMapping] = useState<(ImportField | typeof IGNORE)[]>([]);
+  const [rows, setRows] = useState<ImportRow[] | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [onlyErrors, setOnlyErrors] = useState(true);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [, navigate] = useLocation();
+
+  const onError = (error: any) => {
+    if (error instanceof ApiError && error.body?.report) {
+      setReport(error.body.report);
+    }
+    toast({
+      title: "Error",
+      description: error instanceof ApiError ? error.body?.error ?? error.message : error.message,
+      variant: "destructive",
+    });
+  };
+
+  const validateMutation = useMutation({
+    mutationFn: async (toValidate: ImportRow[]) => {
+      const response = await apiRequest('POST', '/api/placements/import/validate', { rows: toValidate });
+      return response.json() as Promise<ImportReport>;
+    },
+    onSuccess: setReport,
+    onError,
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (toImport: ImportRow[]) => {
+      const response = await apiRequest('POST', '/api/placements/import', { rows: toImport });
+      return response.json() as Promise<{ created: number }>;
+    },
+    onSuccess: ({ created }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/placements'] });
+      toast({ title: `Imported ${created} campaigns` });
+      navigate("/campaigns");
+    },
+    onError,
+  });
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const parsed = await readSpreadsheet(file);
+      if (parsed.data.length > MAX_IMPORT_ROWS) {
+        throw new Error(`The file has ${parsed.data.length} rows, import at most ${MAX_IMPORT_ROWS} at a time`);
+      }
+      setSheet(parsed);
+      setMapping(parsed.headers.map((header) => guessImportField(header) ?? IGNORE));
+      setRows(null);
+      setReport(null);
+    } catch (error: any) {
+      toast({ title: "Could not read the file", description: error.message, variant: "destructive" });
+    }
+  };
+
+  // Applies the column mapping; the rows can then be corrected in place
+  const applyMapping = () => {
+    if (!sheet) return;
+    const mapped = sheet.data.map((cells) => {
+      const row: ImportRow = {};
+      mapping.forEach((field, column) => {
+        if (field !== IGNORE) row[field] = cells[column] ?? "";
+      });
+      return row;
+    });
+    setRows(mapped);
+    validateMutation.mutate(mapped);
+  };
+
+  const updateCell = (index: number, field: ImportField, value: string) => {
+    setRows((current) => current && current.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+  };
+
+  const mappedFields = importFields.filter(({ field }) => mapping.includes(field));
+  const errorsByRow = new Map(report?.rows.map(({ row, errors }) => [row - 1, errors]));
+  const visibleRows = (rows ?? [])
+    .map((row, index) => ({ row, index }))
+    .filter(({ index }) => !onlyErrors || errorsByRow.has(index));
+  const isBusy = validateMutation.isPending || importMutation.isPending;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold text-foreground">Import Campaigns</h1>
+        <p className="text-muted-foreground">
+          Create up to {MAX_IMPORT_ROWS} campaigns from a CSV or Excel (.xlsx) file. The first row must hold the column names.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">1. Upload</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <label className="inline-flex items-center gap-2 cursor-pointer">
+            <Upload className="h-4 w-4" />
+            <span className="text-sm text-foreground">{sheet ? sheet.fileName : "Choose a file"}</span>
+            <input
+              type="file"
+              accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              className="hidden"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              data-testid="input-import-file"
+            />
+          </label>
+          {sheet && <p className="mt-2 text-sm text-muted-foreground">{sheet.data.length} rows found</p>}
+        </CardContent>
+      </Card>
+
+      {sheet && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">2. Map Columns</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+              {sheet.headers.map((header, column) => (
+                <div key={column} className="space-y-1">
+                  <div className="text-sm font-medium text-foreground">{header || `Column ${column + 1}`}</div>
+                  <Select
+                    value={mapping[column]}
+                    onValueChange={(value) =>
+                      setMapping((current) => current.map((field, i) => (i === column ? (value as ImportField) : field)))
+                    }
+                  >
+                    <SelectTrigger data-testid={`select-mapping-${column}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={IGNORE}>Don't import</SelectItem>
+                      {importFields.map(({ field, label }) => (
+                        <SelectItem key={field} value={field}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            <Button type="button" onClick={applyMapping} disabled={isBusy} data-testid="button-apply-mapping">
+              {rows ? "Re-apply Mapping" : "Check Rows"}
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {rows && (
+        <Card>
+          <CardHeader className="flex flex-row items-center gap-3 space-y-0">
+            <CardTitle className="text-lg">3. Review</CardTitle>
+            {report && (
+              <>
+                <Badge variant="default">{report.valid} valid</Badge>
+                {report.invalid > 0 && <Badge variant="destructive">{report.invalid} with errors</Badge>}
+              </>
+            )}
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={onlyErrors} onChange={(e) => setOnlyErrors(e.target.checked)} />
+              Only show rows with errors
+            </label>
+
+            {visibleRows.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                {report?.invalid === 0 ? "Every row is valid." : "No rows to show."}
+              </p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="text-sm">
+                  <thead>
+                    <tr className="text-left text-muted-foreground border-b">
+                      <th className="py-2 pr-2 font-medium">Row</th>
+                      {mappedFields.map(({ field, label }) => (
+                        <th key={field} className="py-2 pr-2 font-medium whitespace-nowrap">{label}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {visibleRows.map(({ row, index }) => {
+                      const errors = errorsByRow.get(index);
+                      return (
+                        <tr key={index} className="border-b align-top" data-testid={`import-row-${index + 1}`}>
+                          <td className="py-2 pr-2 text-muted-foreground">{index + 1}</td>
+                          {mappedFields.map(({ field }) => (
+                            <td key={field} className="py-2 pr-2 min-w-40">
+                              <Input
+                                value={row[field] ?? ""}
+                                onChange={(e) => updateCell(index, field, e.target.value)}
+                                className={errors?.[field] ? "border-destructive" : ""}
+                              />
+                              {errors?.[field] && <div className="mt-1 text-xs text-destructive">{errors[field]}</div>}
+                            </td>
+                          ))}
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+                {/* Errors on fields that are not mapped to any column */}
+                {visibleRows.map(({ index }) => {
+                  const unmapped = Object.entries(errorsByRow.get(index) ?? {}).filter(
+                    ([field]) => !mappedFields.some((mapped) => mapped.field === field),
+                  );
+                  return unmapped.length > 0 ? (
+                    <p key={index} className="text-xs text-destructive">
+                      Row {index + 1}: {unmapped.map(([, message]) => message).join(" ")}
+                    </p>
+                  ) : null;
+                })}
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => validateMutation.mutate(rows)}
+                disabled={isBusy}
+                data-testid="button-revalidate"
+              >
+                {validateMutation.isPending ? "Checking..." : "Check Again"}
+              </Button>
+              <Button
+                type="button"
+                onClick={() => importMutation.mutate(rows)}
+                disabled={isBusy || !report || report.invalid > 0}
+                data-testid="button-import"
+              >
+                {importMutation.isPending ? "Importing..." : `Import ${rows.length} Campaigns`}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
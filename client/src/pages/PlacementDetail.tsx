@@ -0,0 +1,245 @@
+import { useState } from "react";
+import { Link, useParams } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Copy, CopyPlus, LayoutTemplate } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { PlacementStatusBadge } from "@/components/PlacementStatusBadge";
+import { ApprovalPanel } from "@/components/ApprovalPanel";
+import { ClickLinks } from "@/components/ClickLinks";
+import { AuditHistory } from "@/components/AuditHistory";
+import { RevisionHistory } from "@/components/RevisionHistory";
+import { TemplateDialog } from "@/components/TemplateDialog";
+import { VariantList } from "@/components/VariantList";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { ApiError, apiRequest } from "@/lib/queryClient";
+import { hasPermission } from "@shared/permissions";
+import { toTemplateValues } from "@shared/templates";
+import { getAvailableActions, placementActions, placementStatusLabels, type PlacementActionName } from "@shared/lifecycle";
+import type { MarketingPlacement, PlacementStatus, PlacementStatusTransition } from "@shared/schema";
+
+// Fields shown in the details card, in display order
+const detailFields: { key: keyof MarketingPlacement; label: string }[] = [
+  { key: "campaignType", label: "Campaign Type" },
+  { key: "campaignSource", label: "Campaign Source" },
+  { key: "adType", label: "Ad Type" },
+  { key: "adTypeDetail", label: "Ad Type Detail" },
+  { key: "brand1", label: "Brand" },
+  { key: "productCategory", label: "Product Category" },
+  { key: "campaignOwner", label: "Campaign Owner" },
+  { key: "industry", label: "Industry" },
+  { key: "tactic", label: "Tactic" },
+  { key: "costCenter", label: "Cost Center" },
+  { key: "subLedger", label: "Sub Ledger" },
+  { key: "budget", label: "Budget" },
+  { key: "partnerName", label: "Partner" },
+  { key: "thirdPartyName", label: "3rd Party" },
+  { key: "projectReferenceNumber", label: "Project Reference" },
+];
+
+function formatDate(value: Date | string | null | undefined) {
+  return value ? format(new Date(value), "PP") : "—";
+}
+
+export default function PlacementDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const [reason, setReason] = useState("");
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: placement, isLoading } = useQuery<MarketingPlacement>({
+    queryKey: ['/api/placements', id],
+  });
+
+  const { data: transitions = [] } = useQuery<PlacementStatusTransition[]>({
+    queryKey: ['/api/placements', id, 'transitions'],
+  });
+
+  const transitionMutation = useMutation({
+    mutationFn: async (action: PlacementActionName) => {
+      const response = await apiRequest('POST', `/api/placements/${id}/${action}`, { reason: reason || undefined });
+      return response.json() as Promise<MarketingPlacement>;
+    },
+    onSuccess: (updated) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/placements'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/audit'] });
+      setReason("");
+      toast({
+        title: "Status updated",
+        description: `Campaign is now ${placementStatusLabels[updated.status as PlacementStatus] ?? updated.status}.`,
+      });
+    },
+    onError: (error: any) => {
+      const fieldErrors = error instanceof ApiError ? error.body?.fieldErrors : undefined;
+      toast({
+        title: error instanceof ApiError ? error.body?.error ?? "Error" : "Error",
+        description: fieldErrors ? Object.values(fieldErrors).join(" ") : error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return <p className="text-muted-foreground">Loading campaign...</p>;
+  }
+
+  if (!placement) {
+    return <p className="text-muted-foreground">Campaign not found.</p>;
+  }
+
+  const actions = getAvailableActions(placement.status, user?.permissions);
+  const canEdit = hasPermission(user?.permissions, "campaigns:edit");
+
+  const copyTrackingUrl = () => {
+    if (placement.fullTrackingUrl) {
+      navigator.clipboard.writeText(placement.fullTrackingUrl);
+      toast({ title: "Copied", description: "Tracking URL copied to clipboard." });
+    }
+  };
+
+  return (
+    <div className="space-y-6 max-w-5xl">
+      <div className="flex flex-col sm:flex-row justify-between items-start gap-4">
+        <div className="space-y-1">
+          <div className="flex items-center gap-3">
+            <h1 className="text-2xl font-semibold text-foreground" data-testid="text-placement-title">{placement.title}</h1>
+            <PlacementStatusBadge status={placement.status} />
+          </div>
+          <p className="text-muted-foreground font-mono" data-testid="text-tracking-code">{placement.trackingCode}</p>
+          {placement.status === "scheduled" && (
+            <p className="text-sm text-muted-foreground">
+              Goes live automatically on {formatDate(placement.startDate)}
+            </p>
+          )}
+          {canEdit && (
+            <div className="flex gap-2 pt-2">
+              <Button variant="outline" size="sm" asChild>
+                <Link href={`/create?from=${placement.id}`} data-testid="button-duplicate">
+                  <CopyPlus className="h-4 w-4 mr-2" />
+                  Duplicate
+                </Link>
+              </Button>
+              <TemplateDialog
+                values={toTemplateValues(placement)}
+                trigger={
+                  <Button variant="outline" size="sm" data-testid="button-save-as-template">
+                    <LayoutTemplate className="h-4 w-4 mr-2" />
+                    Save as Template
+                  </Button>
+                }
+              />
+            </div>
+          )}
+        </div>
+        {actions.length > 0 && (
+          <div className="flex flex-col gap-2 items-end">
+            <div className="flex gap-2">
+              {actions.map((action) => (
+                <Button
+                  key={action}
+                  variant={action === "archive" ? "outline" : "default"}
+                  onClick={() => transitionMutation.mutate(action)}
+                  disabled={transitionMutation.isPending}
+                  data-testid={`button-${action}`}
+                >
+                  {placementActions[action].label}
+                </Button>
+              ))}
+            </div>
+            <Input
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Reason (optional)"
+              className="w-72"
+              data-testid="input-transition-reason"
+            />
+          </div>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Tracking URL</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-start gap-2">
+            <p className="font-mono text-sm break-all flex-1" data-testid="text-tracking-url">{placement.fullTrackingUrl}</p>
+            <Button variant="ghost" size="sm" onClick={copyTrackingUrl} data-testid="button-copy-url">
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <ClickLinks placement={placement} canEdit={canEdit} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Details</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <dl className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <dt className="text-sm text-muted-foreground">Start Date</dt>
+              <dd className="text-foreground">{formatDate(placement.startDate)}</dd>
+            </div>
+            <div>
+              <dt className="text-sm text-muted-foreground">End Date</dt>
+              <dd className="text-foreground">{formatDate(placement.endDate)}</dd>
+            </div>
+            {detailFields.map(({ key, label }) => (
+              <div key={key}>
+                <dt className="text-sm text-muted-foreground">{label}</dt>
+                <dd className="text-foreground">{String(placement[key] ?? "—")}</dd>
+              </div>
+            ))}
+          </dl>
+        </CardContent>
+      </Card>
+
+      {placement.parentCampaignId && (
+        <VariantList parentCampaignId={placement.parentCampaignId} currentId={placement.id} />
+      )}
+
+      <ApprovalPanel placement={placement} permissions={user?.permissions} />
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Status History</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {transitions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No status changes yet.</p>
+          ) : (
+            <div className="space-y-3">
+              {transitions.map((transition) => (
+                <div key={transition.id} className="flex items-start gap-3" data-testid={`transition-${transition.id}`}>
+                  <div className="w-2 h-2 bg-primary rounded-full mt-2 flex-shrink-0" />
+                  <div>
+                    <div className="font-medium text-foreground">
+                      {placementStatusLabels[transition.fromStatus as PlacementStatus] ?? transition.fromStatus}
+                      {" → "}
+                      {placementStatusLabels[transition.toStatus as PlacementStatus] ?? transition.toStatus}
+                    </div>
+                    <div className="text-sm text-muted-foreground">
+                      {transition.actorId ? `by ${transition.actorId}` : "by the system"}
+                      {transition.createdAt && ` · ${format(new Date(transition.createdAt), "PPp")}`}
+                    </div>
+                    {transition.reason && <div className="text-sm text-muted-foreground">{transition.reason}</div>}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <RevisionHistory placementId={placement.id} canEdit={canEdit} />
+
+      <AuditHistory entityType="placement" entityId={placement.id} />
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import { storage } from "./storage";
+import {
+  analyticsRangeGranularity,
+  getAnalyticsPeriod,
+  type AnalyticsActivity,
+  type AnalyticsSegment,
+  type AnalyticsSeriesPoint,
+  type AnalyticsSummary,
+  type AnalyticsTimeseries,
+} from "@shared/analytics";
+import type { AnalyticsDimension, AnalyticsRange, AttributionModel } from "@shared/schema";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const ACTIVITY_LIMIT = 10;
+// Label of the segment for campaigns with no value for the dimension
+const NOT_SET = "Not set";
+
+// Conversions per hundred clicks; null without clicks to convert
+function conversionRate(conversions: number, clicks: number): number | null {
+  return clicks ? (conversions / clicks) * 100 : null;
+}
+
+// Headline numbers for the Analytics page cards, with conversions credited
+// by the given attribution model
+export async function getAnalyticsSummary(range: AnalyticsRange, model: AttributionModel): Promise<AnalyticsSummary> {
+  const { from, to, previousFrom } = getAnalyticsPeriod(range);
+  const [clicks, previousClicks, conversions, previousConversions, active, started, previousStarted] = await Promise.all([
+    storage.getClickTotal(from, to),
+    storage.getClickTotal(previousFrom, from),
+    storage.getConversionTotal(from, to, model),
+    storage.getConversionTotal(previousFrom, from, model),
+    storage.countActivePlacements(),
+    storage.countPlacementActivations(from, to),
+    storage.countPlacementActivations(previousFrom, from),
+  ]);
+
+  return {
+    range,
+    from,
+    to,
+    totalClicks: { value: clicks, previous: previousClicks },
+    conversions: { value: conversions, previous: previousConversions },
+    conversionRate: {
+      value: conversionRate(conversions, clicks),
+      previous: conversionRate(previousConversions, previousClicks),
+    },
+    activeCampaigns: { value: active, started, previousStarted },
+  };
+}
+
+// Clicks and conversions per value of a campaign field, busiest first, each
+// with its numbers for the previous period
+export async function getAnalyticsBreakdown(
+  range: AnalyticsRange,
+  dimension: AnalyticsDimension,
+  model: AttributionModel,
+): Promise<AnalyticsSegment[]> {
+  const { from, to, previousFrom } = getAnalyticsPeriod(range);
+  const [current, previous, conversions, previousConversions, channelTypes] = await Promise.all([
+    storage.getClicksByDimension(from, to, dimension),
+    storage.getClicksByDimension(previousFrom, from, dimension),
+    storage.getConversionsByDimension(from, to, dimension, model),
+    storage.getConversionsByDimension(previousFrom, from, dimension, model),
+    dimension === "channelType" ? storage.getChannelTypes() : Promise.resolve([]),
+  ]);
+
+  const total = current.reduce((sum, row) => sum + row.clicks, 0);
+  const previousClicks = new Map(previous.map((row) => [row.key, row.clicks]));
+  const conversionsByKey = new Map(conversions.map((row) => [row.key, row.conversions]));
+  const previousConversionsByKey = new Map(previousConversions.map((row) => [row.key, row.conversions]));
+  const channelTypesById = new Map(channelTypes.map((channelType) => [channelType.id, channelType]));
+
+  return current
+    .filter((row) => row.clicks > 0)
+    .map((row) => {
+      const channelType = row.key ? channelTypesById.get(row.key) : undefined;
+      const segmentConversions = conversionsByKey.get(row.key) ?? 0;
+      return {
+        key: row.key,
+        label: channelType?.name ?? row.key ?? NOT_SET,
+        color: channelType?.color ?? null,
+        clicks: row.clicks,
+        previousClicks: previousClicks.get(row.key) ?? 0,
+        conversions: segmentConversions,
+        previousConversions: previousConversionsByKey.get(row.key) ?? 0,
+        conversionRate: conversionRate(segmentConversions, row.clicks),
+        share: total ? (row.clicks / total) * 100 : 0,
+      };
+    })
+    .sort((a, b) => b.clicks - a.clicks);
+}
+
+// Clicks per hour or day of the selected period, up to the current bucket,
+// lined up with the same buckets of the previous period
+export async function getAnalyticsTimeseries(range: AnalyticsRange, model: AttributionModel): Promise<AnalyticsTimeseries> {
+  const now = new Date();
+  const { from, to, previousFrom } = getAnalyticsPeriod(range, now);
+  const granularity = analyticsRangeGranularity[range];
+  const step = granularity === "hour" ? HOUR_MS : DAY_MS;
+  const [current, previous, conversions, previousConversions] = await Promise.all([
+    storage.getClickSeries(granularity, from, to),
+    storage.getClickSeries(granularity, previousFrom, from),
+    storage.getConversionSeries(granularity, from, to, model),
+    storage.getConversionSeries(granularity, previousFrom, from, model),
+  ]);
+
+  // Keyed by offset from the start of their period
+  const byOffset = <T extends { bucketStart: Date }>(rows: T[], start: Date, count: (row: T) => number) =>
+    new Map(rows.map((row) => [row.bucketStart.getTime() - start.getTime(), count(row)]));
+  const currentClicks = byOffset(current, from, (row) => row.clicks);
+  const previousClicks = byOffset(previous, previousFrom, (row) => row.clicks);
+  const currentConversions = byOffset(conversions, from, (row) => row.conversions);
+  const previousConversionsByOffset = byOffset(previousConversions, previousFrom, (row) => row.conversions);
+
+  const points: AnalyticsSeriesPoint[] = [];
+  for (let offset = 0; from.getTime() + offset <= now.getTime(); offset += step) {
+    points.push({
+      bucketStart: new Date(from.getTime() + offset),
+      clicks: currentClicks.get(offset) ?? 0,
+      previousClicks: previousClicks.get(offset) ?? 0,
+      conversions: currentConversions.get(offset) ?? 0,
+      previousConversions: previousConversionsByOffset.get(offset) ?? 0,
+    });
+  }
+  return { range, granularity, points };
+}
+
+// Campaign changes in the period. Changes to other entities are only listed
+// for admins, who can browse the whole audit log anyway.
+export async function getRecentActivity(range: AnalyticsRange, allEntities: boolean): Promise<AnalyticsActivity[]> {
+  return await storage.getRecentActivity(
+    getAnalyticsPeriod(range).from,
+    ACTIVITY_LIMIT,
+    allEntities ? undefined : ["placement"],
+  );
+}
@@ -0,0 +1,155 @@
+import { storage } from "./storage";
+import type { Actor } from "./lifecycle";
+import {
+  approvalFieldsChanged,
+  approverPermissions,
+  getApplicableRules,
+  getRulesBlockingLiveEdit,
+  type PlacementApprovals,
+} from "@shared/approvals";
+import { placementSchema, placementToFormValues, toFieldErrors, type FieldErrors } from "@shared/validation";
+import type { ApprovalRule, ApproverRole, MarketingPlacement } from "@shared/schema";
+
+export class ApprovalError extends Error {
+  constructor(
+    message: string,
+    public status = 409,
+    public fieldErrors?: FieldErrors,
+  ) {
+    super(message);
+    this.name = "ApprovalError";
+  }
+}
+
+// Rules the placement has to pass before it can go live
+export async function getRequiredApprovalRules(placement: Partial<MarketingPlacement>): Promise<ApprovalRule[]> {
+  return getApplicableRules(await storage.getApprovalRules(), placement);
+}
+
+// Whether the placement may go live as far as approvals are concerned
+export async function isApprovalSatisfied(placement: MarketingPlacement): Promise<boolean> {
+  if (placement.approvalStatus === "approved") {
+    return true;
+  }
+  return (await getRequiredApprovalRules(placement)).length === 0;
+}
+
+export async function getPlacementApprovals(placement: MarketingPlacement): Promise<PlacementApprovals> {
+  const rules = await getRequiredApprovalRules(placement);
+  return {
+    required: rules.map(({ id, name, approverRole }) => ({ id, name, approverRole })),
+    requests: await storage.getApprovalRequests(placement.id),
+  };
+}
+
+// Submit a placement for its first review, or resubmit it after a rejection
+export async function submitForApproval(
+  placementId: string,
+  actor: Actor,
+  comment?: string,
+  resubmit = false,
+): Promise<MarketingPlacement> {
+  const placement = await storage.getMarketingPlacement(placementId);
+  if (!placement) {
+    throw new ApprovalError("Placement not found", 404);
+  }
+
+  if (resubmit && placement.approvalStatus !== "rejected") {
+    throw new ApprovalError("Only rejected campaigns can be resubmitted");
+  }
+  if (!resubmit && placement.approvalStatus) {
+    throw new ApprovalError(
+      placement.approvalStatus === "rejected"
+        ? "This campaign was rejected, resubmit it instead"
+        : "This campaign has already been submitted for approval",
+    );
+  }
+  if (placement.status === "archived") {
+    throw new ApprovalError("Archived campaigns cannot be submitted for approval");
+  }
+
+  // Approvers review the whole campaign, so it has to be complete
+  const result = placementSchema.safeParse(placementToFormValues(placement));
+  if (!result.success) {
+    throw new ApprovalError("Complete all required fields first", 422, toFieldErrors(result.error));
+  }
+
+  const rules = await getRequiredApprovalRules(placement);
+  if (rules.length === 0) {
+    throw new ApprovalError("This campaign does not need approval");
+  }
+
+  const updated = await storage.startApprovalRound(
+    placement.id,
+    (placement.approvalRound ?? 0) + 1,
+    rules.map((rule) => ({
+      ruleId: rule.id,
+      ruleName: rule.name,
+      approverRole: rule.approverRole,
+      submittedBy: actor.id,
+      submitComment: comment,
+    })),
+  );
+  if (!updated) {
+    throw new ApprovalError("The campaign was submitted by someone else, please reload");
+  }
+  return updated;
+}
+
+export async function decideApproval(
+  requestId: string,
+  decision: "approved" | "rejected",
+  actor: Actor,
+  comment?: string,
+): Promise<MarketingPlacement> {
+  const request = await storage.getApprovalRequest(requestId);
+  if (!request) {
+    throw new ApprovalError("Approval request not found", 404);
+  }
+  if (request.status !== "pending") {
+    throw new ApprovalError("This approval request has already been decided");
+  }
+
+  const permission = approverPermissions[request.approverRole as ApproverRole];
+  if (!actor.permissions.includes(permission)) {
+    throw new ApprovalError(`You do not have the ${permission} permission`, 403);
+  }
+
+  const placement = await storage.decideApprovalRequest(request.id, decision, actor.id, comment);
+  if (!placement) {
+    throw new ApprovalError("This approval request was decided by someone else, please reload");
+  }
+  return placement;
+}
+
+// A live campaign cannot be edited into needing an approval it does not
+// have; it has to be paused or unscheduled and submitted first
+export async function checkLiveEditApproval(
+  before: MarketingPlacement,
+  updates: Partial<MarketingPlacement>,
+): Promise<void> {
+  const rules = getRulesBlockingLiveEdit(await storage.getApprovalRules(), before, updates);
+  if (rules.length > 0) {
+    const action = before.status === "scheduled" ? "Unschedule" : "Pause";
+    throw new ApprovalError(
+      `This change needs approval (${rules.map((rule) => rule.name).join(", ")}). ${action} the campaign and submit it first.`,
+    );
+  }
+}
+
+// Editing a field the rules look at invalidates a pending or granted approval
+export async function resetApprovalIfChanged(
+  before: MarketingPlacement,
+  updates: Partial<MarketingPlacement>,
+  actorId?: string,
+): Promise<boolean> {
+  if (before.approvalStatus !== "pending" && before.approvalStatus !== "approved") {
+    return false;
+  }
+
+  const changed = approvalFieldsChanged(before, updates);
+  if (changed) {
+    await storage.resetApproval(before.id, actorId);
+  }
+  return changed;
+}
@@ -0,0 +1,29 @@
+import { sql } from "drizzle-orm";
+import { db } from "./db";
+
+// The audit log is written by storage in the same transaction as each change.
+// This trigger makes the table append-only for every database client, not
+// just this server, so entries cannot be edited or removed after the fact.
+export async function protectAuditLog(): Promise<void> {
+  await db.transaction(async (tx) => {
+    await tx.execute(sql`
+      CREATE OR REPLACE FUNCTION audit_log_reject_change() RETURNS trigger AS $$
+      BEGIN
+        RAISE EXCEPTION 'audit_log is append-only';
+      END;
+      $$ LANGUAGE plpgsql
+    `);
+    await tx.execute(sql`DROP TRIGGER IF EXISTS audit_log_append_only ON audit_log`);
+    await tx.execute(sql`
+      CREATE TRIGGER audit_log_append_only
+      BEFORE UPDATE OR DELETE ON audit_log
+      FOR EACH ROW EXECUTE FUNCTION audit_log_reject_change()
+    `);
+    await tx.execute(sql`DROP TRIGGER IF EXISTS audit_log_no_truncate ON audit_log`);
+    await tx.execute(sql`
+      CREATE TRIGGER audit_log_no_truncate
+      BEFORE TRUNCATE ON audit_log
+      FOR EACH STATEMENT EXECUTE FUNCTION audit_log_reject_change()
+    `);
+  });
+}
@@ -0,0 +1,238 @@
+import { readFile } from "fs/promises";
+import type { Request, RequestHandler } from "express";
+import jwt, { type JwtHeader, type JwtPayload } from "jsonwebtoken";
+import jwksClient, { type JSONWebKey } from "jwks-rsa";
+import { storage } from "./storage";
+import type { User } from "@shared/schema";
+import { isRole, permissionsForRoles, roles, type AuthUser, type Permission, type Role } from "@shared/permissions";
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: User;
+    }
+  }
+}
+
+// Azure AD settings. JWKS_URI and AZURE_ISSUER default to the tenant's
+// endpoints; JWKS_FILE points at a local { keys: [...] } document that stands
+// in for the Azure key set, e.g. when testing against self-signed tokens.
+const tenantId = process.env.AZURE_TENANT_ID;
+const clientId = process.env.AZURE_CLIENT_ID;
+const jwksUri = process.env.JWKS_URI || `https://login.microsoftonline.com/${tenantId}/discovery/v2.0/keys`;
+const jwksFile = process.env.JWKS_FILE;
+
+const audiences = process.env.AZURE_API_AUDIENCE
+  ? process.env.AZURE_API_AUDIENCE.split(",").map((audience) => audience.trim())
+  : clientId
+    ? [`api://${clientId}`, clientId]
+    : [];
+
+// Azure issues v2 tokens from login.microsoftonline.com and v1 tokens from sts.windows.net
+const issuers = process.env.AZURE_ISSUER
+  ? process.env.AZURE_ISSUER.split(",").map((issuer) => issuer.trim())
+  : tenantId
+    ? [`https://login.microsoftonline.com/${tenantId}/v2.0`, `https://sts.windows.net/${tenantId}/`]
+    : [];
+
+// Claim values that grant a role, as "role=value" pairs separated by commas,
+// e.g. AZURE_GROUP_ROLES="admin=<group id>,finance=<group id>". App roles
+// named after a role ("campaignCreator", "Finance", ...) map without config.
+function parseRoleMapping(value: string | undefined): Map<string, Role> {
+  const mapping = new Map<string, Role>();
+  for (const pair of (value ?? "").split(",")) {
+    const [role, claim] = pair.split("=").map((part) => part.trim());
+    if (role && claim && isRole(role)) {
+      mapping.set(claim.toLowerCase(), role);
+    }
+  }
+  return mapping;
+}
+
+const appRoleMapping = parseRoleMapping(process.env.AZURE_APP_ROLES);
+const groupRoleMapping = parseRoleMapping(process.env.AZURE_GROUP_ROLES);
+
+// Signs requests without a token in as an admin. Only for local development,
+// and only when asked for, so a misconfigured deployment never allows it.
+const devBypass = process.env.NODE_ENV === "development" && process.env.AUTH_DEV_BYPASS === "true";
+
+// How long a validated user is reused before the profile is written again
+const USER_CACHE_MS = 5 * 60 * 1000;
+
+async function readLocalKeys(): Promise<JSONWebKey[]> {
+  const document = JSON.parse(await readFile(jwksFile!, "utf8"));
+  return document.keys ?? [];
+}
+
+const keys = jwksClient({
+  jwksUri,
+  cache: true,
+  rateLimit: true,
+  ...(jwksFile ? { getKeysInterceptor: readLocalKeys } : {}),
+});
+
+export class AuthError extends Error {
+  constructor(message: string, public status = 401) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
+function getSigningKey(header: JwtHeader, callback: (error: Error | null, key?: string) => void) {
+  keys.getSigningKey(header.kid, (error, key) => callback(error, key?.getPublicKey()));
+}
+
+function verifyToken(token: string): Promise<JwtPayload> {
+  // Only reachable with AUTH_DEV_BYPASS, see checkAuthConfig()
+  if (audiences.length === 0 || issuers.length === 0) {
+    return Promise.reject(new AuthError("Token validation is not configured"));
+  }
+  return new Promise((resolve, reject) => {
+    jwt.verify(
+      token,
+      getSigningKey,
+      { algorithms: ["RS256"], audience: audiences as [string, ...string[]], issuer: issuers as [string, ...string[]] },
+      (error, payload) => {
+        if (error || !payload || typeof payload === "string") {
+          reject(new AuthError(error?.message ?? "Invalid token"));
+        } else {
+          resolve(payload);
+        }
+      },
+    );
+  });
+}
+
+function bearerToken(req: Request): string | undefined {
+  const header = req.headers.authorization;
+  return header?.startsWith("Bearer ") ? header.slice("Bearer ".length).trim() : undefined;
+}
+
+function rolesFromClaims(claims: JwtPayload): Role[] {
+  const granted = new Set<Role>();
+  for (const appRole of (claims.roles ?? []) as string[]) {
+    const role = appRoleMapping.get(appRole.toLowerCase())
+      ?? roles.find((name) => name.toLowerCase() === appRole.toLowerCase());
+    if (role) granted.add(role);
+  }
+  for (const group of (claims.groups ?? []) as string[]) {
+    const role = groupRoleMapping.get(group.toLowerCase());
+    if (role) granted.add(role);
+  }
+  return Array.from(granted);
+}
+
+const userCache = new Map<string, { user: User; expiresAt: number }>();
+
+// Record the signed-in user from the token claims. Roles are refreshed from
+// the token on every sign-in; isAdmin is left out so an admin granted in the
+// database survives the upsert.
+async function userFromClaims(claims: JwtPayload): Promise<User> {
+  const id = claims.oid ?? claims.sub;
+  if (!id) {
+    throw new AuthError("Token has no subject");
+  }
+
+  const cached = userCache.get(id);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.user;
+  }
+
+  const [firstName, ...lastNames] = (claims.name ?? "").split(" ");
+  const user = await storage.upsertUser({
+    id,
+    email: claims.preferred_username ?? claims.email ?? claims.upn,
+    firstName: claims.given_name ?? (firstName || undefined),
+    lastName: claims.family_name ?? (lastNames.join(" ") || undefined),
+    roles: rolesFromClaims(claims),
+  });
+  userCache.set(id, { user, expiresAt: Date.now() + USER_CACHE_MS });
+  return user;
+}
+
+// Called on startup: without an audience and issuer every token would be
+// checked against made-up values, so the server refuses to start instead
+export function checkAuthConfig(): void {
+  if (devBypass) {
+    console.warn(
+      "WARNING: AUTH_DEV_BYPASS is on. Requests without a token are signed in as an admin. Never enable it on a shared server.",
+    );
+  }
+  const missing = [
+    audiences.length === 0 && "AZURE_CLIENT_ID or AZURE_API_AUDIENCE",
+    issuers.length === 0 && "AZURE_TENANT_ID or AZURE_ISSUER",
+    !process.env.JWKS_URI && !jwksFile && !tenantId && "AZURE_TENANT_ID, JWKS_URI or JWKS_FILE",
+  ].filter((setting) => !!setting);
+  if (missing.length > 0 && !devBypass) {
+    throw new Error(`Token validation is not configured: set ${missing.join("; ")}`);
+  }
+}
+
+// Mirrors the mock user useMsalAuth signs in with on the development server
+let devUser: Promise<User> | undefined;
+
+function getDevUser(): Promise<User> {
+  devUser ??= storage.upsertUser({
+    id: "dev-user-id",
+    email: "developer@company.com",
+    firstName: "Dev",
+    lastName: "User",
+    isAdmin: true,
+    roles: ["admin"],
+  });
+  return devUser;
+}
+
+// Validates the Azure AD access token on every API request and sets
+// req.user. Without a token requests are rejected, unless AUTH_DEV_BYPASS
+// signs them in as the dev user.
+export const authenticate: RequestHandler = async (req, res, next) => {
+  try {
+    const token = bearerToken(req);
+    if (token) {
+      req.user = await userFromClaims(await verifyToken(token));
+    } else if (devBypass) {
+      req.user = await getDevUser();
+    } else {
+      throw new AuthError("Authentication required");
+    }
+    next();
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    next(error);
+  }
+};
+
+export function getUserPermissions(user: User | undefined): Permission[] {
+  if (!user) {
+    return [];
+  }
+  return permissionsForRoles(user.isAdmin ? [...(user.roles ?? []), "admin"] : user.roles);
+}
+
+export function toAuthUser(user: User): AuthUser {
+  return { ...user, permissions: getUserPermissions(user) };
+}
+
+export function requirePermission(permission: Permission): RequestHandler {
+  return (req, res, next) => {
+    if (getUserPermissions(req.user).includes(permission)) {
+      return next();
+    }
+    res.status(403).json({ error: `You do not have the ${permission} permission` });
+  };
+}
+
+// For routes open to several roles, each of which is checked more closely
+// further in
+export function requireAnyPermission(permissions: readonly Permission[]): RequestHandler {
+  return (req, res, next) => {
+    const granted = getUserPermissions(req.user);
+    if (permissions.some((permission) => granted.includes(permission))) {
+      return next();
+    }
+    res.status(403).json({ error: `You need one of the ${permissions.join(", ")} permissions` });
+  };
+}
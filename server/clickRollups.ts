@@ -0,0 +1,142 @@
+import { storage } from "./storage";
+import { log } from "./vite";
+import type { ClickRollupRange, ClickRollupRun } from "@shared/schema";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const DEFAULT_INTERVAL_MS = 15 * 60 * 1000;
+
+// Every run rebuilds at least this far back, picking up clicks that were
+// logged late and campaigns whose channel, category, source or brand changed
+const lateWindowMs = (parseInt(process.env.CLICK_ROLLUP_LATE_HOURS || "", 10) || 48) * HOUR_MS;
+
+// Raw clicks older than this are deleted once they have been rolled up. Kept
+// longer than the late window so a run never rebuilds buckets whose clicks
+// have already been purged.
+const retentionMs =
+  Math.max(parseInt(process.env.CLICK_RETENTION_DAYS || "", 10) || 90, Math.ceil(lateWindowMs / DAY_MS) + 1) * DAY_MS;
+
+export class ClickRollupError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+  ) {
+    super(message);
+    this.name = "ClickRollupError";
+  }
+}
+
+export type ClickRollupTrigger = "startup" | "interval" | "manual";
+
+let running = false;
+
+export function isClickRollupRunning(): boolean {
+  return running;
+}
+
+// Buckets are in UTC, like the timestamps they are truncated from
+function startOfUtcDay(date: Date): Date {
+  return new Date(Math.floor(date.getTime() / DAY_MS) * DAY_MS);
+}
+
+function endOfUtcDay(date: Date): Date {
+  return new Date(Math.ceil(date.getTime() / DAY_MS) * DAY_MS);
+}
+
+// How long raw clicks are kept, which bounds how far back conversions can be attributed
+export function getClickRetentionDays(): number {
+  return retentionMs / DAY_MS;
+}
+
+// Raw clicks before this have been, or are about to be, purged
+export function getRetentionCutoff(now = new Date()): Date {
+  return startOfUtcDay(new Date(now.getTime() - retentionMs));
+}
+
+// Carry on from where the last complete catch-up run stopped, or from the
+// first click ever logged, and always include the late window
+async function getScheduledRange(now: Date): Promise<{ from: Date; to: Date }> {
+  const lateStart = new Date(now.getTime() - lateWindowMs);
+  const last = await storage.getLastCompleteClickRollupRun();
+  const start = last
+    ? new Date(Math.min(last.toTime.getTime(), lateStart.getTime()))
+    : (await storage.getEarliestClickEventTime()) ?? lateStart;
+  return { from: startOfUtcDay(start), to: endOfUtcDay(new Date(now.getTime() + 1)) };
+}
+
+// Widen a requested range to whole days, the day `to` falls on included,
+// without going back past the raw clicks that are still kept
+function getManualRange(range: ClickRollupRange, now: Date): { from: Date; to: Date } {
+  const cutoff = getRetentionCutoff(now);
+  const from = new Date(Math.max(startOfUtcDay(range.from).getTime(), cutoff.getTime()));
+  const to = endOfUtcDay(new Date(range.to.getTime() + 1));
+  if (to <= from) {
+    throw new ClickRollupError(
+      `Clicks before ${cutoff.toISOString().slice(0, 10)} are no longer kept, so that range cannot be recomputed`,
+    );
+  }
+  return { from, to };
+}
+
+// Rebuild the hourly and daily click rollups, then purge raw clicks past the
+// retention period. Rebuilding replaces whole buckets, so overlapping runs
+// and recomputed ranges never double count. Clicks are only purged after a
+// catch-up run without errors, which together with the runs before it has
+// covered everything up to now. A range recomputes just those days and is
+// recorded with the "recompute" trigger. Returns undefined when a run is
+// already in progress.
+export async function runClickRollups(
+  trigger: ClickRollupTrigger,
+  range?: ClickRollupRange,
+): Promise<ClickRollupRun | undefined> {
+  if (running) {
+    return undefined;
+  }
+  running = true;
+
+  try {
+    const now = new Date();
+    const { from, to } = range ? getManualRange(range, now) : await getScheduledRange(now);
+    const run = await storage.createClickRollupRun(range ? "recompute" : trigger, from, to);
+    const errors: string[] = [];
+    let hourlyRows = 0;
+    let dailyRows = 0;
+    let purgedEvents = 0;
+
+    try {
+      const rows = await storage.rebuildClickRollups(from, to);
+      hourlyRows = rows.hour;
+      dailyRows = rows.day;
+    } catch (error) {
+      errors.push(`rollup: ${error instanceof Error ? error.message : error}`);
+    }
+
+    if (!range && !errors.length) {
+      try {
+        purgedEvents = await storage.purgeClickEvents(getRetentionCutoff(now));
+      } catch (error) {
+        errors.push(`purge: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    if (purgedEvents || errors.length) {
+      log(`click rollups: ${hourlyRows} hourly, ${dailyRows} daily, purged ${purgedEvents}, ${errors.length} failed`);
+    }
+    return await storage.finishClickRollupRun(run.id, { hourlyRows, dailyRows, purgedEvents, errors });
+  } finally {
+    running = false;
+  }
+}
+
+// Run once on startup to catch up, then every CLICK_ROLLUP_INTERVAL_MS
+export function startClickRollups(): void {
+  const interval = parseInt(process.env.CLICK_ROLLUP_INTERVAL_MS || "", 10) || DEFAULT_INTERVAL_MS;
+  const tick = (trigger: ClickRollupTrigger) => {
+    runClickRollups(trigger).catch((error) => {
+      log(`click rollup run failed: ${error instanceof Error ? error.message : error}`);
+    });
+  };
+
+  tick("startup");
+  setInterval(() => tick("interval"), interval).unref();
+}
@@ -0,0 +1,152 @@
+import { timingSafeEqual } from "crypto";
+import { storage } from "./storage";
+import { getClickRetentionDays } from "./clickRollups";
+import type { AttributionModel, AttributionSettings, ConversionEvent, ConversionReport, ConversionSource } from "@shared/schema";
+
+export class ConversionError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+  ) {
+    super(message);
+    this.name = "ConversionError";
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const LOOKBACK_SETTING = "conversionLookbackDays";
+const DEFAULT_LOOKBACK_DAYS = 30;
+// Reports may be stamped slightly ahead of this server's clock
+const CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+// Server-to-server reports authenticate with this key as a bearer token
+const apiKey = process.env.CONVERSION_API_KEY ?? "";
+
+export function isConversionApiConfigured(): boolean {
+  return !!apiKey;
+}
+
+export function checkConversionApiKey(authorization: string | undefined): void {
+  if (!apiKey) {
+    throw new ConversionError("Conversion reporting is not configured", 503);
+  }
+  const given = Buffer.from(authorization?.replace(/^Bearer\s+/i, "") ?? "");
+  const expected = Buffer.from(apiKey);
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+    throw new ConversionError("Invalid API key", 401);
+  }
+}
+
+// The lookback window is capped at the raw click retention period, as older
+// clicks are no longer there to be credited
+export async function getAttributionSettings(): Promise<AttributionSettings & { maxLookbackDays: number }> {
+  const maxLookbackDays = getClickRetentionDays();
+  const saved = parseInt((await storage.getUiSetting(LOOKBACK_SETTING)) ?? "", 10);
+  const lookbackDays = saved || parseInt(process.env.CONVERSION_LOOKBACK_DAYS || "", 10) || DEFAULT_LOOKBACK_DAYS;
+  return { lookbackDays: Math.min(lookbackDays, maxLookbackDays), maxLookbackDays };
+}
+
+export async function setAttributionSettings({ lookbackDays }: AttributionSettings): Promise<void> {
+  const maxLookbackDays = getClickRetentionDays();
+  if (lookbackDays > maxLookbackDays) {
+    throw new ConversionError(`The lookback window cannot be longer than the ${maxLookbackDays} days clicks are kept`);
+  }
+  await storage.setUiSetting(LOOKBACK_SETTING, String(lookbackDays));
+}
+
+// Credit for each placement under every model, given the placements of the
+// clicks that led to a conversion, oldest first
+function attributeCredit(path: string[]): { placementId: string; model: AttributionModel; credit: number }[] {
+  if (path.length === 0) return [];
+  const linear = new Map<string, number>();
+  for (const placementId of path) {
+    linear.set(placementId, (linear.get(placementId) ?? 0) + 1 / path.length);
+  }
+  return [
+    { placementId: path[path.length - 1], model: "lastClick" as const, credit: 1 },
+    { placementId: path[0], model: "firstClick" as const, credit: 1 },
+    ...Array.from(linear, ([placementId, credit]) => ({ placementId, model: "linear" as const, credit })),
+  ];
+}
+
+// Placements of the clicks that led to a conversion, oldest first. A
+// browser's clicks are linked by the visitor cookie the redirect sets; when
+// the visitor is not known, the path is the single click or campaign
+// reported, so first-click and linear credit match last-click. With a click
+// ID the path is that visitor's clicks up to the reported one; with a
+// tracking code it is the visitor's clicks up to their last one on that
+// campaign. Clicks before the lookback window are left out, and a click ID
+// from before it means the conversion is not attributed at all.
+async function getClickPath(report: ConversionReport, occurredAt: Date, visitor: string | undefined): Promise<string[]> {
+  const { lookbackDays } = await getAttributionSettings();
+  const windowStart = new Date(occurredAt.getTime() - lookbackDays * DAY_MS);
+
+  if (report.clickId) {
+    const click = await storage.getClickEvent(report.clickId);
+    if (!click) {
+      throw new ConversionError("Unknown click ID", 422);
+    }
+    if (click.createdAt < windowStart) {
+      return [];
+    }
+    const visitorId = click.visitorId ?? visitor;
+    const clicks = visitorId ? await storage.getVisitorClicks(visitorId, windowStart, click.createdAt) : [];
+    const path = clicks.filter((earlier) => earlier.id !== click.id).map((earlier) => earlier.placementId);
+    return [...path, click.placementId];
+  }
+
+  const placement = await storage.getPlacementByTrackingCode(report.trackingCode!);
+  if (!placement) {
+    throw new ConversionError("Unknown tracking code", 422);
+  }
+  const clicks = visitor ? await storage.getVisitorClicks(visitor, windowStart, occurredAt) : [];
+  const last = clicks.map((click) => click.placementId).lastIndexOf(placement.id);
+  return last === -1 ? [placement.id] : clicks.slice(0, last + 1).map((click) => click.placementId);
+}
+
+export interface RecordedConversion {
+  conversion: ConversionEvent;
+  // False when the idempotency key had already been reported
+  created: boolean;
+  // Whether any campaign was credited; only known for a new conversion
+  attributed?: boolean;
+}
+
+// Record a reported conversion and credit it to the campaigns that led to
+// it. `visitor` is the visitor cookie of the browser that loaded the pixel.
+export async function recordConversion(
+  report: ConversionReport,
+  source: ConversionSource,
+  visitor?: string,
+): Promise<RecordedConversion> {
+  const existing = await storage.getConversionByIdempotencyKey(report.idempotencyKey);
+  if (existing) {
+    return { conversion: existing, created: false };
+  }
+
+  const now = new Date();
+  const occurredAt = report.occurredAt ?? now;
+  if (occurredAt.getTime() > now.getTime() + CLOCK_SKEW_MS) {
+    throw new ConversionError("The conversion time is in the future");
+  }
+
+  const credits = attributeCredit(await getClickPath(report, occurredAt, visitor));
+  const created = await storage.createConversion(
+    {
+      idempotencyKey: report.idempotencyKey,
+      clickId: report.clickId ?? null,
+      trackingCode: report.trackingCode ?? null,
+      value: report.value === undefined ? null : report.value.toFixed(2),
+      currency: report.currency ?? null,
+      source,
+      occurredAt,
+    },
+    credits,
+  );
+  if (!created) {
+    // Reported again while this report was being attributed
+    const conversion = await storage.getConversionByIdempotencyKey(report.idempotencyKey);
+    return { conversion: conversion!, created: false };
+  }
+  return { conversion: created, created: true, attributed: credits.length > 0 };
+}
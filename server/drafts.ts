@@ -0,0 +1,42 @@
+import { storage } from "./storage";
+import type { CampaignDraft, InsertCampaignDraft, UpdateCampaignDraft } from "@shared/schema";
+
+export class DraftError extends Error {
+  constructor(
+    message: string,
+    public status = 409,
+    // The latest saved draft, so the client can offer to load it
+    public draft?: CampaignDraft,
+  ) {
+    super(message);
+    this.name = "DraftError";
+  }
+}
+
+// A draft started from a template that has since been deleted cannot keep
+// pointing at it
+async function checkDraftTemplate(templateId: string | null | undefined) {
+  if (templateId && !(await storage.getCampaignTemplate(templateId))) {
+    throw new DraftError("The template this draft was started from no longer exists", 400);
+  }
+}
+
+export async function createDraft(userId: string, data: InsertCampaignDraft): Promise<CampaignDraft> {
+  await checkDraftTemplate(data.templateId);
+  return await storage.createCampaignDraft(userId, data);
+}
+
+// Save a draft over the version the client last saw. When another tab or
+// window got there first the save is refused and the newer draft returned.
+export async function saveDraft(userId: string, id: string, data: UpdateCampaignDraft): Promise<CampaignDraft> {
+  await checkDraftTemplate(data.templateId);
+  const updated = await storage.updateCampaignDraft(userId, id, data);
+  if (updated) {
+    return updated;
+  }
+  const current = await storage.getCampaignDraft(userId, id);
+  if (!current) {
+    throw new DraftError("Draft not found", 404);
+  }
+  throw new DraftError("This draft was saved from another tab or window", 409, current);
+}
@@ -0,0 +1,117 @@
+import type { Response } from "express";
+import ExcelJS from "exceljs";
+import { storage } from "./storage";
+import { defaultExportColumns, exportColumnLabels, exportValue, type ExportValue } from "@shared/export";
+import type { ExportColumn, ExportFormat, MarketingPlacement, PlacementExportQuery } from "@shared/schema";
+
+// Placements fetched per query while streaming an export
+const EXPORT_BATCH_SIZE = 500;
+
+const contentTypes: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  json: "application/json; charset=utf-8",
+};
+
+// Walks every placement matching the query, one keyset page at a time, so
+// large exports never hold more than a batch in memory. Stops early once the
+// client has gone away.
+async function* matchingPlacements(query: PlacementExportQuery, res: Response): AsyncGenerator<MarketingPlacement> {
+  let after: string[] | undefined;
+  do {
+    const page = await storage.getMarketingPlacementPage({ ...query, limit: EXPORT_BATCH_SIZE }, after);
+    for (const placement of page.items) {
+      if (res.destroyed) return;
+      yield placement;
+    }
+    after = page.nextKey ?? undefined;
+  } while (after && !res.destroyed);
+}
+
+// Waits for the client to catch up when the socket buffer is full, or to
+// disconnect, in which case `drain` never comes
+async function write(res: Response, chunk: string): Promise<void> {
+  if (res.destroyed || res.write(chunk)) return;
+  await new Promise<void>((resolve) => {
+    const done = () => {
+      res.off("drain", done);
+      res.off("close", done);
+      resolve();
+    };
+    res.once("drain", done);
+    res.once("close", done);
+  });
+}
+
+// Spreadsheet apps run cells starting with these characters as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvCell(value: ExportValue): string {
+  if (value === null) return "";
+  let text = String(value);
+  if (FORMULA_PREFIX.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+async function writeCsv(res: Response, placements: AsyncIterable<MarketingPlacement>, columns: ExportColumn[]) {
+  // The byte order mark makes Excel read the file as UTF-8
+  await write(res, "\uFEFF" + columns.map((column) => csvCell(exportColumnLabels[column])).join(",") + "\r\n");
+  for await (const placement of placements) {
+    await write(res, columns.map((column) => csvCell(exportValue(placement, column))).join(",") + "\r\n");
+  }
+  res.end();
+}
+
+async function writeJson(res: Response, placements: AsyncIterable<MarketingPlacement>, columns: ExportColumn[]) {
+  let separator = "";
+  await write(res, "[");
+  for await (const placement of placements) {
+    const row = Object.fromEntries(columns.map((column) => [column, exportValue(placement, column)]));
+    await write(res, separator + JSON.stringify(row));
+    separator = ",\n";
+  }
+  await write(res, "]\n");
+  res.end();
+}
+
+const dateColumns = new Set<ExportColumn>(["startDate", "endDate", "createdAt", "updatedAt"]);
+
+async function writeXlsx(res: Response, placements: AsyncIterable<MarketingPlacement>, columns: ExportColumn[]) {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: res, useStyles: true, useSharedStrings: false });
+  const sheet = workbook.addWorksheet("Campaigns");
+  sheet.columns = columns.map((column) => ({
+    header: exportColumnLabels[column],
+    key: column,
+    width: 20,
+    style: dateColumns.has(column) ? { numFmt: "yyyy-mm-dd" } : {},
+  }));
+  for await (const placement of placements) {
+    const row: Record<string, ExportValue | Date> = {};
+    for (const column of columns) {
+      const value = placement[column];
+      // Real dates so spreadsheet date formatting and sorting work
+      row[column] = value instanceof Date ? value : exportValue(placement, column);
+    }
+    sheet.addRow(row).commit();
+  }
+  if (res.destroyed) return;
+  sheet.commit();
+  await workbook.commit();
+}
+
+// Streams every placement matching the Campaign Center filters as a file download
+export async function streamPlacementExport(query: PlacementExportQuery, res: Response): Promise<void> {
+  const columns = query.columns?.length ? query.columns : defaultExportColumns;
+  const fileName = `campaigns-${new Date().toISOString().slice(0, 10)}.${query.format}`;
+  res.setHeader("Content-Type", contentTypes[query.format]);
+  res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+
+  const placements = matchingPlacements(query, res);
+  if (query.format === "xlsx") {
+    await writeXlsx(res, placements, columns);
+  } else if (query.format === "json") {
+    await writeJson(res, placements, columns);
+  } else {
+    await writeCsv(res, placements, columns);
+  }
+}
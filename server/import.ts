@@ -0,0 +1,48 @@
+import { getEffectiveTaxonomy } from "./taxonomy";
+import { createTrackedPlacements } from "./tracking";
+import { createPlacementSchema, toFieldErrors } from "@shared/validation";
+import { importRowToPlacementInput, type ImportReport, type ImportRow } from "@shared/import";
+import type { InsertMarketingPlacement, MarketingPlacement } from "@shared/schema";
+
+export class ImportError extends Error {
+  constructor(
+    message: string,
+    public status = 422,
+    public report?: ImportReport,
+  ) {
+    super(message);
+    this.name = "ImportError";
+  }
+}
+
+// Checks every row against the placement schema and the current taxonomy
+async function validateRows(rows: ImportRow[]): Promise<{ report: ImportReport; placements: InsertMarketingPlacement[] }> {
+  const schema = createPlacementSchema(await getEffectiveTaxonomy());
+  const report: ImportReport = { valid: 0, invalid: 0, rows: [] };
+  const placements: InsertMarketingPlacement[] = [];
+
+  rows.forEach((row, index) => {
+    const result = schema.safeParse(importRowToPlacementInput(row));
+    if (result.success) {
+      report.valid++;
+      placements.push(result.data);
+    } else {
+      report.invalid++;
+      report.rows.push({ row: index + 1, errors: toFieldErrors(result.error) });
+    }
+  });
+  return { report, placements };
+}
+
+export async function validateImport(rows: ImportRow[]): Promise<ImportReport> {
+  return (await validateRows(rows)).report;
+}
+
+// Creates a placement per row, or none at all if any row is invalid
+export async function importPlacements(rows: ImportRow[], actorId?: string): Promise<MarketingPlacement[]> {
+  const { report, placements } = await validateRows(rows);
+  if (report.invalid > 0) {
+    throw new ImportError(`${report.invalid} of ${rows.length} rows have errors, fix them and try again`, 422, report);
+  }
+  return await createTrackedPlacements(placements, actorId);
+}
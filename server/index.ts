@@ -1,9 +1,19 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { seedTaxonomyIfEmpty } from "./taxonomy";
+import { startScheduler } from "./scheduler";
+import { startClickRollups } from "./clickRollups";
+import { protectAuditLog } from "./audit";
+import { ensureSearchIndexes } from "./search";
+import { checkAuthConfig } from "./auth";
 
 const app = express();
-app.use(express.json());
+// The app sits behind the platform's proxy, so the client address is the
+// last one it adds to X-Forwarded-For. Click tracking hashes it per visitor.
+app.set("trust proxy", parseInt(process.env.TRUST_PROXY_HOPS || "", 10) || 1);
+// Bulk imports send up to MAX_IMPORT_ROWS placements in one request
+app.use(express.json({ limit: "2mb" }));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -37,6 +47,10 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  checkAuthConfig();
+  await protectAuditLog();
+  await ensureSearchIndexes();
+  await seedTaxonomyIfEmpty();
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -67,5 +81,7 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    startScheduler();
+    startClickRollups();
   });
 })();
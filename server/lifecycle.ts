@@ -0,0 +1,79 @@
+import { storage } from "./storage";
+import { isApprovalSatisfied } from "./approvals";
+import { hasEnded, placementActions, type PlacementAction, type PlacementActionName } from "@shared/lifecycle";
+import { placementSchema, placementToFormValues, toFieldErrors, type FieldErrors } from "@shared/validation";
+import type { MarketingPlacement, PlacementStatus } from "@shared/schema";
+import type { Permission } from "@shared/permissions";
+
+export class LifecycleError extends Error {
+  constructor(
+    message: string,
+    public status = 409,
+    public fieldErrors?: FieldErrors,
+  ) {
+    super(message);
+    this.name = "LifecycleError";
+  }
+}
+
+// Who is performing a transition. Scheduled transitions have no actor id.
+export interface Actor {
+  id?: string;
+  permissions: readonly Permission[];
+}
+
+async function checkGuards(placement: MarketingPlacement, action: PlacementAction, actor: Actor) {
+  if (action.permission && !actor.permissions.includes(action.permission)) {
+    throw new LifecycleError(`You do not have the ${action.permission} permission`, 403);
+  }
+
+  const goesLive = action.to === "active" || action.to === "scheduled";
+  if (goesLive && hasEnded(placement.endDate)) {
+    throw new LifecycleError("The campaign end date has already passed");
+  }
+
+  if (goesLive && !(await isApprovalSatisfied(placement))) {
+    throw new LifecycleError(
+      placement.approvalStatus === "pending"
+        ? "This campaign is still awaiting approval"
+        : "This campaign needs approval before it can go live",
+    );
+  }
+
+  if (action.requiresComplete) {
+    const result = placementSchema.safeParse(placementToFormValues(placement));
+    if (!result.success) {
+      throw new LifecycleError("Complete all required fields first", 422, toFieldErrors(result.error));
+    }
+  }
+}
+
+export async function transitionPlacement(
+  placementId: string,
+  actionName: PlacementActionName,
+  actor: Actor,
+  reason?: string,
+): Promise<MarketingPlacement> {
+  const action: PlacementAction = placementActions[actionName];
+  const placement = await storage.getMarketingPlacement(placementId);
+  if (!placement) {
+    throw new LifecycleError("Placement not found", 404);
+  }
+
+  const fromStatus = (placement.status ?? "draft") as PlacementStatus;
+  if (!action.from.includes(fromStatus)) {
+    throw new LifecycleError(`Cannot ${actionName} a ${fromStatus} campaign`);
+  }
+  await checkGuards(placement, action, actor);
+
+  const updated = await storage.transitionPlacementStatus(placement.id, fromStatus, {
+    action: actionName,
+    toStatus: action.to,
+    reason,
+    actorId: actor.id,
+  });
+  if (!updated) {
+    throw new LifecycleError("The campaign status was changed by someone else, please reload");
+  }
+  return updated;
+}
@@ -0,0 +1,67 @@
+import { storage } from "./storage";
+import type { PlacementPage } from "@shared/placementQuery";
+import { placementDateSortFields, type PlacementQuery, type PlacementSortField } from "@shared/schema";
+
+export class PlacementQueryError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+  ) {
+    super(message);
+    this.name = "PlacementQueryError";
+  }
+}
+
+interface Cursor {
+  sort: string;
+  key: string[];
+}
+
+const sortSignature = (query: PlacementQuery) =>
+  query.sort.map(({ field, direction }) => `${field}:${direction}`).join(",");
+
+function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+// A cursor is only valid for the sort order it was issued for
+function decodeCursor(value: string, query: PlacementQuery): string[] {
+  let cursor: Partial<Cursor>;
+  try {
+    cursor = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+  } catch {
+    throw new PlacementQueryError("Invalid cursor");
+  }
+  if (cursor.sort !== sortSignature(query)) {
+    throw new PlacementQueryError("The cursor was issued for a different sort order");
+  }
+  const key = cursor.key;
+  if (!Array.isArray(key) || key.length !== query.sort.length + 1 || !key.every((part) => typeof part === "string")) {
+    throw new PlacementQueryError("Invalid cursor");
+  }
+  // Date keys go into a timestamp comparison, which would fail on anything
+  // but the ISO dates cursors are issued with
+  if (query.sort.some(({ field }, i) => isDateSortField(field) && !isIsoDate(key[i]))) {
+    throw new PlacementQueryError("Invalid cursor");
+  }
+  return key;
+}
+
+function isIsoDate(value: string): boolean {
+  const date = new Date(value);
+  return !Number.isNaN(date.getTime()) && date.toISOString() === value;
+}
+
+function isDateSortField(field: PlacementSortField): boolean {
+  return (placementDateSortFields as readonly string[]).includes(field);
+}
+
+export async function queryPlacements(query: PlacementQuery): Promise<PlacementPage> {
+  const after = query.cursor ? decodeCursor(query.cursor, query) : undefined;
+  const { items, total, nextKey } = await storage.queryMarketingPlacements(query, after);
+  return {
+    items,
+    total,
+    nextCursor: nextKey ? encodeCursor({ sort: sortSignature(query), key: nextKey }) : null,
+  };
+}
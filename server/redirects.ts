@@ -0,0 +1,147 @@
+import { createHash, randomInt, randomUUID } from "crypto";
+import { storage } from "./storage";
+import { isUniqueViolation } from "./tracking";
+import { classifyUserAgent, clickIdParam, fallbackRedirectStatuses } from "@shared/clicks";
+import type { MarketingPlacement, PlacementStatus } from "@shared/schema";
+
+export class ShortLinkError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+  ) {
+    super(message);
+    this.name = "ShortLinkError";
+  }
+}
+
+const SHORT_SLUG_CONSTRAINT = "marketing_placements_short_slug_unique";
+const REDIRECT_FALLBACK_SETTING = "redirectFallbackUrl";
+// Generated slugs avoid characters that are easy to misread
+const SLUG_ALPHABET = "abcdefghjkmnpqrstuvwxyz23456789";
+const GENERATED_SLUG_LENGTH = 7;
+const MAX_SLUG_ATTEMPTS = 5;
+
+// Set CLICK_IP_SALT in production: without a secret salt a hashed IPv4
+// address can be recovered by hashing every possible address.
+const ipSalt = process.env.CLICK_IP_SALT ?? "";
+
+// First-party cookie naming the browser, set by the redirect and read back
+// by the conversion pixel
+export const VISITOR_COOKIE = "cm_visitor";
+export const VISITOR_COOKIE_MAX_AGE_MS = 365 * 24 * 60 * 60 * 1000;
+
+export interface ClickRequest {
+  ip?: string;
+  referrer?: string;
+  userAgent?: string;
+  visitorId?: string;
+}
+
+// The visitor ID from a Cookie header, if it holds a valid one
+export function readVisitorId(cookieHeader: string | undefined): string | undefined {
+  for (const part of cookieHeader?.split(";") ?? []) {
+    const [name, value] = part.trim().split("=");
+    if (name === VISITOR_COOKIE && /^[0-9a-f-]{36}$/i.test(value ?? "")) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+function hashIp(ip: string | undefined): string | null {
+  return ip ? createHash("sha256").update(`${ipSalt}:${ip}`).digest("hex") : null;
+}
+
+// Where paused and archived campaigns send their visitors: the admin setting,
+// then REDIRECT_FALLBACK_URL, then the site root
+export async function getRedirectFallback(): Promise<{ url: string; effectiveUrl: string }> {
+  const url = (await storage.getUiSetting(REDIRECT_FALLBACK_SETTING)) ?? "";
+  return { url, effectiveUrl: url || process.env.REDIRECT_FALLBACK_URL || "/" };
+}
+
+export async function setRedirectFallbackUrl(url: string): Promise<void> {
+  await storage.setUiSetting(REDIRECT_FALLBACK_SETTING, url || null);
+}
+
+// Resolve a tracking code or short slug to the URL to send the visitor to, and
+// log the click. Unknown codes resolve to undefined.
+export async function resolveRedirect(code: string, click: ClickRequest): Promise<string | undefined> {
+  let placement: MarketingPlacement | undefined = await storage.getPlacementByTrackingCode(code);
+  const viaShortLink = !placement;
+  placement ??= await storage.getPlacementByShortSlug(code.toLowerCase());
+  if (!placement) {
+    return undefined;
+  }
+
+  const fallback =
+    fallbackRedirectStatuses.includes(placement.status as PlacementStatus) || !placement.fullTrackingUrl;
+
+  // The ID is picked here so the redirect can carry it before the click is saved
+  const clickId = randomUUID();
+
+  // Logging must not hold up or break the redirect
+  storage
+    .recordClickEvent({
+      id: clickId,
+      placementId: placement.id,
+      referrer: click.referrer || null,
+      userAgentClass: classifyUserAgent(click.userAgent),
+      ipHash: hashIp(click.ip),
+      visitorId: click.visitorId ?? null,
+      viaShortLink,
+      fallback,
+    })
+    .catch((error) => console.error("Error recording click:", error));
+
+  return fallback ? (await getRedirectFallback()).effectiveUrl : withClickId(placement.fullTrackingUrl!, clickId);
+}
+
+// Tracking URLs that cannot be parsed are passed through untouched
+function withClickId(url: string, clickId: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.searchParams.set(clickIdParam, clickId);
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+}
+
+function generateSlug(): string {
+  return Array.from({ length: GENERATED_SLUG_LENGTH }, () => SLUG_ALPHABET[randomInt(SLUG_ALPHABET.length)]).join("");
+}
+
+// Give a placement a short slug, generated unless one is asked for. Slugs are
+// stored in lower case and may not shadow another campaign's tracking code.
+export async function setShortLink(placementId: string, slug: string | undefined, actorId?: string): Promise<MarketingPlacement> {
+  const placement = await storage.getMarketingPlacement(placementId);
+  if (!placement) {
+    throw new ShortLinkError("Placement not found", 404);
+  }
+
+  for (let attempt = 1; ; attempt++) {
+    const candidate = slug?.toLowerCase() ?? generateSlug();
+    const shadowed = await storage.getPlacementByTrackingCode(candidate);
+    try {
+      if (shadowed && shadowed.id !== placement.id) {
+        throw new ShortLinkError("This short link is already a tracking code", 409);
+      }
+      return await storage.updateMarketingPlacement(placement.id, { shortSlug: candidate }, actorId);
+    } catch (error) {
+      const taken = error instanceof ShortLinkError || isUniqueViolation(error, SHORT_SLUG_CONSTRAINT);
+      if (!taken) throw error;
+      // A generated slug that is taken is simply replaced by another one
+      if (slug || attempt >= MAX_SLUG_ATTEMPTS) {
+        throw error instanceof ShortLinkError ? error : new ShortLinkError("This short link is already taken", 409);
+      }
+    }
+  }
+}
+
+export async function removeShortLink(placementId: string, actorId?: string): Promise<void> {
+  const placement = await storage.getMarketingPlacement(placementId);
+  if (!placement) {
+    throw new ShortLinkError("Placement not found", 404);
+  }
+  await storage.updateMarketingPlacement(placement.id, { shortSlug: null }, actorId);
+}
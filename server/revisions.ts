@@ -0,0 +1,78 @@
+import { storage } from "./storage";
+import { getEffectiveTaxonomy } from "./taxonomy";
+import { buildPlacementTrackingUrl } from "./tracking";
+import { checkLiveEditApproval, resetApprovalIfChanged } from "./approvals";
+import { checkPlacementTemplateLocks } from "./templates";
+import { createPlacementSchema, toFieldErrors, type FieldErrors } from "@shared/validation";
+import { changedRevisionFields, revisionFields, toPlacementSnapshot } from "@shared/revisions";
+import type { MarketingPlacement } from "@shared/schema";
+
+export class RevisionError extends Error {
+  constructor(
+    message: string,
+    public status = 409,
+    public fieldErrors?: FieldErrors,
+  ) {
+    super(message);
+    this.name = "RevisionError";
+  }
+}
+
+// Put a placement's editable fields back to an earlier revision. The restored
+// values are validated like any other edit, so a revision that relied on since
+// retired taxonomy options has to be fixed by hand instead.
+export async function restoreRevision(
+  placementId: string,
+  revisionNumber: number,
+  actorId?: string,
+): Promise<MarketingPlacement> {
+  const placement = await storage.getMarketingPlacement(placementId);
+  if (!placement) {
+    throw new RevisionError("Placement not found", 404);
+  }
+  const revision = await storage.getPlacementRevision(placementId, revisionNumber);
+  if (!revision) {
+    throw new RevisionError("Revision not found", 404);
+  }
+
+  const changed = changedRevisionFields(toPlacementSnapshot(placement), revision.snapshot);
+  if (changed.length === 0) {
+    throw new RevisionError("The campaign already matches this revision");
+  }
+
+  // Nulls become undefined so optional fields validate the same way as in the form
+  const values = Object.fromEntries(
+    Object.entries(revision.snapshot).filter(([, value]) => value !== null && value !== undefined),
+  );
+  const taxonomy = await getEffectiveTaxonomy();
+  const result = createPlacementSchema(taxonomy, changed).safeParse(values);
+  if (!result.success) {
+    throw new RevisionError(
+      `Revision ${revisionNumber} no longer passes validation`,
+      422,
+      toFieldErrors(result.error),
+    );
+  }
+
+  await checkPlacementTemplateLocks(placement.templateId, values, changed);
+
+  // Fields the revision left unset are cleared again
+  const updates: Partial<MarketingPlacement> = {};
+  for (const field of revisionFields) {
+    Object.assign(updates, { [field]: result.data[field] ?? null });
+  }
+
+  await checkLiveEditApproval(placement, updates);
+
+  const fullTrackingUrl = await buildPlacementTrackingUrl({ ...placement, ...updates });
+  const restored = await storage.updateMarketingPlacement(
+    placement.id,
+    { ...updates, fullTrackingUrl },
+    actorId,
+    revisionNumber,
+  );
+  if (await resetApprovalIfChanged(placement, updates, actorId)) {
+    return { ...restored, approvalStatus: null };
+  }
+  return restored;
+}
@@ -1,11 +1,190 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
+import { randomUUID } from "crypto";
 import { storage } from "./storage";
-import { insertPartnerSchema, insertThirdPartySchema } from "@shared/schema";
+import {
+  insertPartnerSchema,
+  insertThirdPartySchema,
+  insertMarketingPlacementSchema,
+  insertChannelTypeSchema,
+  trackingUrlTemplateSchema,
+  insertTaxonomyNodeSchema,
+  updateTaxonomyNodeSchema,
+  publishTaxonomyVersionSchema,
+  insertCategorySchema,
+  auditQuerySchema,
+  placementQuerySchema,
+  searchQuerySchema,
+  placementImportSchema,
+  placementVariantsSchema,
+  shortLinkSchema,
+  redirectFallbackSchema,
+  clickRollupRangeSchema,
+  analyticsQuerySchema,
+  analyticsBreakdownQuerySchema,
+  conversionReportSchema,
+  attributionSettingsSchema,
+  placementExportSchema,
+  insertExportPresetSchema,
+  insertCampaignTemplateSchema,
+  insertCampaignDraftSchema,
+  updateCampaignDraftSchema,
+  insertApprovalRuleSchema,
+  updateApprovalRuleSchema,
+  approvalDecisionSchema,
+  approvalRejectionSchema,
+} from "@shared/schema";
+import { ZodError } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { createPlacementSchema, placementToFormValues, toValidationErrorResponse } from "@shared/validation";
+import { userPlacementActions } from "@shared/lifecycle";
+import { authenticate, getUserPermissions, requireAnyPermission, requirePermission, toAuthUser } from "./auth";
+import { hasPermission } from "@shared/permissions";
+import { approverPermissions } from "@shared/approvals";
+import { LifecycleError, transitionPlacement } from "./lifecycle";
+import {
+  TaxonomyError,
+  addTaxonomyNode,
+  editTaxonomyNode,
+  getEffectiveTaxonomy,
+  publishTaxonomyVersion,
+} from "./taxonomy";
+import { createTrackedPlacement, buildPlacementTrackingUrl, isUniqueViolation } from "./tracking";
+import { runScheduler } from "./scheduler";
+import {
+  ApprovalError,
+  checkLiveEditApproval,
+  decideApproval,
+  getPlacementApprovals,
+  resetApprovalIfChanged,
+  submitForApproval,
+} from "./approvals";
+import { RevisionError, restoreRevision } from "./revisions";
+import { PlacementQueryError, queryPlacements } from "./placementQuery";
+import { searchPlacements } from "./search";
+import { ImportError, importPlacements, validateImport } from "./import";
+import { streamPlacementExport } from "./export";
+import {
+  TemplateError,
+  checkPlacementTemplateLocks,
+  checkTemplateLocks,
+  deleteTemplate,
+  getUsableTemplate,
+  updateTemplate,
+} from "./templates";
+import { DraftError, createDraft, saveDraft } from "./drafts";
+import { VariantError, createPlacementVariants } from "./variants";
+import {
+  ShortLinkError,
+  VISITOR_COOKIE,
+  VISITOR_COOKIE_MAX_AGE_MS,
+  getRedirectFallback,
+  readVisitorId,
+  removeShortLink,
+  resolveRedirect,
+  setRedirectFallbackUrl,
+  setShortLink,
+} from "./redirects";
+import { ClickRollupError, runClickRollups } from "./clickRollups";
+import {
+  ConversionError,
+  checkConversionApiKey,
+  getAttributionSettings,
+  isConversionApiConfigured,
+  recordConversion,
+  setAttributionSettings,
+} from "./conversions";
+import { getAnalyticsBreakdown, getAnalyticsSummary, getAnalyticsTimeseries, getRecentActivity } from "./analytics";
+
+// 1x1 transparent GIF served by the conversion pixel
+const TRANSPARENT_GIF = Buffer.from("R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7", "base64");
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Public click-tracking redirect: /r/<tracking code or short slug>
+  app.get("/r/:code", async (req, res) => {
+    try {
+      const visitorId = readVisitorId(req.get("cookie")) ?? randomUUID();
+      const url = await resolveRedirect(req.params.code, {
+        ip: req.ip,
+        referrer: req.get("referer"),
+        userAgent: req.get("user-agent"),
+        visitorId,
+      });
+      if (!url) {
+        return res.status(404).type("text/plain").send("Link not found");
+      }
+      // The pixel is loaded from the advertiser's pages, so over HTTPS the
+      // cookie has to be sent on cross-site requests
+      res.cookie(VISITOR_COOKIE, visitorId, {
+        maxAge: VISITOR_COOKIE_MAX_AGE_MS,
+        httpOnly: true,
+        secure: req.secure,
+        sameSite: req.secure ? "none" : "lax",
+      });
+      // Every click has to reach the server to be counted
+      res.set("Cache-Control", "no-store");
+      res.redirect(302, url);
+    } catch (error) {
+      console.error("Error redirecting:", error);
+      res.status(500).type("text/plain").send("Something went wrong");
+    }
+  });
+
+  // Conversion reporting comes from advertisers rather than signed-in users,
+  // so these two routes are registered ahead of the sign-in check. Servers
+  // post with the CONVERSION_API_KEY as a bearer token; the idempotency key
+  // may also be sent as an Idempotency-Key header.
+  app.post("/api/conversions", async (req, res) => {
+    try {
+      checkConversionApiKey(req.get("authorization"));
+      const report = conversionReportSchema.parse({ idempotencyKey: req.get("idempotency-key"), ...req.body });
+      const result = await recordConversion(report, "api");
+      res.status(result.created ? 201 : 200).json(result);
+    } catch (error) {
+      console.error("Error recording conversion:", error);
+      if (error instanceof ConversionError) {
+        res.status(error.status).json({ error: error.message });
+      } else if (error instanceof ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else {
+        res.status(500).json({ error: "Failed to record conversion" });
+      }
+    }
+  });
+
+  // Image pixel for landing pages: the same fields as query parameters. It
+  // always answers 200 with the image so a failed report never shows as
+  // broken; the status the API would have given is in X-Conversion-Status.
+  app.get("/api/conversions/pixel.gif", async (req, res) => {
+    let status = 200;
+    try {
+      const report = conversionReportSchema.parse(req.query);
+      const result = await recordConversion(report, "pixel", readVisitorId(req.get("cookie")));
+      status = result.created ? 201 : 200;
+    } catch (error) {
+      console.error("Error recording pixel conversion:", error);
+      status = error instanceof ConversionError ? error.status : error instanceof ZodError ? 400 : 500;
+    }
+    res.set({ "Cache-Control": "no-store", "X-Conversion-Status": String(status) });
+    res.status(200).type("image/gif").send(TRANSPARENT_GIF);
+  });
+
+  // Every API route requires a signed-in user
+  app.use("/api", authenticate);
+
+  app.get("/api/auth/user", (req, res) => {
+    res.json(toAuthUser(req.user!));
+  });
+
+  const canView = requirePermission("campaigns:view");
+  const canEdit = requirePermission("campaigns:edit");
+  const canManageSettings = requirePermission("settings:manage");
+  const canViewAnalytics = requirePermission("analytics:view");
+  // Which approver role a request needs is checked by decideApproval()
+  const canApprove = requireAnyPermission(Object.values(approverPermissions));
+
   // Partner routes
-  app.get("/api/partners", async (req, res) => {
+  app.get("/api/partners", canView, async (req, res) => {
     try {
       const partners = await storage.getPartners();
       res.json(partners);
@@ -15,7 +194,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/partners", async (req, res) => {
+  app.post("/api/partners", canEdit, async (req, res) => {
     try {
       const partnerData = insertPartnerSchema.parse(req.body);
       
@@ -25,7 +204,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(409).json({ error: "Partner name already exists" });
       }
       
-      const partner = await storage.createPartner(partnerData);
+      const partner = await storage.createPartner(partnerData, req.user?.id);
       res.status(201).json(partner);
     } catch (error) {
       console.error("Error creating partner:", error);
@@ -37,7 +216,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/partners/check", async (req, res) => {
+  app.post("/api/partners/check", canEdit, async (req, res) => {
     try {
       const { name } = req.body;
       if (!name) {
@@ -53,7 +232,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Third party routes
-  app.get("/api/third-parties", async (req, res) => {
+  app.get("/api/third-parties", canView, async (req, res) => {
     try {
       const thirdParties = await storage.getThirdParties();
       res.json(thirdParties);
@@ -63,7 +242,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/third-parties", async (req, res) => {
+  app.post("/api/third-parties", canEdit, async (req, res) => {
     try {
       const thirdPartyData = insertThirdPartySchema.parse(req.body);
       
@@ -73,7 +252,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(409).json({ error: "Third party name already exists" });
       }
       
-      const thirdParty = await storage.createThirdParty(thirdPartyData);
+      const thirdParty = await storage.createThirdParty(thirdPartyData, req.user?.id);
       res.status(201).json(thirdParty);
     } catch (error) {
       console.error("Error creating third party:", error);
@@ -85,7 +264,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/third-parties/check", async (req, res) => {
+  app.post("/api/third-parties/check", canEdit, async (req, res) => {
     try {
       const { name } = req.body;
       if (!name) {
@@ -100,6 +279,998 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Taxonomy routes
+  app.get("/api/taxonomy", canView, async (req, res) => {
+    try {
+      const at = typeof req.query.at === "string" ? new Date(req.query.at) : new Date();
+      if (isNaN(at.getTime())) {
+        return res.status(400).json({ error: "Invalid date" });
+      }
+      res.json(await getEffectiveTaxonomy(at));
+    } catch (error) {
+      console.error("Error fetching taxonomy:", error);
+      res.status(500).json({ error: "Failed to fetch taxonomy" });
+    }
+  });
+
+  app.get("/api/taxonomy/versions/:id", canView, async (req, res) => {
+    try {
+      const version = await storage.getTaxonomyVersion(req.params.id);
+      if (!version) {
+        return res.status(404).json({ error: "Taxonomy version not found" });
+      }
+      res.json(version);
+    } catch (error) {
+      console.error("Error fetching taxonomy version:", error);
+      res.status(500).json({ error: "Failed to fetch taxonomy version" });
+    }
+  });
+
+  // Admin taxonomy routes
+  app.get("/api/admin/taxonomy/nodes", canManageSettings, async (req, res) => {
+    try {
+      const nodes = await storage.getTaxonomyNodes();
+      res.json(nodes);
+    } catch (error) {
+      console.error("Error fetching taxonomy nodes:", error);
+      res.status(500).json({ error: "Failed to fetch taxonomy nodes" });
+    }
+  });
+
+  app.post("/api/admin/taxonomy/nodes", canManageSettings, async (req, res) => {
+    try {
+      const nodeData = insertTaxonomyNodeSchema.parse(req.body);
+      const node = await addTaxonomyNode(nodeData, req.user?.id);
+      res.status(201).json(node);
+    } catch (error) {
+      console.error("Error creating taxonomy node:", error);
+      if (error instanceof ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else if (error instanceof TaxonomyError) {
+        res.status(error.status).json({ error: error.message });
+      } else if (isUniqueViolation(error)) {
+        res.status(409).json({ error: "A node with this name already exists here" });
+      } else {
+        res.status(500).json({ error: "Failed to create taxonomy node" });
+      }
+    }
+  });
+
+  app.patch("/api/admin/taxonomy/nodes/:id", canManageSettings, async (req, res) => {
+    try {
+      const nodeData = updateTaxonomyNodeSchema.parse(req.body);
+      const node = await editTaxonomyNode(req.params.id, nodeData, req.user?.id);
+      res.json(node);
+    } catch (error) {
+      console.error("Error updating taxonomy node:", error);
+      if (error instanceof ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else if (error instanceof TaxonomyError) {
+        res.status(error.status).json({ error: error.message });
+      } else if (isUniqueViolation(error)) {
+        res.status(409).json({ error: "A node with this name already exists here" });
+      } else {
+        res.status(500).json({ error: "Failed to update taxonomy node" });
+      }
+    }
+  });
+
+  app.get("/api/admin/taxonomy/versions", canManageSettings, async (req, res) => {
+    try {
+      const versions = await storage.getTaxonomyVersions();
+      res.json(versions);
+    } catch (error) {
+      console.error("Error fetching taxonomy versions:", error);
+      res.status(500).json({ error: "Failed to fetch taxonomy versions" });
+    }
+  });
+
+  app.post("/api/admin/taxonomy/versions", canManageSettings, async (req, res) => {
+    try {
+      const versionData = publishTaxonomyVersionSchema.parse(req.body);
+      const version = await publishTaxonomyVersion(versionData, req.user?.id);
+      res.status(201).json(version);
+    } catch (error) {
+      console.error("Error publishing taxonomy version:", error);
+      if (error instanceof ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else if (isUniqueViolation(error)) {
+        res.status(409).json({ error: "Another version was published at the same time, please try again" });
+      } else {
+        res.status(500).json({ error: "Failed to publish taxonomy version" });
+      }
+    }
+  });
+
+  // Channel type routes
+  app.get("/api/channel-types", canView, async (req, res) => {
+    try {
+      const channelTypes = await storage.getChannelTypes();
+      res.json(channelTypes);
+    } catch (error) {
+      console.error("Error fetching channel types:", error);
+      res.status(500).json({ error: "Failed to fetch channel types" });
+    }
+  });
+
+  app.post("/api/channel-types", canManageSettings, async (req, res) => {
+    try {
+      const channelTypeData = insertChannelTypeSchema.parse(req.body);
+      const channelType = await storage.createChannelType(channelTypeData, req.user?.id);
+      res.status(201).json(channelType);
+    } catch (error) {
+      console.error("Error creating channel type:", error);
+      if (error instanceof ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else if (isUniqueViolation(error)) {
+        res.status(409).json({ error: "Channel type name or prefix already exists" });
+      } else {
+        res.status(500).json({ error: "Failed to create channel type" });
+      }
+    }
+  });
+
+  // Templates only apply to placements saved afterwards; URLs that were
+  // already generated may be live and are left untouched
+  app.put("/api/channel-types/:id/template", canManageSettings, async (req, res) => {
+    try {
+      const trackingTemplate = trackingUrlTemplateSchema.nullable().parse(req.body.trackingTemplate ?? null);
+      const channelType = await storage.updateChannelType(req.params.id, { trackingTemplate }, req.user?.id);
+      if (!channelType) {
+        return res.status(404).json({ error: "Channel type not found" });
+      }
+      res.json(channelType);
+    } catch (error) {
+      console.error("Error updating tracking template:", error);
+      if (error instanceof ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else {
+        res.status(500).json({ error: "Failed to update tracking template" });
+      }
+    }
+  });
+
+  // Category routes
+  app.get("/api/categories", canView, async (req, res) => {
+    try {
+      const categories = await storage.getCategories();
+      res.json(categories);
+    } catch (error) {
+      console.error("Error fetching categories:", error);
+      res.status(500).json({ error: "Failed to fetch categories" });
+    }
+  });
+
+  app.post("/api/categories", canManageSettings, async (req, res) => {
+    try {
+      const categoryData = insertCategorySchema.parse(req.body);
+      const category = await storage.createCategory(categoryData, req.user?.id);
+      res.status(201).json(category);
+    } catch (error) {
+      console.error("Error creating category:", error);
+      if (error instanceof ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else if (isUniqueViolation(error)) {
+        res.status(409).json({ error: "Category name already exists" });
+      } else {
+        res.status(500).json({ error: "Failed to create category" });
+      }
+    }
+  });
+
+  app.patch("/api/categories/:id", canManageSettings, async (req, res) => {
+    try {
+      const categoryData = insertCategorySchema.partial().parse(req.body);
+      const category = await storage.updateCategory(req.params.id, categoryData, req.user?.id);
+      if (!category) {
+        return res.status(404).json({ error: "Category not found" });
+      }
+      res.json(category);
+    } catch (error) {
+      console.error("Error updating category:", error);
+      if (error instanceof ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else if (isUniqueViolation(error)) {
+        res.status(409).json({ error: "Category name already exists" });
+      } else {
+        res.status(500).json({ error: "Failed to update category" });
+      }
+    }
+  });
+
+  // Audit log. The history of a single entity is open to every viewer;
+  // browsing across entities is for admins.
+  app.get("/api/audit", canView, async (req, res) => {
+    try {
+      const query = auditQuerySchema.parse(req.query);
+      if (!query.entityId && !hasPermission(getUserPermissions(req.user), "settings:manage")) {
+        return res.status(403).json({ error: "You do not have the settings:manage permission" });
+      }
+      const entries = await storage.getAuditEntries(query);
+      res.json(entries);
+    } catch (error) {
+      console.error("Error fetching audit log:", error);
+      if (error instanceof ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else {
+        res.status(500).json({ error: "Failed to fetch audit log" });
+      }
+    }
+  });
+
+  // Global search over campaigns, tracking codes and URLs
+  app.get("/api/search", canView, async (req, res) => {
+    try {
+      const { q, limit } = searchQuerySchema.parse(req.query);
+      res.json(await searchPlacements(q, limit));
+    } catch (error) {
+      console.error("Error searching placements:", error);
+      if (error instanceof ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else {
+        res.status(500).json({ error: "Failed to search" });
+      }
+    }
+  });
+
+  // Marketing placement routes
+  app.get("/api/placements", canView, async (req, res) => {
+    try {
+      const placements = await storage.getMarketingPlacements();
+      res.json(placements);
+    } catch (error) {
+      console.error("Error fetching placements:", error);
+      res.status(500).json({ error: "Failed to fetch placements" });
+    }
+  });
+
+  // Filtered, sorted and paginated placements for the Campaign Center
+  app.get("/api/placements/query", canView, async (req, res) => {
+    try {
+      const query = placementQuerySchema.parse(req.query);
+      res.json(await queryPlacements(query));
+    } catch (error) {
+      console.error("Error querying placements:", error);
+      if (error instanceof ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else if (error instanceof PlacementQueryError) {
+        res.status(error.status).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: "Failed to query placements" });
+      }
+    }
+  });
+
+  // Streams the placements matching the Campaign Center filters as CSV, XLSX or JSON
+  app.get("/api/placements/export", canView, async (req, res) => {
+    try {
+      const query = placementExportSchema.parse(req.query);
+      await streamPlacementExport(query, res);
+    } catch (error) {
+      console.error("Error exporting placements:", error);
+      if (res.headersSent) {
+        // Part of the file is already out; cut it off so it is not mistaken for a complete export
+        res.destroy(error as Error);
+      } else if (error instanceof ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else {
+        res.status(500).json({ error: "Failed to export placements" });
+      }
+    }
+  });
+
+  app.get("/api/export-presets", canView, async (req, res) => {
+    try {
+      const presets = await storage.getExportPresets(req.user!.id);
+      res.json(presets);
+    } catch (error) {
+      console.error("Error fetching export presets:", error);
+      res.status(500).json({ error: "Failed to fetch export presets" });
+    }
+  });
+
+  app.post("/api/export-presets", canView, async (req, res) => {
+    try {
+      const presetData = insertExportPresetSchema.parse(req.body);
+      const preset = await storage.createExportPreset(req.user!.id, presetData);
+      res.status(201).json(preset);
+    } catch (error) {
+      console.error("Error creating export preset:", error);
+      if (error instanceof ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else if (isUniqueViolation(error)) {
+        res.status(409).json({ error: "You already have a preset with this name" });
+      } else {
+        res.status(500).json({ error: "Failed to create export preset" });
+      }
+    }
+  });
+
+  app.delete("/api/export-presets/:id", canView, async (req, res) => {
+    try {
+      if (!(await storage.deleteExportPreset(req.user!.id, req.params.id))) {
+        return res.status(404).json({ error: "Export preset not found" });
+      }
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting export preset:", error);
+      res.status(500).json({ error: "Failed to delete export preset" });
+    }
+  });
+
+  // Campaign templates: everyone sees their own and the shared ones, only the
+  // owner changes them
+  app.get("/api/templates", canView, async (req, res) => {
+    try {
+      const templates = await storage.getCampaignTemplates(req.user!.id);
+      res.json(templates);
+    } catch (error) {
+      console.error("Error fetching templates:", error);
+      res.status(500).json({ error: "Failed to fetch templates" });
+    }
+  });
+
+  app.get("/api/templates/:id", canView, async (req, res) => {
+    try {
+      const template = await getUsableTemplate(req.params.id, { id: req.user?.id, permissions: getUserPermissions(req.user) });
+      res.json(template);
+    } catch (error) {
+      console.error("Error fetching template:", error);
+      if (error instanceof TemplateError) {
+        res.status(error.status).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: "Failed to fetch template" });
+      }
+    }
+  });
+
+  app.post("/api/templates", canEdit, async (req, res) => {
+    try {
+      const templateData = insertCampaignTemplateSchema.parse(req.body);
+      const template = await storage.createCampaignTemplate(req.user!.id, templateData);
+      res.status(201).json(template);
+    } catch (error) {
+      console.error("Error creating template:", error);
+      if (error instanceof ZodError) {
+        res.status(400).json(toValidationErrorResponse(error));
+      } else {
+        res.status(500).json({ error: "Failed to create template" });
+      }
+    }
+  });
+
+  app.put("/api/templates/:id", canEdit, async (req, res) => {
+    try {
+      const templateData = insertCampaignTemplateSchema.parse(req.body);
+      const template = await updateTemplate(
+        req.params.id,
+        templateData,
+        { id: req.user?.id, permissions: getUserPermissions(req.user) },
+      );
+      res.json(template);
+    } catch (error) {
+      console.error("Error updating template:", error);
+      if (error instanceof ZodError) {
+        res.status(400).json(toValidationErrorResponse(error));
+      } else if (error instanceof TemplateError) {
+        res.status(error.status).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: "Failed to update template" });
+      }
+    }
+  });
+
+  app.delete("/api/templates/:id", canEdit, async (req, res) => {
+    try {
+      await deleteTemplate(req.params.id, { id: req.user?.id, permissions: getUserPermissions(req.user) });
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting template:", error);
+      if (error instanceof TemplateError) {
+        res.status(error.status).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: "Failed to delete template" });
+      }
+    }
+  });
+
+  // Campaign builder drafts, private to the user who started them
+  app.get("/api/drafts", canEdit, async (req, res) => {
+    try {
+      const drafts = await storage.getCampaignDrafts(req.user!.id);
+      res.json(drafts);
+    } catch (error) {
+      console.error("Error fetching drafts:", error);
+      res.status(500).json({ error: "Failed to fetch drafts" });
+    }
+  });
+
+  app.get("/api/drafts/:id", canEdit, async (req, res) => {
+    try {
+      const draft = await storage.getCampaignDraft(req.user!.id, req.params.id);
+      if (!draft) {
+        return res.status(404).json({ error: "Draft not found" });
+      }
+      res.json(draft);
+    } catch (error) {
+      console.error("Error fetching draft:", error);
+      res.status(500).json({ error: "Failed to fetch draft" });
+    }
+  });
+
+  app.post("/api/drafts", canEdit, async (req, res) => {
+    try {
+      const draftData = insertCampaignDraftSchema.parse(req.body);
+      const draft = await createDraft(req.user!.id, draftData);
+      res.status(201).json(draft);
+    } catch (error) {
+      console.error("Error creating draft:", error);
+      if (error instanceof ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else if (error instanceof DraftError) {
+        res.status(error.status).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: "Failed to create draft" });
+      }
+    }
+  });
+
+  app.put("/api/drafts/:id", canEdit, async (req, res) => {
+    try {
+      const draftData = updateCampaignDraftSchema.parse(req.body);
+      const draft = await saveDraft(req.user!.id, req.params.id, draftData);
+      res.json(draft);
+    } catch (error) {
+      console.error("Error saving draft:", error);
+      if (error instanceof ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else if (error instanceof DraftError) {
+        res.status(error.status).json({ error: error.message, draft: error.draft });
+      } else {
+        res.status(500).json({ error: "Failed to save draft" });
+      }
+    }
+  });
+
+  app.delete("/api/drafts/:id", canEdit, async (req, res) => {
+    try {
+      if (!(await storage.deleteCampaignDraft(req.user!.id, req.params.id))) {
+        return res.status(404).json({ error: "Draft not found" });
+      }
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting draft:", error);
+      res.status(500).json({ error: "Failed to delete draft" });
+    }
+  });
+
+  app.get("/api/placements/:id", canView, async (req, res) => {
+    try {
+      const placement = await storage.getMarketingPlacement(req.params.id);
+      if (!placement) {
+        return res.status(404).json({ error: "Placement not found" });
+      }
+      res.json(placement);
+    } catch (error) {
+      console.error("Error fetching placement:", error);
+      res.status(500).json({ error: "Failed to fetch placement" });
+    }
+  });
+
+  app.post("/api/placements", canEdit, async (req, res) => {
+    try {
+      const taxonomy = await getEffectiveTaxonomy();
+      const placementData = createPlacementSchema(taxonomy).parse(req.body);
+
+      // A campaign started from a template must keep the template's locked values
+      const templateId = typeof req.body?.templateId === "string" ? req.body.templateId : undefined;
+      if (templateId) {
+        const template = await getUsableTemplate(templateId, { id: req.user?.id, permissions: getUserPermissions(req.user) });
+        checkTemplateLocks(template, placementData, template.lockedFields);
+      }
+
+      const placement = await createTrackedPlacement({ ...placementData, templateId }, req.user?.id);
+
+      // The draft the campaign was built from is finished with
+      if (typeof req.body?.draftId === "string" && req.user) {
+        await storage.deleteCampaignDraft(req.user.id, req.body.draftId);
+      }
+      res.status(201).json(placement);
+    } catch (error) {
+      console.error("Error creating placement:", error);
+      if (error instanceof ZodError) {
+        res.status(400).json(toValidationErrorResponse(error));
+      } else if (error instanceof TemplateError) {
+        res.status(error.status).json({ error: error.message, fieldErrors: error.fieldErrors });
+      } else if (isUniqueViolation(error)) {
+        res.status(409).json({ error: "Could not allocate a unique tracking code, please try again" });
+      } else {
+        res.status(500).json({ error: "Failed to create placement" });
+      }
+    }
+  });
+
+  // Variants mode: one placement per source / ad type combination, under a parent campaign
+  app.post("/api/placements/variants", canEdit, async (req, res) => {
+    try {
+      const { placement, variants } = placementVariantsSchema.parse(req.body);
+      const templateId = typeof req.body?.templateId === "string" ? req.body.templateId : undefined;
+      const placements = await createPlacementVariants(
+        placement,
+        variants,
+        { id: req.user?.id, permissions: getUserPermissions(req.user) },
+        templateId,
+      );
+
+      if (typeof req.body?.draftId === "string" && req.user) {
+        await storage.deleteCampaignDraft(req.user.id, req.body.draftId);
+      }
+      res.status(201).json({ parentCampaignId: placements[0]?.parentCampaignId, placements });
+    } catch (error) {
+      console.error("Error creating placement variants:", error);
+      if (error instanceof ZodError) {
+        res.status(400).json(toValidationErrorResponse(error));
+      } else if (error instanceof VariantError) {
+        res.status(error.status).json({ error: error.message, variantErrors: error.variantErrors });
+      } else if (error instanceof TemplateError) {
+        res.status(error.status).json({ error: error.message, fieldErrors: error.fieldErrors });
+      } else if (isUniqueViolation(error)) {
+        res.status(409).json({ error: "Could not allocate unique tracking codes, please try again" });
+      } else {
+        res.status(500).json({ error: "Failed to create placement variants" });
+      }
+    }
+  });
+
+  app.get("/api/parent-campaigns/:id", canView, async (req, res) => {
+    try {
+      const parent = await storage.getParentCampaign(req.params.id);
+      if (!parent) {
+        return res.status(404).json({ error: "Parent campaign not found" });
+      }
+      const placements = await storage.getParentCampaignPlacements(parent.id);
+      res.json({ ...parent, placements });
+    } catch (error) {
+      console.error("Error fetching parent campaign:", error);
+      res.status(500).json({ error: "Failed to fetch parent campaign" });
+    }
+  });
+
+  app.put("/api/placements/:id/short-link", canEdit, async (req, res) => {
+    try {
+      const { slug } = shortLinkSchema.parse(req.body);
+      const placement = await setShortLink(req.params.id, slug, req.user?.id);
+      res.json(placement);
+    } catch (error) {
+      console.error("Error setting short link:", error);
+      if (error instanceof ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else if (error instanceof ShortLinkError) {
+        res.status(error.status).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: "Failed to set short link" });
+      }
+    }
+  });
+
+  app.delete("/api/placements/:id/short-link", canEdit, async (req, res) => {
+    try {
+      await removeShortLink(req.params.id, req.user?.id);
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error removing short link:", error);
+      if (error instanceof ShortLinkError) {
+        res.status(error.status).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: "Failed to remove short link" });
+      }
+    }
+  });
+
+  // Where links of paused and archived campaigns lead
+  app.get("/api/settings/redirect-fallback", canManageSettings, async (_req, res) => {
+    try {
+      res.json(await getRedirectFallback());
+    } catch (error) {
+      console.error("Error fetching redirect fallback:", error);
+      res.status(500).json({ error: "Failed to fetch redirect fallback" });
+    }
+  });
+
+  app.put("/api/settings/redirect-fallback", canManageSettings, async (req, res) => {
+    try {
+      const { url } = redirectFallbackSchema.parse(req.body);
+      await setRedirectFallbackUrl(url);
+      res.json(await getRedirectFallback());
+    } catch (error) {
+      console.error("Error saving redirect fallback:", error);
+      if (error instanceof ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else {
+        res.status(500).json({ error: "Failed to save redirect fallback" });
+      }
+    }
+  });
+
+  app.get("/api/settings/attribution", canManageSettings, async (_req, res) => {
+    try {
+      res.json({ ...(await getAttributionSettings()), apiConfigured: isConversionApiConfigured() });
+    } catch (error) {
+      console.error("Error fetching attribution settings:", error);
+      res.status(500).json({ error: "Failed to fetch attribution settings" });
+    }
+  });
+
+  app.put("/api/settings/attribution", canManageSettings, async (req, res) => {
+    try {
+      await setAttributionSettings(attributionSettingsSchema.parse(req.body));
+      res.json({ ...(await getAttributionSettings()), apiConfigured: isConversionApiConfigured() });
+    } catch (error) {
+      console.error("Error saving attribution settings:", error);
+      if (error instanceof ConversionError) {
+        res.status(error.status).json({ error: error.message });
+      } else if (error instanceof ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else {
+        res.status(500).json({ error: "Failed to save attribution settings" });
+      }
+    }
+  });
+
+  // Bulk import: validate the mapped spreadsheet rows, then create them all at once
+  app.post("/api/placements/import/validate", canEdit, async (req, res) => {
+    try {
+      const { rows } = placementImportSchema.parse(req.body);
+      res.json(await validateImport(rows));
+    } catch (error) {
+      console.error("Error validating import:", error);
+      if (error instanceof ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else {
+        res.status(500).json({ error: "Failed to validate import" });
+      }
+    }
+  });
+
+  app.post("/api/placements/import", canEdit, async (req, res) => {
+    try {
+      const { rows } = placementImportSchema.parse(req.body);
+      const placements = await importPlacements(rows, req.user?.id);
+      res.status(201).json({ created: placements.length, placements });
+    } catch (error) {
+      console.error("Error importing placements:", error);
+      if (error instanceof ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else if (error instanceof ImportError) {
+        res.status(error.status).json({ error: error.message, report: error.report });
+      } else if (isUniqueViolation(error)) {
+        res.status(409).json({ error: "Could not allocate unique tracking codes, please try again" });
+      } else {
+        res.status(500).json({ error: "Failed to import placements" });
+      }
+    }
+  });
+
+  app.patch("/api/placements/:id", canEdit, async (req, res) => {
+    try {
+      const existing = await storage.getMarketingPlacement(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Placement not found" });
+      }
+
+      // Validate the placement as it will look after the update, so that
+      // cross-field rules see the untouched fields too
+      const updates = insertMarketingPlacementSchema.partial().parse(req.body);
+      const taxonomy = await getEffectiveTaxonomy();
+      createPlacementSchema(taxonomy, Object.keys(updates)).parse({ ...placementToFormValues(existing), ...updates });
+      await checkPlacementTemplateLocks(existing.templateId, updates);
+      await checkLiveEditApproval(existing, updates);
+
+      const fullTrackingUrl = await buildPlacementTrackingUrl({ ...existing, ...updates });
+      const placement = await storage.updateMarketingPlacement(existing.id, { ...updates, fullTrackingUrl }, req.user?.id);
+      if (await resetApprovalIfChanged(existing, updates, req.user?.id)) {
+        return res.json({ ...placement, approvalStatus: null });
+      }
+      res.json(placement);
+    } catch (error) {
+      console.error("Error updating placement:", error);
+      if (error instanceof ZodError) {
+        res.status(400).json(toValidationErrorResponse(error));
+      } else if (error instanceof TemplateError) {
+        res.status(error.status).json({ error: error.message, fieldErrors: error.fieldErrors });
+      } else if (error instanceof ApprovalError) {
+        res.status(error.status).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: "Failed to update placement" });
+      }
+    }
+  });
+
+  // Placement lifecycle routes, one per action: /api/placements/:id/activate, ...
+  for (const action of userPlacementActions) {
+    app.post(`/api/placements/:id/${action}`, canEdit, async (req, res) => {
+      try {
+        const reason = typeof req.body?.reason === "string" ? req.body.reason : undefined;
+        const placement = await transitionPlacement(
+          req.params.id,
+          action,
+          { id: req.user?.id, permissions: getUserPermissions(req.user) },
+          reason,
+        );
+        res.json(placement);
+      } catch (error) {
+        console.error(`Error performing ${action} on placement:`, error);
+        if (error instanceof LifecycleError) {
+          res.status(error.status).json({ error: error.message, fieldErrors: error.fieldErrors });
+        } else {
+          res.status(500).json({ error: `Failed to ${action} placement` });
+        }
+      }
+    });
+  }
+
+  app.get("/api/placements/:id/transitions", canView, async (req, res) => {
+    try {
+      const transitions = await storage.getPlacementStatusTransitions(req.params.id);
+      res.json(transitions);
+    } catch (error) {
+      console.error("Error fetching status transitions:", error);
+      res.status(500).json({ error: "Failed to fetch status transitions" });
+    }
+  });
+
+  // Revision routes
+  app.get("/api/placements/:id/revisions", canView, async (req, res) => {
+    try {
+      const revisions = await storage.getPlacementRevisions(req.params.id);
+      res.json(revisions);
+    } catch (error) {
+      console.error("Error fetching revisions:", error);
+      res.status(500).json({ error: "Failed to fetch revisions" });
+    }
+  });
+
+  app.post("/api/placements/:id/revisions/:revision/restore", canEdit, async (req, res) => {
+    try {
+      const revision = Number(req.params.revision);
+      if (!Number.isInteger(revision) || revision < 1) {
+        return res.status(404).json({ error: "Revision not found" });
+      }
+      const placement = await restoreRevision(req.params.id, revision, req.user?.id);
+      res.json(placement);
+    } catch (error) {
+      console.error("Error restoring revision:", error);
+      if (error instanceof RevisionError || error instanceof TemplateError || error instanceof ApprovalError) {
+        res.status(error.status).json({ error: error.message, fieldErrors: error.fieldErrors });
+      } else {
+        res.status(500).json({ error: "Failed to restore revision" });
+      }
+    }
+  });
+
+  // Approval routes
+  app.get("/api/placements/:id/approvals", canView, async (req, res) => {
+    try {
+      const placement = await storage.getMarketingPlacement(req.params.id);
+      if (!placement) {
+        return res.status(404).json({ error: "Placement not found" });
+      }
+      res.json(await getPlacementApprovals(placement));
+    } catch (error) {
+      console.error("Error fetching approvals:", error);
+      res.status(500).json({ error: "Failed to fetch approvals" });
+    }
+  });
+
+  for (const action of ["submit", "resubmit"] as const) {
+    app.post(`/api/placements/:id/approval/${action}`, canEdit, async (req, res) => {
+      try {
+        const { comment } = approvalDecisionSchema.parse(req.body ?? {});
+        const placement = await submitForApproval(
+          req.params.id,
+          { id: req.user?.id, permissions: getUserPermissions(req.user) },
+          comment || undefined,
+          action === "resubmit",
+        );
+        res.json(placement);
+      } catch (error) {
+        console.error(`Error performing ${action} for approval:`, error);
+        if (error instanceof ZodError) {
+          res.status(400).json(toValidationErrorResponse(error));
+        } else if (error instanceof ApprovalError) {
+          res.status(error.status).json({ error: error.message, fieldErrors: error.fieldErrors });
+        } else {
+          res.status(500).json({ error: `Failed to ${action} placement for approval` });
+        }
+      }
+    });
+  }
+
+  for (const decision of ["approved", "rejected"] as const) {
+    const action = decision === "approved" ? "approve" : "reject";
+    const bodySchema = decision === "approved" ? approvalDecisionSchema : approvalRejectionSchema;
+
+    app.post(`/api/approval-requests/:id/${action}`, canApprove, async (req, res) => {
+      try {
+        const { comment } = bodySchema.parse(req.body ?? {});
+        const placement = await decideApproval(
+          req.params.id,
+          decision,
+          { id: req.user?.id, permissions: getUserPermissions(req.user) },
+          comment || undefined,
+        );
+        res.json(placement);
+      } catch (error) {
+        console.error(`Error performing ${action} on approval request:`, error);
+        if (error instanceof ZodError) {
+          res.status(400).json(toValidationErrorResponse(error));
+        } else if (error instanceof ApprovalError) {
+          res.status(error.status).json({ error: error.message });
+        } else {
+          res.status(500).json({ error: `Failed to ${action} approval request` });
+        }
+      }
+    });
+  }
+
+  app.get("/api/admin/approval-rules", canManageSettings, async (req, res) => {
+    try {
+      const rules = await storage.getApprovalRules();
+      res.json(rules);
+    } catch (error) {
+      console.error("Error fetching approval rules:", error);
+      res.status(500).json({ error: "Failed to fetch approval rules" });
+    }
+  });
+
+  app.post("/api/admin/approval-rules", canManageSettings, async (req, res) => {
+    try {
+      const ruleData = insertApprovalRuleSchema.parse(req.body);
+      const rule = await storage.createApprovalRule(ruleData);
+      res.status(201).json(rule);
+    } catch (error) {
+      console.error("Error creating approval rule:", error);
+      if (error instanceof ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else {
+        res.status(500).json({ error: "Failed to create approval rule" });
+      }
+    }
+  });
+
+  app.patch("/api/admin/approval-rules/:id", canManageSettings, async (req, res) => {
+    try {
+      const ruleData = updateApprovalRuleSchema.parse(req.body);
+      const rule = await storage.updateApprovalRule(req.params.id, ruleData);
+      if (!rule) {
+        return res.status(404).json({ error: "Approval rule not found" });
+      }
+      res.json(rule);
+    } catch (error) {
+      console.error("Error updating approval rule:", error);
+      if (error instanceof ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else {
+        res.status(500).json({ error: "Failed to update approval rule" });
+      }
+    }
+  });
+
+  // Scheduler routes
+  app.get("/api/admin/scheduler/runs", canManageSettings, async (req, res) => {
+    try {
+      const runs = await storage.getSchedulerRuns();
+      res.json(runs);
+    } catch (error) {
+      console.error("Error fetching scheduler runs:", error);
+      res.status(500).json({ error: "Failed to fetch scheduler runs" });
+    }
+  });
+
+  app.post("/api/admin/scheduler/run", canManageSettings, async (req, res) => {
+    try {
+      const run = await runScheduler("manual");
+      if (!run) {
+        return res.status(409).json({ error: "The scheduler is already running" });
+      }
+      res.json(run);
+    } catch (error) {
+      console.error("Error running scheduler:", error);
+      res.status(500).json({ error: "Failed to run scheduler" });
+    }
+  });
+
+  // Analytics routes, each for ?range=7d|30d|90d|1y and, where conversions
+  // are counted, ?model=lastClick|firstClick|linear
+  app.get("/api/analytics/summary", canViewAnalytics, async (req, res) => {
+    try {
+      const { range, model } = analyticsQuerySchema.parse(req.query);
+      res.json(await getAnalyticsSummary(range, model));
+    } catch (error) {
+      console.error("Error fetching analytics summary:", error);
+      if (error instanceof ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else {
+        res.status(500).json({ error: "Failed to fetch analytics summary" });
+      }
+    }
+  });
+
+  app.get("/api/analytics/timeseries", canViewAnalytics, async (req, res) => {
+    try {
+      const { range, model } = analyticsQuerySchema.parse(req.query);
+      res.json(await getAnalyticsTimeseries(range, model));
+    } catch (error) {
+      console.error("Error fetching analytics timeseries:", error);
+      if (error instanceof ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else {
+        res.status(500).json({ error: "Failed to fetch analytics timeseries" });
+      }
+    }
+  });
+
+  // ?dimension=channelType|campaignSource|brand|tactic|industry
+  app.get("/api/analytics/breakdown", canViewAnalytics, async (req, res) => {
+    try {
+      const { range, dimension, model } = analyticsBreakdownQuerySchema.parse(req.query);
+      res.json(await getAnalyticsBreakdown(range, dimension, model));
+    } catch (error) {
+      console.error("Error fetching analytics breakdown:", error);
+      if (error instanceof ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else {
+        res.status(500).json({ error: "Failed to fetch analytics breakdown" });
+      }
+    }
+  });
+
+  app.get("/api/analytics/activity", canViewAnalytics, async (req, res) => {
+    try {
+      const { range } = analyticsQuerySchema.parse(req.query);
+      res.json(await getRecentActivity(range, hasPermission(getUserPermissions(req.user), "settings:manage")));
+    } catch (error) {
+      console.error("Error fetching recent activity:", error);
+      if (error instanceof ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else {
+        res.status(500).json({ error: "Failed to fetch recent activity" });
+      }
+    }
+  });
+
+  // Click rollup routes
+  app.get("/api/admin/click-rollups/runs", canManageSettings, async (req, res) => {
+    try {
+      const runs = await storage.getClickRollupRuns();
+      res.json(runs);
+    } catch (error) {
+      console.error("Error fetching click rollup runs:", error);
+      res.status(500).json({ error: "Failed to fetch click rollup runs" });
+    }
+  });
+
+  // Without a body this runs the usual catch-up; {from, to} recomputes that range
+  app.post("/api/admin/click-rollups/run", canManageSettings, async (req, res) => {
+    try {
+      const range = req.body?.from || req.body?.to ? clickRollupRangeSchema.parse(req.body) : undefined;
+      const run = await runClickRollups("manual", range);
+      if (!run) {
+        return res.status(409).json({ error: "Click rollups are already running" });
+      }
+      res.json(run);
+    } catch (error) {
+      console.error("Error running click rollups:", error);
+      if (error instanceof ClickRollupError) {
+        res.status(error.status).json({ error: error.message });
+      } else if (error instanceof ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else {
+        res.status(500).json({ error: "Failed to run click rollups" });
+      }
+    }
+  });
+
   const httpServer = createServer(app);
 
   return httpServer;
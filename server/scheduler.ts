@@ -0,0 +1,92 @@
+import { storage } from "./storage";
+import { log } from "./vite";
+import { transitionPlacement, type Actor } from "./lifecycle";
+import type { PlacementActionName } from "@shared/lifecycle";
+import type { MarketingPlacement, SchedulerRun } from "@shared/schema";
+import { permissions } from "@shared/permissions";
+
+const DEFAULT_INTERVAL_MS = 5 * 60 * 1000;
+
+export type SchedulerTrigger = "startup" | "interval" | "manual";
+
+// Scheduled transitions are recorded without an actor id
+const schedulerActor: Actor = { permissions };
+
+// Guards against overlapping runs within this process. Across processes the
+// compare-and-set in transitionPlacement makes a second run a no-op.
+let running = false;
+
+export function isSchedulerRunning(): boolean {
+  return running;
+}
+
+async function applyAction(
+  placements: MarketingPlacement[],
+  action: PlacementActionName,
+  reason: string,
+  errors: string[],
+): Promise<number> {
+  let count = 0;
+  for (const placement of placements) {
+    try {
+      await transitionPlacement(placement.id, action, schedulerActor, reason);
+      count++;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      errors.push(`${action} ${placement.trackingCode ?? placement.id}: ${message}`);
+    }
+  }
+  return count;
+}
+
+// Activate scheduled placements whose start date has come and archive those
+// past their end date. Both queries look at everything overdue, so a run
+// after downtime catches up on whatever was missed. Returns undefined when a
+// run is already in progress.
+export async function runScheduler(trigger: SchedulerTrigger): Promise<SchedulerRun | undefined> {
+  if (running) {
+    return undefined;
+  }
+  running = true;
+
+  try {
+    const run = await storage.createSchedulerRun(trigger);
+    const now = new Date();
+    const errors: string[] = [];
+
+    // Expire first so a campaign whose whole run was missed goes straight
+    // from scheduled to archived rather than being activated
+    const expiredCount = await applyAction(
+      await storage.getPlacementsDueToExpire(now),
+      "expire",
+      "End date passed",
+      errors,
+    );
+    const activatedCount = await applyAction(
+      await storage.getPlacementsDueToActivate(now),
+      "activate",
+      "Start date reached",
+      errors,
+    );
+
+    if (activatedCount || expiredCount || errors.length) {
+      log(`scheduler: activated ${activatedCount}, expired ${expiredCount}, ${errors.length} failed`);
+    }
+    return await storage.finishSchedulerRun(run.id, { activatedCount, expiredCount, errors });
+  } finally {
+    running = false;
+  }
+}
+
+// Run once on startup to catch up, then every SCHEDULER_INTERVAL_MS
+export function startScheduler(): void {
+  const interval = parseInt(process.env.SCHEDULER_INTERVAL_MS || "", 10) || DEFAULT_INTERVAL_MS;
+  const tick = (trigger: SchedulerTrigger) => {
+    runScheduler(trigger).catch((error) => {
+      log(`scheduler run failed: ${error instanceof Error ? error.message : error}`);
+    });
+  };
+
+  tick("startup");
+  setInterval(() => tick("interval"), interval).unref();
+}
@@ -0,0 +1,117 @@
+import { sql } from "drizzle-orm";
+import { db } from "./db";
+import { marketingPlacements } from "@shared/schema";
+import {
+  highlightTerms,
+  searchTerms,
+  type SearchHighlight,
+  type SearchMatchType,
+  type SearchResult,
+} from "@shared/search";
+
+// Full-text document of a placement. The GIN index below is built on this
+// exact expression, so it must stay in sync with the query. Codes and URLs use
+// the simple configuration so they are not stemmed.
+const SEARCH_DOCUMENT = `(
+  setweight(to_tsvector('simple', coalesce(tracking_code, '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+  setweight(to_tsvector('simple', coalesce(base_url, '') || ' ' || coalesce(full_tracking_url, '')), 'B') ||
+  setweight(to_tsvector('english', coalesce(description, '') || ' ' || coalesce(campaign_notes, '')), 'C')
+)`;
+
+// Columns with a trigram index, for partial codes and URLs that full-text
+// search does not tokenize the way people type them
+const TRIGRAM_COLUMNS = ["tracking_code", "title", "base_url", "full_tracking_url"];
+
+// Creates the pg_trgm extension and the search indexes if they are missing.
+// They are kept out of the Drizzle schema because db:push would fail on a
+// database without pg_trgm; startup recreates them if a push drops them.
+export async function ensureSearchIndexes(): Promise<void> {
+  await db.execute(sql`CREATE EXTENSION IF NOT EXISTS pg_trgm`);
+  await db.execute(
+    sql.raw(`CREATE INDEX IF NOT EXISTS "IDX_placements_search" ON marketing_placements USING gin (${SEARCH_DOCUMENT})`),
+  );
+  for (const column of TRIGRAM_COLUMNS) {
+    await db.execute(
+      sql.raw(`CREATE INDEX IF NOT EXISTS "IDX_placements_${column}_trgm" ON marketing_placements USING gin (${column} gin_trgm_ops)`),
+    );
+  }
+}
+
+// Matches LIKE wildcards in user input literally
+export const escapeLike = (value: string) => value.replace(/[\\%_]/g, "\\$&");
+
+export async function searchPlacements(query: string, limit: number): Promise<SearchResult[]> {
+  const document = sql.raw(SEARCH_DOCUMENT);
+  const pattern = `%${escapeLike(query)}%`;
+  const english = sql`websearch_to_tsquery('english', ${query})`;
+  const simple = sql`websearch_to_tsquery('simple', ${query})`;
+
+  const rows = await db
+    .select({
+      id: marketingPlacements.id,
+      title: marketingPlacements.title,
+      trackingCode: marketingPlacements.trackingCode,
+      status: marketingPlacements.status,
+      baseUrl: marketingPlacements.baseUrl,
+      fullTrackingUrl: marketingPlacements.fullTrackingUrl,
+      description: marketingPlacements.description,
+      campaignNotes: marketingPlacements.campaignNotes,
+    })
+    .from(marketingPlacements)
+    .where(sql`(
+      ${document} @@ ${english} OR ${document} @@ ${simple}
+      OR ${marketingPlacements.trackingCode} ILIKE ${pattern}
+      OR ${marketingPlacements.title} ILIKE ${pattern}
+      OR ${marketingPlacements.baseUrl} ILIKE ${pattern}
+      OR ${marketingPlacements.fullTrackingUrl} ILIKE ${pattern}
+    )`)
+    .orderBy(
+      // An exact tracking code is what people paste most often
+      sql`lower(${marketingPlacements.trackingCode}) = lower(${query}) DESC`,
+      sql`ts_rank(${document}, ${english}) + greatest(
+        similarity(${marketingPlacements.trackingCode}, ${query}),
+        similarity(${marketingPlacements.title}, ${query}),
+        word_similarity(${query}, coalesce(${marketingPlacements.baseUrl}, ''))
+      ) DESC`,
+      sql`${marketingPlacements.updatedAt} DESC`,
+    )
+    .limit(limit);
+
+  const terms = searchTerms(query);
+  return rows.map((row) => {
+    const { matchType, highlight } = describeMatch(row, terms);
+    return {
+      placementId: row.id,
+      title: row.title,
+      trackingCode: row.trackingCode,
+      status: row.status,
+      matchType,
+      highlight,
+    };
+  });
+}
+
+// Picks the most specific field containing one of the terms. Rows that only
+// matched through stemming ("running" for "run") fall back to the notes.
+function describeMatch(
+  row: { title: string; trackingCode: string; baseUrl: string; fullTrackingUrl: string | null; description: string | null; campaignNotes: string | null },
+  terms: string[],
+): { matchType: SearchMatchType; highlight: SearchHighlight } {
+  const fields: [SearchMatchType, string | null][] = [
+    ["trackingCode", row.trackingCode],
+    ["title", row.title],
+    ["landingPage", row.baseUrl],
+    ["trackingUrl", row.fullTrackingUrl],
+    ["description", row.description],
+    ["notes", row.campaignNotes],
+  ];
+  for (const [matchType, value] of fields) {
+    if (value && terms.some((term) => value.toLowerCase().includes(term))) {
+      return { matchType, highlight: highlightTerms(value, terms) };
+    }
+  }
+  return row.campaignNotes
+    ? { matchType: "notes", highlight: highlightTerms(row.campaignNotes, []) }
+    : { matchType: "title", highlight: highlightTerms(row.title, []) };
+}
@@ -5,18 +5,247 @@ import {
   categories,
   partners,
   thirdParties,
+  trackingCounter,
+  taxonomyNodes,
+  taxonomyVersions,
+  placementStatusTransitions,
+  placementRevisions,
+  exportPresets,
+  campaignTemplates,
+  campaignDrafts,
+  parentCampaigns,
+  clickEvents,
+  clickRollups,
+  clickRollupRuns,
+  rollupGranularities,
+  conversionEvents,
+  conversionAttributions,
+  uiSettings,
+  schedulerRuns,
+  approvalRules,
+  approvalRequests,
+  auditLog,
   type User,
   type UpsertUser,
   type MarketingPlacement,
+  type NewMarketingPlacement,
+  type ParentCampaign,
+  type NewParentCampaign,
+  type NewClickEvent,
+  type ClickEvent,
+  type ConversionEvent,
+  type NewConversionEvent,
+  type AttributionModel,
+  type ClickRollupRun,
+  type RollupGranularity,
+  type AnalyticsDimension,
   type ChannelType,
+  type InsertChannelType,
   type Category,
+  type InsertCategory,
   type Partner,
   type InsertPartner,
   type ThirdParty,
   type InsertThirdParty,
+  type TaxonomyNode,
+  type InsertTaxonomyNode,
+  type UpdateTaxonomyNode,
+  type TaxonomyVersion,
+  type PlacementStatus,
+  type PlacementStatusTransition,
+  type InsertPlacementStatusTransition,
+  type PlacementRevision,
+  type ExportPreset,
+  type InsertExportPreset,
+  type CampaignTemplate,
+  type InsertCampaignTemplate,
+  type CampaignDraft,
+  type InsertCampaignDraft,
+  type UpdateCampaignDraft,
+  type SchedulerRun,
+  type ApprovalRule,
+  type InsertApprovalRule,
+  type UpdateApprovalRule,
+  type ApprovalRequest,
+  type NewApprovalRequest,
+  type AuditEntityType,
+  type AuditQuery,
+  type PlacementQuery,
+  type PlacementSortField,
 } from "@shared/schema";
+import type { CampaignTaxonomy } from "@shared/taxonomy";
+import { diffRecords, type AuditEntryWithActor } from "@shared/audit";
+import type { AnalyticsActivity } from "@shared/analytics";
+import { changedRevisionFields, toPlacementSnapshot, type PlacementRevisionWithActor } from "@shared/revisions";
+import { endDateCutoff } from "@shared/lifecycle";
 import { db } from "./db";
-import { eq, asc } from "drizzle-orm";
+import { escapeLike } from "./search";
+import { and, eq, asc, desc, count, getTableColumns, gt, gte, ilike, inArray, isNotNull, isNull, lt, lte, max, min, ne, or, sql, type SQL } from "drizzle-orm";
+import type { PgColumn } from "drizzle-orm/pg-core";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+interface AuditContext {
+  entityType: AuditEntityType;
+  entityId: string;
+  action: string;
+  actorId?: string | null;
+}
+
+// Adds an audit entry inside the caller's transaction, so a change and its
+// audit record are committed together. Updates that changed nothing are skipped.
+async function recordChange(tx: Transaction, context: AuditContext, before: object | undefined, after: object) {
+  const changes = diffRecords(before as Record<string, unknown> | undefined, after as Record<string, unknown>);
+  if (before && Object.keys(changes).length === 0) {
+    return;
+  }
+  await tx.insert(auditLog).values({ ...context, changes });
+}
+
+// Saves a new revision of the placement inside the caller's transaction, unless
+// its editable fields are unchanged. Placements saved before revisions existed
+// get their previous state recorded first, so there is something to go back to.
+async function recordRevision(
+  tx: Transaction,
+  before: MarketingPlacement | undefined,
+  after: MarketingPlacement,
+  actorId?: string,
+  restoredFrom?: number,
+) {
+  const snapshot = toPlacementSnapshot(after);
+  const previousSnapshot = before && toPlacementSnapshot(before);
+  if (previousSnapshot && changedRevisionFields(previousSnapshot, snapshot).length === 0) {
+    return;
+  }
+
+  const [{ latest }] = await tx
+    .select({ latest: max(placementRevisions.revision) })
+    .from(placementRevisions)
+    .where(eq(placementRevisions.placementId, after.id));
+  let revision = latest ?? 0;
+  if (previousSnapshot && latest === null) {
+    await tx.insert(placementRevisions).values({
+      placementId: after.id,
+      revision: ++revision,
+      snapshot: previousSnapshot,
+      actorId: before.userId,
+      createdAt: before.updatedAt ?? before.createdAt ?? undefined,
+    });
+  }
+  await tx.insert(placementRevisions).values({ placementId: after.id, revision: ++revision, snapshot, actorId, restoredFrom });
+}
+
+// Sort keys of the placement query. Nulls are swapped for a fixed value so the
+// keyset comparison stays correct: missing text counts as the lowest value and
+// missing dates as the highest, so ascending sorts put missing text first and
+// missing dates last, and descending sorts the other way round.
+const NO_DATE = "9999-12-31T00:00:00.000Z";
+
+const placementSortColumns: Record<PlacementSortField, { column: PgColumn; kind: "text" | "date" }> = {
+  createdAt: { column: marketingPlacements.createdAt, kind: "date" },
+  updatedAt: { column: marketingPlacements.updatedAt, kind: "date" },
+  title: { column: marketingPlacements.title, kind: "text" },
+  status: { column: marketingPlacements.status, kind: "text" },
+  campaignOwner: { column: marketingPlacements.campaignOwner, kind: "text" },
+  startDate: { column: marketingPlacements.startDate, kind: "date" },
+  endDate: { column: marketingPlacements.endDate, kind: "date" },
+  trackingCode: { column: marketingPlacements.trackingCode, kind: "text" },
+  costCenter: { column: marketingPlacements.costCenter, kind: "text" },
+};
+
+// Timestamps are truncated to the milliseconds a cursor can hold, so rows
+// created in the same statement still compare equal to their cursor value
+function sortKey(field: PlacementSortField): SQL {
+  const { column, kind } = placementSortColumns[field];
+  return kind === "date"
+    ? sql`date_trunc('milliseconds', coalesce(${column}, ${NO_DATE}::timestamp))`
+    : sql`coalesce(${column}, '')`;
+}
+
+// The value sortKey() has for a fetched row, as stored in the cursor
+function sortKeyValue(placement: MarketingPlacement, field: PlacementSortField): string {
+  const value = placement[field];
+  if (placementSortColumns[field].kind === "date") {
+    return value instanceof Date ? value.toISOString() : NO_DATE;
+  }
+  return (value as string | null) ?? "";
+}
+
+function compareSortKey(field: PlacementSortField, op: "=" | ">" | "<", value: string): SQL {
+  const param = placementSortColumns[field].kind === "date" ? sql`${value}::timestamp` : sql`${value}`;
+  return sql`${sortKey(field)} ${sql.raw(op)} ${param}`;
+}
+
+// Audit entry times as the audit cursor holds them, to the millisecond
+const auditTime = sql`date_trunc('milliseconds', ${auditLog.createdAt})`;
+
+// Entries after the cursor entry in newest-first order; the id breaks ties
+// between entries written in the same transaction
+function auditBefore(before: Date, beforeId?: string): SQL | undefined {
+  const time = sql`${before.toISOString()}::timestamp`;
+  return beforeId
+    ? or(sql`${auditTime} < ${time}`, and(sql`${auditTime} = ${time}`, lt(auditLog.id, beforeId)))
+    : sql`${auditTime} < ${time}`;
+}
+
+// Columns each analytics breakdown groups clicks and conversions by
+const clickDimensionColumns: Record<AnalyticsDimension, PgColumn> = {
+  channelType: clickRollups.channelTypeId,
+  campaignSource: clickRollups.campaignSource,
+  brand: clickRollups.brand,
+  tactic: marketingPlacements.tactic,
+  industry: marketingPlacements.industry,
+};
+
+const conversionDimensionColumns: Record<AnalyticsDimension, PgColumn> = {
+  channelType: marketingPlacements.channelTypeId,
+  campaignSource: marketingPlacements.campaignSource,
+  brand: marketingPlacements.brand1,
+  tactic: marketingPlacements.tactic,
+  industry: marketingPlacements.industry,
+};
+
+const conversionRange = (from: Date, to: Date, model: AttributionModel) =>
+  and(
+    eq(conversionAttributions.model, model),
+    gte(conversionAttributions.occurredAt, from),
+    lt(conversionAttributions.occurredAt, to),
+  );
+
+// `%value%` for ilike, with the value's own wildcards matched literally
+function containsPattern(value: string): string {
+  return `%${escapeLike(value)}%`;
+}
+
+function placementFilters(query: PlacementQuery): SQL | undefined {
+  const term = query.q && containsPattern(query.q);
+  const brand = query.brand && containsPattern(query.brand);
+  const conditions = [
+    term && or(
+      ilike(marketingPlacements.title, term),
+      ilike(marketingPlacements.campaignNotes, term),
+      ilike(marketingPlacements.trackingCode, term),
+    ),
+    query.status?.length && inArray(marketingPlacements.status, query.status),
+    query.owner && ilike(marketingPlacements.campaignOwner, containsPattern(query.owner)),
+    query.channelTypeId?.length && inArray(marketingPlacements.channelTypeId, query.channelTypeId),
+    query.categoryId?.length && inArray(marketingPlacements.categoryId, query.categoryId),
+    brand && or(
+      ilike(marketingPlacements.brand1, brand),
+      ilike(marketingPlacements.brand2, brand),
+      ilike(marketingPlacements.brand3, brand),
+    ),
+    query.costCenter?.length && inArray(marketingPlacements.costCenter, query.costCenter),
+    query.campaignSource?.length && inArray(marketingPlacements.campaignSource, query.campaignSource),
+    query.tactic?.length && inArray(marketingPlacements.tactic, query.tactic),
+    query.industry?.length && inArray(marketingPlacements.industry, query.industry),
+    query.partner && ilike(marketingPlacements.partnerName, containsPattern(query.partner)),
+    // Running at some point in the range; open-ended placements run forever
+    query.to && lte(marketingPlacements.startDate, query.to),
+    query.from && or(isNull(marketingPlacements.endDate), gte(marketingPlacements.endDate, query.from)),
+  ].filter((condition): condition is SQL => !!condition);
+  return and(...conditions);
+}
 
 // Interface for storage operations
 export interface IStorage {
@@ -26,26 +255,170 @@ export interface IStorage {
   
   // Marketing placement operations
   getMarketingPlacements(): Promise<MarketingPlacement[]>;
+  queryMarketingPlacements(
+    query: PlacementQuery,
+    after?: string[],
+  ): Promise<{ items: MarketingPlacement[]; total: number; nextKey: string[] | null }>;
+  getMarketingPlacementPage(
+    query: PlacementQuery,
+    after?: string[],
+  ): Promise<{ items: MarketingPlacement[]; nextKey: string[] | null }>;
   getMarketingPlacement(id: string): Promise<MarketingPlacement | undefined>;
-  createMarketingPlacement(placement: Omit<MarketingPlacement, 'id' | 'createdAt' | 'updatedAt'>): Promise<MarketingPlacement>;
-  updateMarketingPlacement(id: string, placement: Partial<MarketingPlacement>): Promise<MarketingPlacement>;
+  getPlacementByTrackingCode(trackingCode: string): Promise<MarketingPlacement | undefined>;
+  getPlacementByShortSlug(slug: string): Promise<MarketingPlacement | undefined>;
+  createMarketingPlacement(placement: Omit<NewMarketingPlacement, 'id' | 'createdAt' | 'updatedAt'>, actorId?: string): Promise<MarketingPlacement>;
+  createMarketingPlacements(
+    placements: Omit<NewMarketingPlacement, 'id' | 'createdAt' | 'updatedAt'>[],
+    actorId?: string,
+    parent?: NewParentCampaign,
+  ): Promise<MarketingPlacement[]>;
+  getParentCampaign(id: string): Promise<ParentCampaign | undefined>;
+  getParentCampaignPlacements(parentCampaignId: string): Promise<MarketingPlacement[]>;
+  updateMarketingPlacement(
+    id: string,
+    placement: Partial<MarketingPlacement>,
+    actorId?: string,
+    restoredFrom?: number,
+  ): Promise<MarketingPlacement>;
+  getPlacementRevisions(placementId: string): Promise<PlacementRevisionWithActor[]>;
+  getPlacementRevision(placementId: string, revision: number): Promise<PlacementRevision | undefined>;
+  transitionPlacementStatus(
+    id: string,
+    fromStatus: PlacementStatus,
+    transition: Omit<InsertPlacementStatusTransition, 'placementId' | 'fromStatus'>,
+  ): Promise<MarketingPlacement | undefined>;
+  getPlacementStatusTransitions(placementId: string): Promise<PlacementStatusTransition[]>;
+  getPlacementsDueToActivate(now: Date): Promise<MarketingPlacement[]>;
+  getPlacementsDueToExpire(now: Date): Promise<MarketingPlacement[]>;
+
+  // Approval operations
+  getApprovalRules(): Promise<ApprovalRule[]>;
+  createApprovalRule(rule: InsertApprovalRule): Promise<ApprovalRule>;
+  updateApprovalRule(id: string, rule: UpdateApprovalRule): Promise<ApprovalRule | undefined>;
+  getApprovalRequests(placementId: string): Promise<ApprovalRequest[]>;
+  getApprovalRequest(id: string): Promise<ApprovalRequest | undefined>;
+  startApprovalRound(
+    placementId: string,
+    round: number,
+    requests: Omit<NewApprovalRequest, 'placementId' | 'round'>[],
+  ): Promise<MarketingPlacement | undefined>;
+  decideApprovalRequest(
+    id: string,
+    decision: 'approved' | 'rejected',
+    decidedBy: string | undefined,
+    comment: string | undefined,
+  ): Promise<MarketingPlacement | undefined>;
+  resetApproval(placementId: string, actorId?: string): Promise<void>;
+
+  // Audit log
+  getAuditEntries(query: AuditQuery): Promise<AuditEntryWithActor[]>;
+
+  // Export preset operations, scoped to the owning user
+  getExportPresets(userId: string): Promise<ExportPreset[]>;
+  createExportPreset(userId: string, preset: InsertExportPreset): Promise<ExportPreset>;
+  deleteExportPreset(userId: string, id: string): Promise<boolean>;
+
+  // Campaign template operations; ownership is checked by server/templates.ts
+  getCampaignTemplates(userId: string): Promise<CampaignTemplate[]>;
+  getCampaignTemplate(id: string): Promise<CampaignTemplate | undefined>;
+  createCampaignTemplate(ownerId: string, template: InsertCampaignTemplate): Promise<CampaignTemplate>;
+  updateCampaignTemplate(id: string, template: InsertCampaignTemplate): Promise<CampaignTemplate | undefined>;
+  deleteCampaignTemplate(id: string): Promise<boolean>;
+
+  // Campaign builder drafts, scoped to the owning user
+  getCampaignDrafts(userId: string): Promise<CampaignDraft[]>;
+  getCampaignDraft(userId: string, id: string): Promise<CampaignDraft | undefined>;
+  createCampaignDraft(userId: string, draft: InsertCampaignDraft): Promise<CampaignDraft>;
+  updateCampaignDraft(userId: string, id: string, draft: UpdateCampaignDraft): Promise<CampaignDraft | undefined>;
+  deleteCampaignDraft(userId: string, id: string): Promise<boolean>;
+
+  // Click tracking
+  recordClickEvent(event: NewClickEvent): Promise<void>;
+  getClickEvent(id: string): Promise<ClickEvent | undefined>;
+  getVisitorClicks(visitorId: string, from: Date, to: Date): Promise<ClickEvent[]>;
+  getEarliestClickEventTime(): Promise<Date | undefined>;
+  purgeClickEvents(before: Date): Promise<number>;
+
+  // Click rollups
+  rebuildClickRollups(from: Date, to: Date): Promise<Record<RollupGranularity, number>>;
+  createClickRollupRun(trigger: string, fromTime: Date, toTime: Date): Promise<ClickRollupRun>;
+  finishClickRollupRun(
+    id: string,
+    result: Pick<ClickRollupRun, 'hourlyRows' | 'dailyRows' | 'purgedEvents' | 'errors'>,
+  ): Promise<ClickRollupRun>;
+  getClickRollupRuns(limit?: number): Promise<ClickRollupRun[]>;
+  getLastCompleteClickRollupRun(): Promise<ClickRollupRun | undefined>;
+
+  // Conversions
+  getConversionByIdempotencyKey(idempotencyKey: string): Promise<ConversionEvent | undefined>;
+  createConversion(
+    conversion: NewConversionEvent,
+    credits: { placementId: string; model: AttributionModel; credit: number }[],
+  ): Promise<ConversionEvent | undefined>;
+
+  // Analytics
+  getConversionTotal(from: Date, to: Date, model: AttributionModel): Promise<number>;
+  getConversionsByDimension(
+    from: Date,
+    to: Date,
+    dimension: AnalyticsDimension,
+    model: AttributionModel,
+  ): Promise<{ key: string | null; conversions: number }[]>;
+  getConversionSeries(
+    granularity: RollupGranularity,
+    from: Date,
+    to: Date,
+    model: AttributionModel,
+  ): Promise<{ bucketStart: Date; conversions: number }[]>;
+  getClickTotal(from: Date, to: Date): Promise<number>;
+  getClicksByDimension(from: Date, to: Date, dimension: AnalyticsDimension): Promise<{ key: string | null; clicks: number }[]>;
+  getClickSeries(granularity: RollupGranularity, from: Date, to: Date): Promise<{ bucketStart: Date; clicks: number }[]>;
+  countActivePlacements(): Promise<number>;
+  countPlacementActivations(from: Date, to: Date): Promise<number>;
+  getRecentActivity(from: Date, limit: number, entityTypes?: AuditEntityType[]): Promise<AnalyticsActivity[]>;
+
+  // Key/value settings
+  getUiSetting(setting: string): Promise<string | undefined>;
+  setUiSetting(setting: string, value: string | null): Promise<void>;
+
+  // Scheduler run history
+  createSchedulerRun(trigger: string): Promise<SchedulerRun>;
+  finishSchedulerRun(id: string, result: Pick<SchedulerRun, 'activatedCount' | 'expiredCount' | 'errors'>): Promise<SchedulerRun>;
+  getSchedulerRuns(limit?: number): Promise<SchedulerRun[]>;
+  
+  // Tracking counter operations
+  reserveTrackingNumbers(channelTypeId: string | null, count?: number): Promise<number>;
   
   // Channel type operations
   getChannelTypes(): Promise<ChannelType[]>;
-  createChannelType(channelType: Omit<ChannelType, 'id' | 'createdAt'>): Promise<ChannelType>;
+  getChannelType(id: string): Promise<ChannelType | undefined>;
+  createChannelType(channelType: InsertChannelType, actorId?: string): Promise<ChannelType>;
+  updateChannelType(id: string, channelType: Partial<InsertChannelType>, actorId?: string): Promise<ChannelType | undefined>;
   
   // Category operations
   getCategories(): Promise<Category[]>;
-  createCategory(category: Omit<Category, 'id' | 'createdAt'>): Promise<Category>;
+  getCategory(id: string): Promise<Category | undefined>;
+  createCategory(category: InsertCategory, actorId?: string): Promise<Category>;
+  updateCategory(id: string, category: Partial<InsertCategory>, actorId?: string): Promise<Category | undefined>;
+  
+  // Taxonomy operations
+  getTaxonomyNodes(): Promise<TaxonomyNode[]>;
+  getTaxonomyNode(id: string): Promise<TaxonomyNode | undefined>;
+  createTaxonomyNode(node: InsertTaxonomyNode, actorId?: string): Promise<TaxonomyNode>;
+  updateTaxonomyNode(id: string, node: UpdateTaxonomyNode, actorId?: string): Promise<TaxonomyNode | undefined>;
+  getTaxonomyVersions(): Promise<TaxonomyVersion[]>;
+  getTaxonomyVersion(id: string): Promise<TaxonomyVersion | undefined>;
+  getEffectiveTaxonomyVersion(at: Date): Promise<TaxonomyVersion | undefined>;
+  createTaxonomyVersion(version: { effectiveFrom: Date; notes?: string; publishedBy?: string; snapshot: CampaignTaxonomy }): Promise<TaxonomyVersion>;
   
   // Partner operations
   getPartners(): Promise<Partner[]>;
-  createPartner(partner: InsertPartner): Promise<Partner>;
+  createPartner(partner: InsertPartner, actorId?: string): Promise<Partner>;
   checkPartnerExists(name: string): Promise<boolean>;
   
   // Third party operations
   getThirdParties(): Promise<ThirdParty[]>;
-  createThirdParty(thirdParty: InsertThirdParty): Promise<ThirdParty>;
+  createThirdParty(thirdParty: InsertThirdParty, actorId?: string): Promise<ThirdParty>;
   checkThirdPartyExists(name: string): Promise<boolean>;
 }
 
@@ -73,7 +446,67 @@ export class DatabaseStorage implements IStorage {
 
   // Marketing placement operations
   async getMarketingPlacements(): Promise<MarketingPlacement[]> {
-    return await db.select().from(marketingPlacements);
+    return await db.select().from(marketingPlacements).orderBy(desc(marketingPlacements.createdAt));
+  }
+
+  // One page of placements in the requested order, with the number matching
+  // across all pages
+  async queryMarketingPlacements(
+    query: PlacementQuery,
+    after?: string[],
+  ): Promise<{ items: MarketingPlacement[]; total: number; nextKey: string[] | null }> {
+    const [page, [{ total }]] = await Promise.all([
+      this.getMarketingPlacementPage(query, after),
+      db.select({ total: count() }).from(marketingPlacements).where(placementFilters(query)),
+    ]);
+    return { ...page, total };
+  }
+
+  // One page of placements in the requested order, without counting them all,
+  // for walking through every page. `after` is the sort key of the last row
+  // of the previous page, as returned in `nextKey`.
+  async getMarketingPlacementPage(
+    query: PlacementQuery,
+    after?: string[],
+  ): Promise<{ items: MarketingPlacement[]; nextKey: string[] | null }> {
+    const filters = placementFilters(query);
+
+    // Keyset condition: rows that sort after `after` on the first differing
+    // key, with the id as the final tiebreaker
+    let afterKey: SQL | undefined;
+    if (after) {
+      const id = after[after.length - 1];
+      const alternatives = query.sort.map(({ field, direction }, i) =>
+        and(
+          ...query.sort.slice(0, i).map((previous, j) => compareSortKey(previous.field, "=", after[j])),
+          compareSortKey(field, direction === "asc" ? ">" : "<", after[i]),
+        ),
+      );
+      alternatives.push(
+        and(
+          ...query.sort.map(({ field }, j) => compareSortKey(field, "=", after[j])),
+          gt(marketingPlacements.id, id),
+        ),
+      );
+      afterKey = or(...alternatives);
+    }
+
+    const rows = await db
+      .select()
+      .from(marketingPlacements)
+      .where(and(filters, afterKey))
+      .orderBy(
+        ...query.sort.map(({ field, direction }) => (direction === "asc" ? asc(sortKey(field)) : desc(sortKey(field)))),
+        asc(marketingPlacements.id),
+      )
+      .limit(query.limit + 1);
+
+    const items = rows.slice(0, query.limit);
+    const last = items[items.length - 1];
+    const nextKey = rows.length > query.limit && last
+      ? [...query.sort.map(({ field }) => sortKeyValue(last, field)), last.id]
+      : null;
+    return { items, nextKey };
   }
 
   async getMarketingPlacement(id: string): Promise<MarketingPlacement | undefined> {
@@ -81,28 +514,821 @@ export class DatabaseStorage implements IStorage {
     return placement;
   }
 
-  async createMarketingPlacement(placement: Omit<MarketingPlacement, 'id' | 'createdAt' | 'updatedAt'>): Promise<MarketingPlacement> {
-    const [created] = await db.insert(marketingPlacements).values(placement).returning();
+  async createMarketingPlacement(
+    placement: Omit<NewMarketingPlacement, 'id' | 'createdAt' | 'updatedAt'>,
+    actorId?: string,
+  ): Promise<MarketingPlacement> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(marketingPlacements).values(placement).returning();
+      await recordChange(tx, { entityType: "placement", entityId: created.id, action: "create", actorId }, undefined, created);
+      await recordRevision(tx, undefined, created, actorId);
+      return created;
+    });
+  }
+
+  // Creates all placements or none of them
+  // Bulk imports pass no parent; variants are created under a new parent campaign
+  async createMarketingPlacements(
+    placements: Omit<NewMarketingPlacement, 'id' | 'createdAt' | 'updatedAt'>[],
+    actorId?: string,
+    parent?: NewParentCampaign,
+  ): Promise<MarketingPlacement[]> {
+    return await db.transaction(async (tx) => {
+      let rows = placements;
+      if (parent) {
+        const [createdParent] = await tx.insert(parentCampaigns).values(parent).returning();
+        rows = placements.map((placement) => ({ ...placement, parentCampaignId: createdParent.id }));
+      }
+      const action = parent ? "create" : "import";
+      const created = await tx.insert(marketingPlacements).values(rows).returning();
+      for (const placement of created) {
+        await recordChange(tx, { entityType: "placement", entityId: placement.id, action, actorId }, undefined, placement);
+        await recordRevision(tx, undefined, placement, actorId);
+      }
+      return created;
+    });
+  }
+
+  // Lookups behind the /r/<code> redirect, both on unique indexes
+  async getPlacementByTrackingCode(trackingCode: string): Promise<MarketingPlacement | undefined> {
+    const [placement] = await db.select().from(marketingPlacements).where(eq(marketingPlacements.trackingCode, trackingCode));
+    return placement;
+  }
+
+  async getPlacementByShortSlug(slug: string): Promise<MarketingPlacement | undefined> {
+    const [placement] = await db.select().from(marketingPlacements).where(eq(marketingPlacements.shortSlug, slug));
+    return placement;
+  }
+
+  async getParentCampaign(id: string): Promise<ParentCampaign | undefined> {
+    const [parent] = await db.select().from(parentCampaigns).where(eq(parentCampaigns.id, id));
+    return parent;
+  }
+
+  async getParentCampaignPlacements(parentCampaignId: string): Promise<MarketingPlacement[]> {
+    return await db
+      .select()
+      .from(marketingPlacements)
+      .where(eq(marketingPlacements.parentCampaignId, parentCampaignId))
+      .orderBy(asc(marketingPlacements.campaignSource), asc(marketingPlacements.adType), asc(marketingPlacements.adTypeDetail));
+  }
+
+  // Pass `restoredFrom` when the update puts back an earlier revision
+  async updateMarketingPlacement(
+    id: string,
+    placement: Partial<MarketingPlacement>,
+    actorId?: string,
+    restoredFrom?: number,
+  ): Promise<MarketingPlacement> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(marketingPlacements).where(eq(marketingPlacements.id, id)).for("update");
+      const [updated] = await tx
+        .update(marketingPlacements)
+        .set({ ...placement, updatedAt: new Date() })
+        .where(eq(marketingPlacements.id, id))
+        .returning();
+      if (updated) {
+        const action = restoredFrom === undefined ? "update" : "restore";
+        await recordChange(tx, { entityType: "placement", entityId: id, action, actorId }, before, updated);
+        await recordRevision(tx, before, updated, actorId, restoredFrom);
+      }
+      return updated;
+    });
+  }
+
+  async getPlacementRevisions(placementId: string): Promise<PlacementRevisionWithActor[]> {
+    return await db
+      .select({
+        ...getTableColumns(placementRevisions),
+        actorEmail: users.email,
+        actorName: sql<string | null>`nullif(trim(concat(${users.firstName}, ' ', ${users.lastName})), '')`,
+      })
+      .from(placementRevisions)
+      .leftJoin(users, eq(placementRevisions.actorId, users.id))
+      .where(eq(placementRevisions.placementId, placementId))
+      .orderBy(desc(placementRevisions.revision));
+  }
+
+  async getPlacementRevision(placementId: string, revision: number): Promise<PlacementRevision | undefined> {
+    const [found] = await db
+      .select()
+      .from(placementRevisions)
+      .where(and(eq(placementRevisions.placementId, placementId), eq(placementRevisions.revision, revision)));
+    return found;
+  }
+
+  // Changes the status only if it is still `fromStatus`, and records the
+  // transition in the same transaction. Returns undefined when the placement
+  // was changed by someone else in the meantime. A NULL status counts as
+  // draft, as it does in transitionPlacement().
+  async transitionPlacementStatus(
+    id: string,
+    fromStatus: PlacementStatus,
+    transition: Omit<InsertPlacementStatusTransition, 'placementId' | 'fromStatus'>,
+  ): Promise<MarketingPlacement | undefined> {
+    return await db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(marketingPlacements)
+        .set({ status: transition.toStatus, updatedAt: new Date() })
+        .where(and(eq(marketingPlacements.id, id), sql`coalesce(${marketingPlacements.status}, 'draft') = ${fromStatus}`))
+        .returning();
+      if (!updated) {
+        return undefined;
+      }
+
+      await tx.insert(placementStatusTransitions).values({ ...transition, placementId: id, fromStatus });
+      await recordChange(
+        tx,
+        { entityType: "placement", entityId: id, action: transition.action, actorId: transition.actorId },
+        { status: fromStatus },
+        { status: updated.status },
+      );
+      return updated;
+    });
+  }
+
+  async getPlacementStatusTransitions(placementId: string): Promise<PlacementStatusTransition[]> {
+    return await db
+      .select()
+      .from(placementStatusTransitions)
+      .where(eq(placementStatusTransitions.placementId, placementId))
+      .orderBy(desc(placementStatusTransitions.createdAt));
+  }
+
+  // Scheduled placements whose start date has been reached
+  async getPlacementsDueToActivate(now: Date): Promise<MarketingPlacement[]> {
+    return await db
+      .select()
+      .from(marketingPlacements)
+      .where(and(eq(marketingPlacements.status, "scheduled"), lte(marketingPlacements.startDate, now)));
+  }
+
+  // Placements still running or waiting to run after their end date
+  async getPlacementsDueToExpire(now: Date): Promise<MarketingPlacement[]> {
+    return await db
+      .select()
+      .from(marketingPlacements)
+      .where(and(
+        inArray(marketingPlacements.status, ["scheduled", "active", "paused"]),
+        lt(marketingPlacements.endDate, endDateCutoff(now)),
+      ));
+  }
+
+  // Approval operations
+  async getApprovalRules(): Promise<ApprovalRule[]> {
+    return await db.select().from(approvalRules).orderBy(asc(approvalRules.name));
+  }
+
+  async createApprovalRule(rule: InsertApprovalRule): Promise<ApprovalRule> {
+    const [created] = await db.insert(approvalRules).values(rule).returning();
+    return created;
+  }
+
+  async updateApprovalRule(id: string, rule: UpdateApprovalRule): Promise<ApprovalRule | undefined> {
+    const [updated] = await db
+      .update(approvalRules)
+      .set({ ...rule, updatedAt: new Date() })
+      .where(eq(approvalRules.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getApprovalRequests(placementId: string): Promise<ApprovalRequest[]> {
+    return await db
+      .select()
+      .from(approvalRequests)
+      .where(eq(approvalRequests.placementId, placementId))
+      .orderBy(desc(approvalRequests.round), asc(approvalRequests.ruleName));
+  }
+
+  async getApprovalRequest(id: string): Promise<ApprovalRequest | undefined> {
+    const [request] = await db.select().from(approvalRequests).where(eq(approvalRequests.id, id));
+    return request;
+  }
+
+  // Opens a new approval round. The round number doubles as a version check:
+  // returns undefined when another submission got there first.
+  async startApprovalRound(
+    placementId: string,
+    round: number,
+    requests: Omit<NewApprovalRequest, 'placementId' | 'round'>[],
+  ): Promise<MarketingPlacement | undefined> {
+    return await db.transaction(async (tx) => {
+      const [previous] = await tx
+        .select({ approvalStatus: marketingPlacements.approvalStatus })
+        .from(marketingPlacements)
+        .where(eq(marketingPlacements.id, placementId));
+      const [updated] = await tx
+        .update(marketingPlacements)
+        .set({ approvalStatus: "pending", approvalRound: round, updatedAt: new Date() })
+        .where(and(eq(marketingPlacements.id, placementId), eq(marketingPlacements.approvalRound, round - 1)))
+        .returning();
+      if (!updated) {
+        return undefined;
+      }
+
+      await tx.insert(approvalRequests).values(requests.map((request) => ({ ...request, placementId, round })));
+      await recordChange(
+        tx,
+        { entityType: "placement", entityId: placementId, action: "submitForApproval", actorId: requests[0]?.submittedBy },
+        { approvalStatus: previous.approvalStatus, approvalRound: round - 1 },
+        { approvalStatus: updated.approvalStatus, approvalRound: updated.approvalRound },
+      );
+      return updated;
+    });
+  }
+
+  // Records a decision and settles the placement's approval status: one
+  // rejection rejects the round, the last approval approves it. Returns
+  // undefined when the request was no longer pending.
+  async decideApprovalRequest(
+    id: string,
+    decision: 'approved' | 'rejected',
+    decidedBy: string | undefined,
+    comment: string | undefined,
+  ): Promise<MarketingPlacement | undefined> {
+    return await db.transaction(async (tx) => {
+      const [request] = await tx
+        .update(approvalRequests)
+        .set({ status: decision, decidedBy, decidedAt: new Date(), comment })
+        .where(and(eq(approvalRequests.id, id), eq(approvalRequests.status, "pending")))
+        .returning();
+      if (!request) {
+        return undefined;
+      }
+
+      const sameRound = and(
+        eq(approvalRequests.placementId, request.placementId),
+        eq(approvalRequests.round, request.round),
+        eq(approvalRequests.status, "pending"),
+      );
+      const [before] = await tx
+        .select({ approvalStatus: marketingPlacements.approvalStatus })
+        .from(marketingPlacements)
+        .where(eq(marketingPlacements.id, request.placementId))
+        .for("update");
+      let approvalStatus: string | undefined;
+      if (decision === "rejected") {
+        await tx.update(approvalRequests).set({ status: "cancelled" }).where(sameRound);
+        approvalStatus = "rejected";
+      } else {
+        const [{ pending }] = await tx.select({ pending: sql<number>`count(*)::int` }).from(approvalRequests).where(sameRound);
+        approvalStatus = pending === 0 ? "approved" : undefined;
+      }
+
+      const [placement] = await tx
+        .update(marketingPlacements)
+        .set(approvalStatus ? { approvalStatus, updatedAt: new Date() } : { updatedAt: new Date() })
+        .where(eq(marketingPlacements.id, request.placementId))
+        .returning();
+      await recordChange(
+        tx,
+        {
+          entityType: "placement",
+          entityId: request.placementId,
+          action: decision === "approved" ? "approve" : "reject",
+          actorId: decidedBy,
+        },
+        { ...before, [`approval:${request.ruleName}`]: "pending" },
+        { approvalStatus: placement.approvalStatus, [`approval:${request.ruleName}`]: decision },
+      );
+      return placement;
+    });
+  }
+
+  // Withdraws any open requests and clears the approval so the placement
+  // has to be submitted again
+  async resetApproval(placementId: string, actorId?: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx
+        .update(approvalRequests)
+        .set({ status: "cancelled" })
+        .where(and(eq(approvalRequests.placementId, placementId), eq(approvalRequests.status, "pending")));
+      const [before] = await tx
+        .select({ approvalStatus: marketingPlacements.approvalStatus })
+        .from(marketingPlacements)
+        .where(eq(marketingPlacements.id, placementId))
+        .for("update");
+      await tx
+        .update(marketingPlacements)
+        .set({ approvalStatus: null, updatedAt: new Date() })
+        .where(eq(marketingPlacements.id, placementId));
+      await recordChange(
+        tx,
+        { entityType: "placement", entityId: placementId, action: "resetApproval", actorId },
+        before,
+        { approvalStatus: null },
+      );
+    });
+  }
+
+  // Audit log, newest first
+  async getAuditEntries(query: AuditQuery): Promise<AuditEntryWithActor[]> {
+    const conditions = [
+      query.entityType && eq(auditLog.entityType, query.entityType),
+      query.entityId && eq(auditLog.entityId, query.entityId),
+      query.actor && or(eq(auditLog.actorId, query.actor), ilike(users.email, containsPattern(query.actor))),
+      query.from && gte(auditLog.createdAt, query.from),
+      query.to && lte(auditLog.createdAt, query.to),
+      query.before && auditBefore(query.before, query.beforeId),
+    ].filter((condition) => !!condition);
+
+    return await db
+      .select({
+        ...getTableColumns(auditLog),
+        actorEmail: users.email,
+        actorName: sql<string | null>`nullif(trim(concat(${users.firstName}, ' ', ${users.lastName})), '')`,
+      })
+      .from(auditLog)
+      .leftJoin(users, eq(auditLog.actorId, users.id))
+      .where(and(...conditions))
+      .orderBy(desc(auditTime), desc(auditLog.id))
+      .limit(query.limit);
+  }
+
+  // Export presets
+  async getExportPresets(userId: string): Promise<ExportPreset[]> {
+    return await db.select().from(exportPresets).where(eq(exportPresets.userId, userId)).orderBy(asc(exportPresets.name));
+  }
+
+  async createExportPreset(userId: string, preset: InsertExportPreset): Promise<ExportPreset> {
+    const [created] = await db.insert(exportPresets).values({ ...preset, userId }).returning();
+    return created;
+  }
+
+  async deleteExportPreset(userId: string, id: string): Promise<boolean> {
+    const deleted = await db
+      .delete(exportPresets)
+      .where(and(eq(exportPresets.id, id), eq(exportPresets.userId, userId)))
+      .returning({ id: exportPresets.id });
+    return deleted.length > 0;
+  }
+
+  // Campaign templates: the user's own plus those shared with everyone
+  async getCampaignTemplates(userId: string): Promise<CampaignTemplate[]> {
+    return await db
+      .select()
+      .from(campaignTemplates)
+      .where(or(eq(campaignTemplates.ownerId, userId), eq(campaignTemplates.isShared, true)))
+      .orderBy(asc(campaignTemplates.name));
+  }
+
+  async getCampaignTemplate(id: string): Promise<CampaignTemplate | undefined> {
+    const [template] = await db.select().from(campaignTemplates).where(eq(campaignTemplates.id, id));
+    return template;
+  }
+
+  async createCampaignTemplate(ownerId: string, template: InsertCampaignTemplate): Promise<CampaignTemplate> {
+    const [created] = await db.insert(campaignTemplates).values({ ...template, ownerId }).returning();
+    return created;
+  }
+
+  async updateCampaignTemplate(id: string, template: InsertCampaignTemplate): Promise<CampaignTemplate | undefined> {
+    const [updated] = await db
+      .update(campaignTemplates)
+      .set({ ...template, updatedAt: new Date() })
+      .where(eq(campaignTemplates.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Campaigns made from the template keep their values; their link to it is cleared
+  async deleteCampaignTemplate(id: string): Promise<boolean> {
+    const deleted = await db
+      .delete(campaignTemplates)
+      .where(eq(campaignTemplates.id, id))
+      .returning({ id: campaignTemplates.id });
+    return deleted.length > 0;
+  }
+
+  // Campaign drafts, most recently saved first
+  async getCampaignDrafts(userId: string): Promise<CampaignDraft[]> {
+    return await db
+      .select()
+      .from(campaignDrafts)
+      .where(eq(campaignDrafts.userId, userId))
+      .orderBy(desc(campaignDrafts.updatedAt));
+  }
+
+  async getCampaignDraft(userId: string, id: string): Promise<CampaignDraft | undefined> {
+    const [draft] = await db
+      .select()
+      .from(campaignDrafts)
+      .where(and(eq(campaignDrafts.id, id), eq(campaignDrafts.userId, userId)));
+    return draft;
+  }
+
+  async createCampaignDraft(userId: string, draft: InsertCampaignDraft): Promise<CampaignDraft> {
+    const [created] = await db.insert(campaignDrafts).values({ ...draft, userId }).returning();
     return created;
   }
 
-  async updateMarketingPlacement(id: string, placement: Partial<MarketingPlacement>): Promise<MarketingPlacement> {
+  // Compare-and-set on the version: undefined when the draft is gone or was
+  // saved from somewhere else since `draft.version`
+  async updateCampaignDraft(userId: string, id: string, draft: UpdateCampaignDraft): Promise<CampaignDraft | undefined> {
     const [updated] = await db
-      .update(marketingPlacements)
-      .set({ ...placement, updatedAt: new Date() })
-      .where(eq(marketingPlacements.id, id))
+      .update(campaignDrafts)
+      .set({
+        values: draft.values,
+        templateId: draft.templateId,
+        version: sql`${campaignDrafts.version} + 1`,
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(campaignDrafts.id, id),
+        eq(campaignDrafts.userId, userId),
+        eq(campaignDrafts.version, draft.version),
+      ))
       .returning();
     return updated;
   }
 
+  async deleteCampaignDraft(userId: string, id: string): Promise<boolean> {
+    const deleted = await db
+      .delete(campaignDrafts)
+      .where(and(eq(campaignDrafts.id, id), eq(campaignDrafts.userId, userId)))
+      .returning({ id: campaignDrafts.id });
+    return deleted.length > 0;
+  }
+
+  // Click tracking
+  async recordClickEvent(event: NewClickEvent): Promise<void> {
+    await db.insert(clickEvents).values(event);
+  }
+
+  async getClickEvent(id: string): Promise<ClickEvent | undefined> {
+    const [click] = await db.select().from(clickEvents).where(eq(clickEvents.id, id));
+    return click;
+  }
+
+  // Clicks from one visitor cookie in [from, to], oldest first, leaving out bots
+  async getVisitorClicks(visitorId: string, from: Date, to: Date): Promise<ClickEvent[]> {
+    return await db
+      .select()
+      .from(clickEvents)
+      .where(
+        and(
+          eq(clickEvents.visitorId, visitorId),
+          ne(clickEvents.userAgentClass, "bot"),
+          gte(clickEvents.createdAt, from),
+          lte(clickEvents.createdAt, to),
+        ),
+      )
+      .orderBy(asc(clickEvents.createdAt));
+  }
+
+  async getEarliestClickEventTime(): Promise<Date | undefined> {
+    const [row] = await db.select({ earliest: min(clickEvents.createdAt) }).from(clickEvents);
+    return row?.earliest ?? undefined;
+  }
+
+  async purgeClickEvents(before: Date): Promise<number> {
+    const purged = await db
+      .delete(clickEvents)
+      .where(lt(clickEvents.createdAt, before))
+      .returning({ id: clickEvents.id });
+    return purged.length;
+  }
+
+  // Click rollups
+  // Replaces every hourly and daily bucket in [from, to) with counts taken
+  // from the raw events, so rebuilding a range twice gives the same rows.
+  // Both ends must be on a day boundary for the daily buckets to be whole.
+  async rebuildClickRollups(from: Date, to: Date): Promise<Record<RollupGranularity, number>> {
+    return await db.transaction(async (tx) => {
+      const inRange = and(gte(clickRollups.bucketStart, from), lt(clickRollups.bucketStart, to));
+      await tx.delete(clickRollups).where(inRange);
+
+      const rows = {} as Record<RollupGranularity, number>;
+      for (const granularity of rollupGranularities) {
+        // Inlined rather than bound so the select and group by expressions match
+        const bucketStart = sql<Date>`date_trunc('${sql.raw(granularity)}', ${clickEvents.createdAt})`;
+        await tx.insert(clickRollups).select(
+          tx
+            .select({
+              id: sql<string>`gen_random_uuid()`.as("id"),
+              granularity: sql<string>`'${sql.raw(granularity)}'`.as("granularity"),
+              bucketStart: bucketStart.as("bucket_start"),
+              placementId: marketingPlacements.id,
+              channelTypeId: marketingPlacements.channelTypeId,
+              categoryId: marketingPlacements.categoryId,
+              campaignSource: marketingPlacements.campaignSource,
+              brand: marketingPlacements.brand1,
+              clicks: sql<number>`count(*)::int`.as("clicks"),
+              uniqueClicks: sql<number>`count(distinct ${clickEvents.ipHash})::int`.as("unique_clicks"),
+              botClicks: sql<number>`(count(*) filter (where ${clickEvents.userAgentClass} = 'bot'))::int`.as("bot_clicks"),
+              fallbackClicks: sql<number>`(count(*) filter (where ${clickEvents.fallback}))::int`.as("fallback_clicks"),
+              shortLinkClicks: sql<number>`(count(*) filter (where ${clickEvents.viaShortLink}))::int`.as("short_link_clicks"),
+              updatedAt: sql<Date>`now()`.as("updated_at"),
+            })
+            .from(clickEvents)
+            .innerJoin(marketingPlacements, eq(clickEvents.placementId, marketingPlacements.id))
+            .where(and(gte(clickEvents.createdAt, from), lt(clickEvents.createdAt, to)))
+            .groupBy(bucketStart, marketingPlacements.id),
+        );
+        const [{ total }] = await tx
+          .select({ total: count() })
+          .from(clickRollups)
+          .where(and(eq(clickRollups.granularity, granularity), inRange));
+        rows[granularity] = total;
+      }
+      return rows;
+    });
+  }
+
+  async createClickRollupRun(trigger: string, fromTime: Date, toTime: Date): Promise<ClickRollupRun> {
+    const [run] = await db.insert(clickRollupRuns).values({ trigger, fromTime, toTime }).returning();
+    return run;
+  }
+
+  async finishClickRollupRun(
+    id: string,
+    result: Pick<ClickRollupRun, 'hourlyRows' | 'dailyRows' | 'purgedEvents' | 'errors'>,
+  ): Promise<ClickRollupRun> {
+    const [run] = await db
+      .update(clickRollupRuns)
+      .set({ ...result, finishedAt: new Date() })
+      .where(eq(clickRollupRuns.id, id))
+      .returning();
+    return run;
+  }
+
+  async getClickRollupRuns(limit = 50): Promise<ClickRollupRun[]> {
+    return await db.select().from(clickRollupRuns).orderBy(desc(clickRollupRuns.startedAt)).limit(limit);
+  }
+
+  // The latest catch-up run that finished without errors; the next one
+  // carries on from its toTime. Recomputes cover arbitrary ranges, so they
+  // say nothing about what has been rolled up before them.
+  async getLastCompleteClickRollupRun(): Promise<ClickRollupRun | undefined> {
+    const [run] = await db
+      .select()
+      .from(clickRollupRuns)
+      .where(
+        and(
+          ne(clickRollupRuns.trigger, "recompute"),
+          isNotNull(clickRollupRuns.finishedAt),
+          sql`jsonb_array_length(${clickRollupRuns.errors}) = 0`,
+        ),
+      )
+      .orderBy(desc(clickRollupRuns.toTime))
+      .limit(1);
+    return run;
+  }
+
+  // Key/value settings; a null value removes the setting
+  async getUiSetting(setting: string): Promise<string | undefined> {
+    const [row] = await db.select().from(uiSettings).where(eq(uiSettings.setting, setting));
+    return row?.value ?? undefined;
+  }
+
+  async setUiSetting(setting: string, value: string | null): Promise<void> {
+    if (value === null) {
+      await db.delete(uiSettings).where(eq(uiSettings.setting, setting));
+      return;
+    }
+    await db
+      .insert(uiSettings)
+      .values({ setting, value })
+      .onConflictDoUpdate({ target: uiSettings.setting, set: { value, updatedAt: new Date() } });
+  }
+
+  // Conversions
+  async getConversionByIdempotencyKey(idempotencyKey: string): Promise<ConversionEvent | undefined> {
+    const [conversion] = await db.select().from(conversionEvents).where(eq(conversionEvents.idempotencyKey, idempotencyKey));
+    return conversion;
+  }
+
+  // Saves a conversion with its credits. Returns undefined when a conversion
+  // with the same idempotency key got there first.
+  async createConversion(
+    conversion: NewConversionEvent,
+    credits: { placementId: string; model: AttributionModel; credit: number }[],
+  ): Promise<ConversionEvent | undefined> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(conversionEvents)
+        .values(conversion)
+        .onConflictDoNothing({ target: conversionEvents.idempotencyKey })
+        .returning();
+      if (created && credits.length > 0) {
+        await tx
+          .insert(conversionAttributions)
+          .values(credits.map((credit) => ({ ...credit, conversionId: created.id, occurredAt: created.occurredAt })));
+      }
+      return created;
+    });
+  }
+
+  // Attributed conversions in a range under one model; linear credit makes them fractional
+  async getConversionTotal(from: Date, to: Date, model: AttributionModel): Promise<number> {
+    const [{ conversions }] = await db
+      .select({ conversions: sql<number>`coalesce(sum(${conversionAttributions.credit}), 0)::float8` })
+      .from(conversionAttributions)
+      .where(conversionRange(from, to, model));
+    return conversions;
+  }
+
+  async getConversionsByDimension(
+    from: Date,
+    to: Date,
+    dimension: AnalyticsDimension,
+    model: AttributionModel,
+  ): Promise<{ key: string | null; conversions: number }[]> {
+    const key = conversionDimensionColumns[dimension];
+    return await db
+      .select({ key, conversions: sql<number>`sum(${conversionAttributions.credit})::float8` })
+      .from(conversionAttributions)
+      .innerJoin(marketingPlacements, eq(conversionAttributions.placementId, marketingPlacements.id))
+      .where(conversionRange(from, to, model))
+      .groupBy(key);
+  }
+
+  async getConversionSeries(
+    granularity: RollupGranularity,
+    from: Date,
+    to: Date,
+    model: AttributionModel,
+  ): Promise<{ bucketStart: Date; conversions: number }[]> {
+    // Inlined rather than bound so the select and group by expressions match
+    const bucketStart = sql`date_trunc('${sql.raw(granularity)}', ${conversionAttributions.occurredAt})`.mapWith(
+      conversionAttributions.occurredAt,
+    );
+    return await db
+      .select({ bucketStart, conversions: sql<number>`sum(${conversionAttributions.credit})::float8` })
+      .from(conversionAttributions)
+      .where(conversionRange(from, to, model))
+      .groupBy(bucketStart)
+      .orderBy(bucketStart);
+  }
+
+  // Analytics. Click counts come from the daily rollups and leave out bots.
+  async getClickTotal(from: Date, to: Date): Promise<number> {
+    const [{ clicks }] = await db
+      .select({ clicks: sql<number>`coalesce(sum(${clickRollups.clicks} - ${clickRollups.botClicks}), 0)::int` })
+      .from(clickRollups)
+      .where(and(eq(clickRollups.granularity, "day"), gte(clickRollups.bucketStart, from), lt(clickRollups.bucketStart, to)));
+    return clicks;
+  }
+
+  // Clicks grouped by a campaign field. Channel type, source and brand are
+  // copied onto the rollups; tactic and industry come from the placement.
+  async getClicksByDimension(
+    from: Date,
+    to: Date,
+    dimension: AnalyticsDimension,
+  ): Promise<{ key: string | null; clicks: number }[]> {
+    const key = clickDimensionColumns[dimension];
+    return await db
+      .select({
+        key,
+        clicks: sql<number>`sum(${clickRollups.clicks} - ${clickRollups.botClicks})::int`,
+      })
+      .from(clickRollups)
+      .innerJoin(marketingPlacements, eq(clickRollups.placementId, marketingPlacements.id))
+      .where(and(eq(clickRollups.granularity, "day"), gte(clickRollups.bucketStart, from), lt(clickRollups.bucketStart, to)))
+      .groupBy(key);
+  }
+
+  // Clicks per hour or day; buckets without clicks are left out
+  async getClickSeries(
+    granularity: RollupGranularity,
+    from: Date,
+    to: Date,
+  ): Promise<{ bucketStart: Date; clicks: number }[]> {
+    return await db
+      .select({
+        bucketStart: clickRollups.bucketStart,
+        clicks: sql<number>`sum(${clickRollups.clicks} - ${clickRollups.botClicks})::int`,
+      })
+      .from(clickRollups)
+      .where(and(eq(clickRollups.granularity, granularity), gte(clickRollups.bucketStart, from), lt(clickRollups.bucketStart, to)))
+      .groupBy(clickRollups.bucketStart)
+      .orderBy(asc(clickRollups.bucketStart));
+  }
+
+  async countActivePlacements(): Promise<number> {
+    const [{ total }] = await db.select({ total: count() }).from(marketingPlacements).where(eq(marketingPlacements.status, "active"));
+    return total;
+  }
+
+  // Campaigns that went live in the range, by the scheduler or by hand
+  async countPlacementActivations(from: Date, to: Date): Promise<number> {
+    const [{ total }] = await db
+      .select({ total: sql<number>`count(distinct ${placementStatusTransitions.placementId})::int` })
+      .from(placementStatusTransitions)
+      .where(
+        and(
+          eq(placementStatusTransitions.toStatus, "active"),
+          gte(placementStatusTransitions.createdAt, from),
+          lt(placementStatusTransitions.createdAt, to),
+        ),
+      );
+    return total;
+  }
+
+  // Audit entries since `from`, newest first, named after what they changed and
+  // optionally of some entity types only
+  async getRecentActivity(from: Date, limit: number, entityTypes?: AuditEntityType[]): Promise<AnalyticsActivity[]> {
+    const entity = (type: AuditEntityType, id: PgColumn) => and(eq(auditLog.entityType, type), eq(id, auditLog.entityId));
+    const rows = await db
+      .select({
+        id: auditLog.id,
+        entityType: auditLog.entityType,
+        entityId: auditLog.entityId,
+        action: auditLog.action,
+        entityName: sql<string | null>`coalesce(${marketingPlacements.title}, ${channelTypes.name}, ${categories.name}, ${partners.name}, ${thirdParties.name}, ${taxonomyNodes.name})`,
+        actorName: sql<string | null>`coalesce(nullif(trim(concat(${users.firstName}, ' ', ${users.lastName})), ''), ${users.email})`,
+        createdAt: auditLog.createdAt,
+      })
+      .from(auditLog)
+      .leftJoin(users, eq(auditLog.actorId, users.id))
+      .leftJoin(marketingPlacements, entity("placement", marketingPlacements.id))
+      .leftJoin(channelTypes, entity("channelType", channelTypes.id))
+      .leftJoin(categories, entity("category", categories.id))
+      .leftJoin(partners, entity("partner", partners.id))
+      .leftJoin(thirdParties, entity("thirdParty", thirdParties.id))
+      .leftJoin(taxonomyNodes, entity("taxonomyNode", taxonomyNodes.id))
+      .where(and(gte(auditLog.createdAt, from), entityTypes && inArray(auditLog.entityType, entityTypes)))
+      .orderBy(desc(auditLog.createdAt))
+      .limit(limit);
+    return rows.map((row) => ({ ...row, entityType: row.entityType as AuditEntityType }));
+  }
+
+  // Scheduler run history
+  async createSchedulerRun(trigger: string): Promise<SchedulerRun> {
+    const [run] = await db.insert(schedulerRuns).values({ trigger }).returning();
+    return run;
+  }
+
+  async finishSchedulerRun(
+    id: string,
+    result: Pick<SchedulerRun, 'activatedCount' | 'expiredCount' | 'errors'>,
+  ): Promise<SchedulerRun> {
+    const [run] = await db
+      .update(schedulerRuns)
+      .set({ ...result, finishedAt: new Date() })
+      .where(eq(schedulerRuns.id, id))
+      .returning();
+    return run;
+  }
+
+  async getSchedulerRuns(limit = 50): Promise<SchedulerRun[]> {
+    return await db.select().from(schedulerRuns).orderBy(desc(schedulerRuns.startedAt)).limit(limit);
+  }
+
+  // Tracking counter operations
+  // Reserves `count` consecutive numbers for a channel and returns the first one.
+  // The upsert takes a row lock on the counter, so concurrent callers never
+  // receive overlapping ranges.
+  async reserveTrackingNumbers(channelTypeId: string | null, count = 1): Promise<number> {
+    return await db.transaction(async (tx) => {
+      const [counter] = await tx
+        .insert(trackingCounter)
+        .values({ channelTypeId, currentCount: count, lastUpdated: new Date() })
+        .onConflictDoUpdate({
+          target: trackingCounter.channelTypeId,
+          set: {
+            currentCount: sql`${trackingCounter.currentCount} + ${count}`,
+            lastUpdated: new Date(),
+          },
+        })
+        .returning();
+      return (counter.currentCount ?? count) - count + 1;
+    });
+  }
+
   // Channel type operations
   async getChannelTypes(): Promise<ChannelType[]> {
     return await db.select().from(channelTypes);
   }
 
-  async createChannelType(channelType: Omit<ChannelType, 'id' | 'createdAt'>): Promise<ChannelType> {
-    const [created] = await db.insert(channelTypes).values(channelType).returning();
-    return created;
+  async getChannelType(id: string): Promise<ChannelType | undefined> {
+    const [channelType] = await db.select().from(channelTypes).where(eq(channelTypes.id, id));
+    return channelType;
+  }
+
+  async createChannelType(channelType: InsertChannelType, actorId?: string): Promise<ChannelType> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(channelTypes).values(channelType).returning();
+      await recordChange(tx, { entityType: "channelType", entityId: created.id, action: "create", actorId }, undefined, created);
+      return created;
+    });
+  }
+
+  async updateChannelType(id: string, channelType: Partial<InsertChannelType>, actorId?: string): Promise<ChannelType | undefined> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(channelTypes).where(eq(channelTypes.id, id)).for("update");
+      const [updated] = await tx
+        .update(channelTypes)
+        .set(channelType)
+        .where(eq(channelTypes.id, id))
+        .returning();
+      if (updated) {
+        await recordChange(tx, { entityType: "channelType", entityId: id, action: "update", actorId }, before, updated);
+      }
+      return updated;
+    });
   }
 
   // Category operations
@@ -110,9 +1336,105 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(categories);
   }
 
-  async createCategory(category: Omit<Category, 'id' | 'createdAt'>): Promise<Category> {
-    const [created] = await db.insert(categories).values(category).returning();
-    return created;
+  async getCategory(id: string): Promise<Category | undefined> {
+    const [category] = await db.select().from(categories).where(eq(categories.id, id));
+    return category;
+  }
+
+  async createCategory(category: InsertCategory, actorId?: string): Promise<Category> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(categories).values(category).returning();
+      await recordChange(tx, { entityType: "category", entityId: created.id, action: "create", actorId }, undefined, created);
+      return created;
+    });
+  }
+
+  async updateCategory(id: string, category: Partial<InsertCategory>, actorId?: string): Promise<Category | undefined> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(categories).where(eq(categories.id, id)).for("update");
+      const [updated] = await tx
+        .update(categories)
+        .set(category)
+        .where(eq(categories.id, id))
+        .returning();
+      if (updated) {
+        await recordChange(tx, { entityType: "category", entityId: id, action: "update", actorId }, before, updated);
+      }
+      return updated;
+    });
+  }
+  
+  // Taxonomy operations
+  async getTaxonomyNodes(): Promise<TaxonomyNode[]> {
+    return await db.select().from(taxonomyNodes).orderBy(asc(taxonomyNodes.sortOrder), asc(taxonomyNodes.name));
+  }
+
+  async getTaxonomyNode(id: string): Promise<TaxonomyNode | undefined> {
+    const [node] = await db.select().from(taxonomyNodes).where(eq(taxonomyNodes.id, id));
+    return node;
+  }
+
+  async createTaxonomyNode(node: InsertTaxonomyNode, actorId?: string): Promise<TaxonomyNode> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(taxonomyNodes).values(node).returning();
+      await recordChange(tx, { entityType: "taxonomyNode", entityId: created.id, action: "create", actorId }, undefined, created);
+      return created;
+    });
+  }
+
+  async updateTaxonomyNode(id: string, node: UpdateTaxonomyNode, actorId?: string): Promise<TaxonomyNode | undefined> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(taxonomyNodes).where(eq(taxonomyNodes.id, id)).for("update");
+      const [updated] = await tx
+        .update(taxonomyNodes)
+        .set({ ...node, updatedAt: new Date() })
+        .where(eq(taxonomyNodes.id, id))
+        .returning();
+      if (updated) {
+        await recordChange(tx, { entityType: "taxonomyNode", entityId: id, action: "update", actorId }, before, updated);
+      }
+      return updated;
+    });
+  }
+
+  async getTaxonomyVersions(): Promise<TaxonomyVersion[]> {
+    return await db.select().from(taxonomyVersions).orderBy(desc(taxonomyVersions.versionNumber));
+  }
+
+  async getTaxonomyVersion(id: string): Promise<TaxonomyVersion | undefined> {
+    const [version] = await db.select().from(taxonomyVersions).where(eq(taxonomyVersions.id, id));
+    return version;
+  }
+
+  async getEffectiveTaxonomyVersion(at: Date): Promise<TaxonomyVersion | undefined> {
+    const [version] = await db
+      .select()
+      .from(taxonomyVersions)
+      .where(lte(taxonomyVersions.effectiveFrom, at))
+      .orderBy(desc(taxonomyVersions.versionNumber))
+      .limit(1);
+    return version;
+  }
+
+  // Version numbers come from max() inside the transaction; the unique
+  // constraint on versionNumber rejects a concurrent publish of the same number
+  async createTaxonomyVersion(version: { effectiveFrom: Date; notes?: string; publishedBy?: string; snapshot: CampaignTaxonomy }): Promise<TaxonomyVersion> {
+    return await db.transaction(async (tx) => {
+      const [{ latest }] = await tx.select({ latest: max(taxonomyVersions.versionNumber) }).from(taxonomyVersions);
+      const [created] = await tx
+        .insert(taxonomyVersions)
+        .values({ ...version, versionNumber: (latest ?? 0) + 1 })
+        .returning();
+      // The snapshot is the whole tree; the entry records the publish, not its contents
+      const { snapshot, ...summary } = created;
+      await recordChange(
+        tx,
+        { entityType: "taxonomyVersion", entityId: created.id, action: "publish", actorId: version.publishedBy },
+        undefined,
+        summary,
+      );
+      return created;
+    });
   }
   
   // Partner operations
@@ -120,9 +1442,12 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(partners).orderBy(asc(partners.name));
   }
   
-  async createPartner(partner: InsertPartner): Promise<Partner> {
-    const [created] = await db.insert(partners).values(partner).returning();
-    return created;
+  async createPartner(partner: InsertPartner, actorId?: string): Promise<Partner> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(partners).values(partner).returning();
+      await recordChange(tx, { entityType: "partner", entityId: created.id, action: "create", actorId }, undefined, created);
+      return created;
+    });
   }
   
   async checkPartnerExists(name: string): Promise<boolean> {
@@ -135,9 +1460,12 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(thirdParties).orderBy(asc(thirdParties.name));
   }
   
-  async createThirdParty(thirdParty: InsertThirdParty): Promise<ThirdParty> {
-    const [created] = await db.insert(thirdParties).values(thirdParty).returning();
-    return created;
+  async createThirdParty(thirdParty: InsertThirdParty, actorId?: string): Promise<ThirdParty> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(thirdParties).values(thirdParty).returning();
+      await recordChange(tx, { entityType: "thirdParty", entityId: created.id, action: "create", actorId }, undefined, created);
+      return created;
+    });
   }
   
   async checkThirdPartyExists(name: string): Promise<boolean> {
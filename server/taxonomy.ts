@@ -0,0 +1,223 @@
+import { storage } from "./storage";
+import { log } from "./vite";
+import {
+  taxonomyParentKinds,
+  type InsertTaxonomyNode,
+  type PublishTaxonomyVersion,
+  type TaxonomyKind,
+  type TaxonomyNode,
+  type TaxonomyVersion,
+  type UpdateTaxonomyNode,
+} from "@shared/schema";
+import { buildTaxonomyTree, type CampaignTaxonomy } from "@shared/taxonomy";
+
+export class TaxonomyError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "TaxonomyError";
+  }
+}
+
+interface SeedNode {
+  name: string;
+  children?: SeedNode[];
+}
+
+const leaves = (...names: string[]): SeedNode[] => names.map((name) => ({ name }));
+
+// Initial taxonomy, matching the options CampaignForm used to hard-code
+const campaignTypeSeed: SeedNode[] = [
+  {
+    name: "Display Ads",
+    children: [
+      { name: "Google", children: [
+        { name: "Banner", children: leaves("Standard Banner", "Rich Media") },
+        { name: "Video", children: leaves("Interstitial", "Native") },
+      ] },
+      { name: "Facebook", children: [
+        { name: "Image", children: leaves("Standard Banner", "Native") },
+        { name: "Video", children: leaves("Interstitial", "Native") },
+        { name: "Carousel", children: leaves("Rich Media", "Native") },
+      ] },
+      { name: "LinkedIn", children: [
+        { name: "Banner", children: leaves("Standard Banner", "Rich Media") },
+        { name: "Text", children: leaves("Standard Banner") },
+      ] },
+    ],
+  },
+  {
+    name: "Email Campaign",
+    children: [
+      { name: "Email Newsletter", children: [
+        { name: "Text", children: leaves("Standard Banner") },
+        { name: "Image", children: leaves("Standard Banner", "Rich Media") },
+      ] },
+      { name: "Organic Social", children: [
+        { name: "Text", children: leaves("Standard Banner") },
+        { name: "Image", children: leaves("Standard Banner", "Rich Media") },
+        { name: "Video", children: leaves("Native", "Interstitial") },
+      ] },
+    ],
+  },
+  {
+    name: "Google Ads",
+    children: [
+      { name: "Google", children: [
+        { name: "Banner", children: leaves("Standard Banner", "Rich Media", "Expandable") },
+        { name: "Video", children: leaves("Interstitial", "Native") },
+        { name: "Text", children: leaves("Standard Banner") },
+      ] },
+      { name: "Paid Social", children: [
+        { name: "Image", children: leaves("Standard Banner", "Rich Media") },
+        { name: "Video", children: leaves("Interstitial", "Native") },
+        { name: "Carousel", children: leaves("Rich Media", "Native") },
+      ] },
+    ],
+  },
+  {
+    name: "Social Media",
+    children: [
+      { name: "Facebook", children: [
+        { name: "Image", children: leaves("Standard Banner", "Rich Media", "Native") },
+        { name: "Video", children: leaves("Interstitial", "Native") },
+        { name: "Carousel", children: leaves("Rich Media", "Native") },
+        { name: "Story", children: leaves("Native") },
+      ] },
+      { name: "LinkedIn", children: [
+        { name: "Banner", children: leaves("Standard Banner", "Rich Media") },
+        { name: "Text", children: leaves("Standard Banner") },
+        { name: "Image", children: leaves("Standard Banner", "Rich Media", "Native") },
+      ] },
+      { name: "Organic Social", children: [
+        { name: "Text", children: leaves("Standard Banner") },
+        { name: "Image", children: leaves("Standard Banner", "Rich Media", "Native") },
+        { name: "Video", children: leaves("Interstitial", "Native") },
+      ] },
+      { name: "Paid Social", children: [
+        { name: "Image", children: leaves("Standard Banner", "Rich Media", "Native") },
+        { name: "Video", children: leaves("Interstitial", "Native") },
+        { name: "Carousel", children: leaves("Rich Media", "Native") },
+      ] },
+    ],
+  },
+  {
+    name: "Video Campaign",
+    children: [
+      { name: "Google", children: [
+        { name: "Video", children: leaves("Interstitial", "Native", "Rich Media") },
+      ] },
+      { name: "Facebook", children: [
+        { name: "Video", children: leaves("Interstitial", "Native", "Rich Media") },
+        { name: "Story", children: leaves("Native") },
+      ] },
+      { name: "Paid Social", children: [
+        { name: "Video", children: leaves("Interstitial", "Native", "Rich Media") },
+        { name: "Carousel", children: leaves("Rich Media", "Native") },
+      ] },
+    ],
+  },
+];
+
+const costCenterSeed: SeedNode[] = [
+  { name: "Engineering", children: leaves("Engineering Projects", "Engineering Operations", "Engineering R&D") },
+  { name: "Marketing", children: leaves("Marketing Campaigns", "Marketing Events", "Marketing Content") },
+  { name: "Operations", children: leaves("Operations Support", "Operations Infrastructure", "Operations Maintenance") },
+  { name: "Product", children: leaves("Product Development", "Product Support", "Product Research") },
+  { name: "Sales", children: leaves("Sales Activities", "Sales Support", "Sales Training") },
+];
+
+// Each seeded tree is a list of root nodes plus the kinds of each level below them
+const taxonomySeed: { levels: TaxonomyKind[]; nodes: SeedNode[] }[] = [
+  { levels: ["campaignType", "campaignSource", "adType", "adTypeDetail"], nodes: campaignTypeSeed },
+  { levels: ["costCenter", "subLedger"], nodes: costCenterSeed },
+  { levels: ["brand"], nodes: leaves("Brand A", "Brand B", "Brand C", "Brand D") },
+  { levels: ["productCategory"], nodes: leaves("Consulting", "Electronics", "Hardware", "Services", "Software") },
+  { levels: ["productBrand"], nodes: leaves("Product Brand 1", "Product Brand 2", "Product Brand 3") },
+  { levels: ["industry"], nodes: leaves("Finance", "Healthcare", "Manufacturing", "Retail", "Technology") },
+  { levels: ["tactic"], nodes: leaves("Acquisition", "Awareness", "Consideration", "Conversion", "Retention") },
+  { levels: ["campaignOwner"], nodes: leaves("Campaign Manager", "Daniel Konig", "Marketing Manager") },
+];
+
+async function insertSeedNodes(nodes: SeedNode[], levels: TaxonomyKind[], parentId: string | null) {
+  const [kind, ...childLevels] = levels;
+  for (const node of nodes) {
+    const created = await storage.createTaxonomyNode({ kind, name: node.name, parentId });
+    if (node.children && childLevels.length > 0) {
+      await insertSeedNodes(node.children, childLevels, created.id);
+    }
+  }
+}
+
+// Populate the taxonomy tables on first start so the form has options
+export async function seedTaxonomyIfEmpty(): Promise<void> {
+  const existing = await storage.getTaxonomyNodes();
+  if (existing.length > 0) {
+    return;
+  }
+
+  for (const { levels, nodes } of taxonomySeed) {
+    await insertSeedNodes(nodes, levels, null);
+  }
+  log("seeded default campaign taxonomy");
+}
+
+// Dependent kinds must hang off a node of their parent kind; root kinds
+// (campaign types, cost centers, brands, ...) cannot have a parent
+async function assertValidParent(kind: TaxonomyKind, parentId: string | null | undefined) {
+  const parentKind = taxonomyParentKinds[kind];
+  if (!parentKind) {
+    if (parentId) {
+      throw new TaxonomyError(`A ${kind} cannot have a parent`);
+    }
+    return;
+  }
+
+  if (!parentId) {
+    throw new TaxonomyError(`A ${kind} needs a ${parentKind} parent`);
+  }
+  const parent = await storage.getTaxonomyNode(parentId);
+  if (!parent) {
+    throw new TaxonomyError("Parent node not found", 404);
+  }
+  if (parent.kind !== parentKind) {
+    throw new TaxonomyError(`A ${kind} must be placed under a ${parentKind}, not a ${parent.kind}`);
+  }
+}
+
+export async function addTaxonomyNode(data: InsertTaxonomyNode, actorId?: string): Promise<TaxonomyNode> {
+  await assertValidParent(data.kind, data.parentId);
+  return await storage.createTaxonomyNode(data, actorId);
+}
+
+// Rename, retire/restore or re-parent a node in the working taxonomy
+export async function editTaxonomyNode(id: string, data: UpdateTaxonomyNode, actorId?: string): Promise<TaxonomyNode> {
+  const node = await storage.getTaxonomyNode(id);
+  if (!node) {
+    throw new TaxonomyError("Taxonomy node not found", 404);
+  }
+  if (data.parentId !== undefined && data.parentId !== node.parentId) {
+    await assertValidParent(node.kind as TaxonomyKind, data.parentId);
+  }
+
+  const updated = await storage.updateTaxonomyNode(id, data, actorId);
+  return updated ?? node;
+}
+
+function toVersionSummary(version: TaxonomyVersion) {
+  return { id: version.id, versionNumber: version.versionNumber, effectiveFrom: version.effectiveFrom };
+}
+
+// The taxonomy in effect at a given time. Falls back to the working tree
+// until the first version has been published.
+export async function getEffectiveTaxonomy(at = new Date()): Promise<CampaignTaxonomy> {
+  const version = await storage.getEffectiveTaxonomyVersion(at);
+  if (version) {
+    return { ...version.snapshot, version: toVersionSummary(version) };
+  }
+  return { ...buildTaxonomyTree(await storage.getTaxonomyNodes()), version: null };
+}
+
+export async function publishTaxonomyVersion(data: PublishTaxonomyVersion, publishedBy?: string): Promise<TaxonomyVersion> {
+  const snapshot = buildTaxonomyTree(await storage.getTaxonomyNodes());
+  return await storage.createTaxonomyVersion({ ...data, publishedBy, snapshot });
+}
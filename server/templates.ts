@@ -0,0 +1,91 @@
+import { storage } from "./storage";
+import type { Actor } from "./lifecycle";
+import { formatAuditField } from "@shared/audit";
+import { hasPermission } from "@shared/permissions";
+import type { FieldErrors } from "@shared/validation";
+import type { CampaignTemplate, InsertCampaignTemplate } from "@shared/schema";
+
+export class TemplateError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+    public fieldErrors?: FieldErrors,
+  ) {
+    super(message);
+    this.name = "TemplateError";
+  }
+}
+
+// Empty strings and missing values count as the same "unset" value
+const normalize = (value: unknown) => JSON.stringify(value === "" ? null : value ?? null);
+
+// A template the actor may use: their own, or one its owner has shared
+export async function getUsableTemplate(id: string, actor: Actor): Promise<CampaignTemplate> {
+  const template = await storage.getCampaignTemplate(id);
+  if (!template || (template.ownerId !== actor.id && !template.isShared)) {
+    throw new TemplateError("Template not found", 404);
+  }
+  return template;
+}
+
+// Only the owner changes a template; admins can tidy up any of them,
+// shared or not
+async function getOwnedTemplate(id: string, actor: Actor): Promise<CampaignTemplate> {
+  if (hasPermission(actor.permissions, "settings:manage")) {
+    const template = await storage.getCampaignTemplate(id);
+    if (!template) {
+      throw new TemplateError("Template not found", 404);
+    }
+    return template;
+  }
+  const template = await getUsableTemplate(id, actor);
+  if (template.ownerId !== actor.id) {
+    throw new TemplateError("Only the template owner can change it", 403);
+  }
+  return template;
+}
+
+export async function updateTemplate(id: string, data: InsertCampaignTemplate, actor: Actor): Promise<CampaignTemplate> {
+  await getOwnedTemplate(id, actor);
+  const template = await storage.updateCampaignTemplate(id, data);
+  if (!template) {
+    throw new TemplateError("Template not found", 404);
+  }
+  return template;
+}
+
+export async function deleteTemplate(id: string, actor: Actor): Promise<void> {
+  await getOwnedTemplate(id, actor);
+  await storage.deleteCampaignTemplate(id);
+}
+
+// Reject values that differ from the template on its locked fields. Only the
+// given fields are checked, so a partial update leaves untouched fields alone.
+export function checkTemplateLocks(
+  template: CampaignTemplate,
+  values: Record<string, unknown>,
+  fields: string[] = Object.keys(values),
+) {
+  const fieldErrors: FieldErrors = {};
+  for (const field of template.lockedFields) {
+    if (fields.includes(field) && normalize(values[field]) !== normalize(template.values[field])) {
+      fieldErrors[field] = `${formatAuditField(field)} is locked by the "${template.name}" template`;
+    }
+  }
+  if (Object.keys(fieldErrors).length > 0) {
+    throw new TemplateError("Locked template fields cannot be changed", 400, fieldErrors);
+  }
+}
+
+// Locks of the template a placement was created from. The template may have
+// been deleted since, in which case nothing is locked any more.
+export async function checkPlacementTemplateLocks(
+  templateId: string | null,
+  values: Record<string, unknown>,
+  fields?: string[],
+) {
+  const template = templateId ? await storage.getCampaignTemplate(templateId) : undefined;
+  if (template) {
+    checkTemplateLocks(template, values, fields);
+  }
+}
@@ -0,0 +1,140 @@
+import { storage } from "./storage";
+import { buildTrackingUrl } from "@shared/trackingUrl";
+import type { ChannelType, InsertMarketingPlacement, MarketingPlacement, NewParentCampaign } from "@shared/schema";
+
+// Prefix used when a placement cannot be matched to a channel type
+export const DEFAULT_TRACKING_PREFIX = "CMP";
+
+// Number of digits the sequence number is padded to, e.g. SOC-000123
+const TRACKING_NUMBER_DIGITS = 6;
+
+// How often placement creation retries when a tracking code is already taken
+const MAX_TRACKING_CODE_ATTEMPTS = 3;
+
+// Postgres unique_violation error code
+const UNIQUE_VIOLATION = "23505";
+const TRACKING_CODE_CONSTRAINT = "marketing_placements_tracking_code_unique";
+
+export function isUniqueViolation(error: unknown, constraint?: string): boolean {
+  if (typeof error !== "object" || error === null) {
+    return false;
+  }
+  const { code, constraint: violated } = error as { code?: string; constraint?: string };
+  return code === UNIQUE_VIOLATION && (!constraint || violated === constraint);
+}
+
+// Resolve the channel type for a placement, either from an explicit
+// channelTypeId or by matching the campaign type against channel type names
+export async function resolveChannelType(
+  placement: Pick<InsertMarketingPlacement, "channelTypeId" | "campaignType">,
+): Promise<ChannelType | undefined> {
+  if (placement.channelTypeId) {
+    return await storage.getChannelType(placement.channelTypeId);
+  }
+
+  if (!placement.campaignType) {
+    return undefined;
+  }
+
+  const channelTypes = await storage.getChannelTypes();
+  const campaignType = placement.campaignType.toLowerCase();
+  return channelTypes.find((channelType) => channelType.name.toLowerCase() === campaignType);
+}
+
+export function formatTrackingCode(prefix: string, trackingNumber: number): string {
+  return `${prefix}-${String(trackingNumber).padStart(TRACKING_NUMBER_DIGITS, "0")}`;
+}
+
+// Reserve the next `count` tracking codes for a channel from trackingCounter
+export async function generateTrackingCodes(channelType: ChannelType | undefined, count = 1): Promise<string[]> {
+  const prefix = channelType?.prefix || DEFAULT_TRACKING_PREFIX;
+  const first = await storage.reserveTrackingNumbers(channelType?.id ?? null, count);
+  return Array.from({ length: count }, (_, offset) => formatTrackingCode(prefix, first + offset));
+}
+
+// Build the full tracking URL for a saved placement using its channel's template
+export async function buildPlacementTrackingUrl(placement: MarketingPlacement): Promise<string> {
+  const channelType = placement.channelTypeId ? await storage.getChannelType(placement.channelTypeId) : undefined;
+  return buildTrackingUrl(placement, channelType?.trackingTemplate);
+}
+
+// Create a placement with a freshly reserved tracking code. Codes that were
+// inserted by hand can still clash with the sequence, in which case the next
+// number is reserved and the insert is retried.
+export async function createTrackedPlacement(
+  placementData: InsertMarketingPlacement & { templateId?: string | null },
+  actorId?: string,
+): Promise<MarketingPlacement> {
+  const channelType = await resolveChannelType(placementData);
+  const taxonomyVersion = await storage.getEffectiveTaxonomyVersion(new Date());
+
+  for (let attempt = 1; ; attempt++) {
+    const [trackingCode] = await generateTrackingCodes(channelType);
+    try {
+      return await storage.createMarketingPlacement({
+        ...placementData,
+        channelTypeId: channelType?.id ?? null,
+        taxonomyVersionId: taxonomyVersion?.id ?? null,
+        trackingCode,
+        fullTrackingUrl: buildTrackingUrl({ ...placementData, trackingCode }, channelType?.trackingTemplate),
+        userId: actorId,
+      }, actorId);
+    } catch (error) {
+      if (attempt >= MAX_TRACKING_CODE_ATTEMPTS || !isUniqueViolation(error, TRACKING_CODE_CONSTRAINT)) {
+        throw error;
+      }
+    }
+  }
+}
+
+// Create many placements at once, all or nothing, optionally under a new parent
+// campaign. Tracking codes are reserved in one block per channel type; a clash
+// with a hand-inserted code retries the whole batch with fresh codes.
+export async function createTrackedPlacements(
+  placements: (InsertMarketingPlacement & { templateId?: string | null })[],
+  actorId?: string,
+  parent?: NewParentCampaign,
+): Promise<MarketingPlacement[]> {
+  // Placements without an explicit channel type share a lookup per campaign type
+  const channelTypesByKey = new Map<string, ChannelType | undefined>();
+  const channelTypes: (ChannelType | undefined)[] = [];
+  for (const placement of placements) {
+    const key = placement.channelTypeId ? `id:${placement.channelTypeId}` : `type:${placement.campaignType?.toLowerCase() ?? ""}`;
+    if (!channelTypesByKey.has(key)) {
+      channelTypesByKey.set(key, await resolveChannelType(placement));
+    }
+    channelTypes.push(channelTypesByKey.get(key));
+  }
+  const taxonomyVersion = await storage.getEffectiveTaxonomyVersion(new Date());
+
+  for (let attempt = 1; ; attempt++) {
+    const codesByChannel = new Map<string | null, string[]>();
+    for (const channelType of Array.from(new Set(channelTypes))) {
+      const count = channelTypes.filter((candidate) => candidate === channelType).length;
+      codesByChannel.set(channelType?.id ?? null, await generateTrackingCodes(channelType, count));
+    }
+
+    try {
+      return await storage.createMarketingPlacements(
+        placements.map((placementData, index) => {
+          const channelType = channelTypes[index];
+          const trackingCode = codesByChannel.get(channelType?.id ?? null)!.shift()!;
+          return {
+            ...placementData,
+            channelTypeId: channelType?.id ?? null,
+            taxonomyVersionId: taxonomyVersion?.id ?? null,
+            trackingCode,
+            fullTrackingUrl: buildTrackingUrl({ ...placementData, trackingCode }, channelType?.trackingTemplate),
+            userId: actorId,
+          };
+        }),
+        actorId,
+        parent,
+      );
+    } catch (error) {
+      if (attempt >= MAX_TRACKING_CODE_ATTEMPTS || !isUniqueViolation(error, TRACKING_CODE_CONSTRAINT)) {
+        throw error;
+      }
+    }
+  }
+}
@@ -0,0 +1,74 @@
+import { getEffectiveTaxonomy } from "./taxonomy";
+import { createTrackedPlacements } from "./tracking";
+import { checkTemplateLocks, getUsableTemplate } from "./templates";
+import type { Actor } from "./lifecycle";
+import { createPlacementSchema, toFieldErrors, type FieldErrors } from "@shared/validation";
+import { variantKey, variantLabel, variantTitle } from "@shared/variants";
+import type { InsertMarketingPlacement, MarketingPlacement, VariantCombination } from "@shared/schema";
+
+export class VariantError extends Error {
+  constructor(
+    message: string,
+    public status = 422,
+    // Errors of each invalid combination, keyed by its label
+    public variantErrors?: Record<string, FieldErrors>,
+  ) {
+    super(message);
+    this.name = "VariantError";
+  }
+}
+
+// Generate one placement per source / ad type combination from a single set of
+// campaign builder values, all under a new parent campaign. The shared values
+// are validated first, so their errors land on the form fields as usual; then
+// each combination is checked against the taxonomy and nothing is created if
+// any of them fails.
+export async function createPlacementVariants(
+  values: Record<string, unknown>,
+  variants: VariantCombination[],
+  actor: Actor,
+  templateId?: string,
+): Promise<MarketingPlacement[]> {
+  const schema = createPlacementSchema(await getEffectiveTaxonomy());
+  const base = schema.parse(values);
+  const template = templateId ? await getUsableTemplate(templateId, actor) : undefined;
+
+  const unique = Array.from(new Map(variants.map((variant) => [variantKey(variant), variant])).values());
+  const placements: InsertMarketingPlacement[] = [];
+  const variantErrors: Record<string, FieldErrors> = {};
+  for (const variant of unique) {
+    const result = schema.safeParse({
+      ...values,
+      campaignSource: variant.campaignSource,
+      adType: variant.adType,
+      adTypeDetail: variant.adTypeDetail ?? "",
+      title: variantTitle(base.title, variant),
+    });
+    if (result.success) {
+      placements.push(result.data);
+    } else {
+      variantErrors[variantLabel(variant)] = toFieldErrors(result.error);
+    }
+  }
+  if (Object.keys(variantErrors).length > 0) {
+    throw new VariantError(
+      `${Object.keys(variantErrors).length} of ${unique.length} combinations are not valid for this campaign`,
+      422,
+      variantErrors,
+    );
+  }
+
+  // Templates that lock the source or ad type leave no room for variants. The
+  // suffixed titles are checked as the title the user entered.
+  if (template) {
+    placements.forEach((placement) =>
+      checkTemplateLocks(template, { ...placement, title: base.title }, template.lockedFields),
+    );
+  }
+
+  return await createTrackedPlacements(
+    placements.map((placement) => ({ ...placement, templateId: template?.id })),
+    actor.id,
+    { title: base.title, userId: actor.id },
+  );
+}
@@ -0,0 +1,175 @@
+import { auditEntityLabels } from "./audit";
+import type { AnalyticsDimension, AnalyticsRange, AttributionModel, AuditEntityType, RollupGranularity } from "./schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const analyticsRangeDays: Record<AnalyticsRange, number> = {
+  "7d": 7,
+  "30d": 30,
+  "90d": 90,
+  "1y": 365,
+};
+
+export const analyticsRangeLabels: Record<AnalyticsRange, string> = {
+  "7d": "Last 7 days",
+  "30d": "Last 30 days",
+  "90d": "Last 90 days",
+  "1y": "Last year",
+};
+
+export const attributionModelLabels: Record<AttributionModel, string> = {
+  lastClick: "Last click",
+  firstClick: "First click",
+  linear: "Linear",
+};
+
+// "previous 30 days", for comparisons with the period before the selected one
+export function formatPreviousPeriod(range: AnalyticsRange): string {
+  return range === "1y" ? "previous year" : `previous ${analyticsRangeDays[range]} days`;
+}
+
+// Hourly points for a week, daily ones for anything longer
+export const analyticsRangeGranularity: Record<AnalyticsRange, RollupGranularity> = {
+  "7d": "hour",
+  "30d": "day",
+  "90d": "day",
+  "1y": "day",
+};
+
+export const analyticsDimensionLabels: Record<AnalyticsDimension, string> = {
+  channelType: "Channel Type",
+  campaignSource: "Campaign Source",
+  brand: "Brand",
+  tactic: "Tactic",
+  industry: "Industry",
+};
+
+// The selected period and the one just before it, of the same length
+export interface AnalyticsPeriod {
+  from: Date;
+  to: Date;
+  previousFrom: Date;
+}
+
+// Whole UTC days up to and including today, matching the daily click rollups
+export function getAnalyticsPeriod(range: AnalyticsRange, now = new Date()): AnalyticsPeriod {
+  const days = analyticsRangeDays[range];
+  const to = new Date((Math.floor(now.getTime() / DAY_MS) + 1) * DAY_MS);
+  const from = new Date(to.getTime() - days * DAY_MS);
+  return { from, to, previousFrom: new Date(from.getTime() - days * DAY_MS) };
+}
+
+// A metric for the selected period next to its value for the previous one.
+// Null when there is nothing to measure it from.
+export interface MetricComparison {
+  value: number | null;
+  previous: number | null;
+}
+
+// As returned by GET /api/analytics/summary
+export interface AnalyticsSummary {
+  range: AnalyticsRange;
+  from: Date;
+  to: Date;
+  // Clicks on campaign links, not counting bots
+  totalClicks: MetricComparison;
+  // Conversions credited to campaigns; fractional under linear attribution
+  conversions: MetricComparison;
+  // Conversions per hundred clicks
+  conversionRate: MetricComparison;
+  // Campaigns active right now, and how many were activated in each period
+  activeCampaigns: { value: number; started: number; previousStarted: number };
+}
+
+// One bucket of the selected period next to the bucket at the same offset
+// in the previous one
+export interface AnalyticsSeriesPoint {
+  bucketStart: Date;
+  clicks: number;
+  previousClicks: number;
+  conversions: number;
+  previousConversions: number;
+}
+
+// As returned by GET /api/analytics/timeseries, covering the selected period up to now
+export interface AnalyticsTimeseries {
+  range: AnalyticsRange;
+  granularity: RollupGranularity;
+  points: AnalyticsSeriesPoint[];
+}
+
+// As returned by GET /api/analytics/breakdown, busiest first. Campaigns
+// without a value for the dimension are grouped under a null key.
+export interface AnalyticsSegment {
+  key: string | null;
+  label: string;
+  // Channel type color, for the channel type breakdown
+  color: string | null;
+  clicks: number;
+  previousClicks: number;
+  conversions: number;
+  previousConversions: number;
+  // Conversions per hundred clicks
+  conversionRate: number | null;
+  // Percentage of all clicks in the period
+  share: number;
+}
+
+// As returned by GET /api/analytics/activity, newest first
+export interface AnalyticsActivity {
+  id: string;
+  entityType: AuditEntityType;
+  entityId: string;
+  action: string;
+  // Name or title of the entity, when it still exists
+  entityName: string | null;
+  actorName: string | null;
+  createdAt: Date | null;
+}
+
+// Percentage change from the previous period; null when there was nothing before
+export function percentChange(value: number | null, previous: number | null): number | null {
+  if (value === null || previous === null || previous === 0) return null;
+  return ((value - previous) / previous) * 100;
+}
+
+const activityVerbs: Record<string, string> = {
+  create: "Created",
+  import: "Imported",
+  update: "Updated",
+  restore: "Restored",
+  publish: "Published",
+  schedule: "Scheduled",
+  unschedule: "Moved Back to Draft",
+  activate: "Activated",
+  pause: "Paused",
+  archive: "Archived",
+  reactivate: "Reactivated",
+  expire: "Expired",
+  submitForApproval: "Submitted for Approval",
+  approve: "Approved",
+  reject: "Rejected",
+  resetApproval: "Approval Reset",
+};
+
+// Campaign Center link listing the campaigns behind a breakdown segment that
+// ran during the period. Null segments have no filter to link to.
+export function analyticsDrillDownUrl(
+  dimension: AnalyticsDimension,
+  key: string | null,
+  period: AnalyticsPeriod,
+): string | null {
+  if (key === null) return null;
+  const params = new URLSearchParams({
+    [dimension === "channelType" ? "channelTypeId" : dimension]: key,
+    // Campaign Center dates are whole days, the last one included
+    from: period.from.toISOString().slice(0, 10),
+    to: new Date(period.to.getTime() - 1).toISOString().slice(0, 10),
+  });
+  return `/campaigns?${params}`;
+}
+
+// "Campaign Created", "Channel Type Updated"
+export function formatActivity(entityType: AuditEntityType, action: string): string {
+  return `${auditEntityLabels[entityType] ?? entityType} ${activityVerbs[action] ?? action}`;
+}
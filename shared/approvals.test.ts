@@ -0,0 +1,57 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { getRulesBlockingLiveEdit } from "./approvals";
+import type { ApprovalRule } from "./schema";
+
+const bigBudget: ApprovalRule = {
+  id: "rule-1",
+  name: "Budgets over 10,000",
+  approverRole: "finance",
+  costCenter: null,
+  minBudget: 10000,
+  requiresPartner: false,
+  requiresThirdParty: false,
+  isActive: true,
+  createdAt: null,
+  updatedAt: null,
+};
+
+const partners: ApprovalRule = { ...bigBudget, id: "rule-2", name: "Partner campaigns", minBudget: null, requiresPartner: true };
+
+const livePlacement = { status: "active", budget: "$5,000", partnering: false, partnerName: null };
+
+describe("getRulesBlockingLiveEdit", () => {
+  it("blocks raising an active campaign's budget past a rule", () => {
+    const blocking = getRulesBlockingLiveEdit([bigBudget, partners], livePlacement, { budget: "$12,500" });
+    assert.deepEqual(blocking.map((rule) => rule.id), ["rule-1"]);
+  });
+
+  it("blocks adding a partner to a scheduled campaign", () => {
+    const blocking = getRulesBlockingLiveEdit([bigBudget, partners], { ...livePlacement, status: "scheduled" }, {
+      partnering: true,
+      partnerName: "Acme",
+    });
+    assert.deepEqual(blocking.map((rule) => rule.id), ["rule-2"]);
+  });
+
+  it("blocks an edit that resets an approval the rules still require", () => {
+    const approved = { ...livePlacement, budget: "$15,000", approvalStatus: "approved" };
+    const blocking = getRulesBlockingLiveEdit([bigBudget], approved, { budget: "$20,000" });
+    assert.deepEqual(blocking.map((rule) => rule.id), ["rule-1"]);
+  });
+
+  it("allows edits that stay under every rule", () => {
+    assert.deepEqual(getRulesBlockingLiveEdit([bigBudget, partners], livePlacement, { budget: "$8,000" }), []);
+  });
+
+  it("allows edits that leave the approval fields alone", () => {
+    const overBudget = { ...livePlacement, budget: "$15,000" };
+    assert.deepEqual(getRulesBlockingLiveEdit([bigBudget], overBudget, { budget: "$15,000", partnerName: "" }), []);
+  });
+
+  it("leaves drafts and paused campaigns to the approval check on going live", () => {
+    for (const status of ["draft", "paused"]) {
+      assert.deepEqual(getRulesBlockingLiveEdit([bigBudget], { ...livePlacement, status }, { budget: "$12,500" }), []);
+    }
+  });
+});
@@ -0,0 +1,99 @@
+import type { ApprovalRequest, ApprovalRule, ApprovalStatus, ApproverRole, MarketingPlacement } from "./schema";
+import type { Permission } from "./permissions";
+
+// Placement fields the approval rules look at. Changing any of them on a
+// pending or approved placement sends it back for approval.
+export const approvalFields = [
+  "budget",
+  "costCenter",
+  "subLedger",
+  "partnering",
+  "partnerName",
+  "thirdParty",
+  "thirdPartyName",
+] as const satisfies readonly (keyof MarketingPlacement)[];
+
+export const approverPermissions: Record<ApproverRole, Permission> = {
+  approver: "campaigns:approve",
+  finance: "budgets:approve",
+};
+
+export const approvalStatusLabels: Record<ApprovalStatus, string> = {
+  pending: "Awaiting Approval",
+  approved: "Approved",
+  rejected: "Rejected",
+};
+
+type ApprovalInput = Partial<Pick<MarketingPlacement, (typeof approvalFields)[number]>>;
+
+// Budgets are free text in the form ("$12,500", "12500.00"); the first
+// number in them is the amount
+export function parseBudget(budget: string | null | undefined): number | undefined {
+  const match = budget?.replace(/,/g, "").match(/\d+(\.\d+)?/);
+  return match ? parseFloat(match[0]) : undefined;
+}
+
+const isSet = (value: string | null | undefined) => !!value && value.trim() !== "";
+
+// A rule applies when all of its conditions hold; a rule without conditions
+// applies to every placement
+export function ruleApplies(rule: ApprovalRule, placement: ApprovalInput): boolean {
+  if (rule.isActive === false) {
+    return false;
+  }
+  if (rule.costCenter && placement.costCenter !== rule.costCenter) {
+    return false;
+  }
+  if (rule.minBudget !== null && rule.minBudget !== undefined) {
+    const budget = parseBudget(placement.budget);
+    if (budget === undefined || budget < rule.minBudget) {
+      return false;
+    }
+  }
+  if (rule.requiresPartner && !(placement.partnering || isSet(placement.partnerName))) {
+    return false;
+  }
+  if (rule.requiresThirdParty && !(placement.thirdParty || isSet(placement.thirdPartyName))) {
+    return false;
+  }
+  return true;
+}
+
+export function getApplicableRules(rules: ApprovalRule[], placement: ApprovalInput): ApprovalRule[] {
+  return rules.filter((rule) => ruleApplies(rule, placement));
+}
+
+// Whether an update changes a field the rules look at. Blank strings and
+// false count the same as unset.
+export function approvalFieldsChanged(before: ApprovalInput, updates: ApprovalInput): boolean {
+  return approvalFields.some((field) => field in updates && (updates[field] || null) !== (before[field] || null));
+}
+
+// Rules an edit to an active or scheduled placement would leave it going live
+// without. The edit resets any approval, so every rule that applies to the
+// edited placement counts; edits that leave the approval fields alone are free.
+export function getRulesBlockingLiveEdit(
+  rules: ApprovalRule[],
+  before: ApprovalInput & Pick<MarketingPlacement, "status">,
+  updates: ApprovalInput,
+): ApprovalRule[] {
+  if (before.status !== "active" && before.status !== "scheduled") {
+    return [];
+  }
+  if (!approvalFieldsChanged(before, updates)) {
+    return [];
+  }
+  return getApplicableRules(rules, { ...before, ...updates });
+}
+
+export function canDecide(request: ApprovalRequest, permissions: readonly Permission[] | null | undefined): boolean {
+  return request.status === "pending" && !!permissions?.includes(approverPermissions[request.approverRole as ApproverRole]);
+}
+
+// Response of GET /api/placements/:id/approvals
+export interface PlacementApprovals {
+  // Rules the placement currently has to pass before it can go live
+  required: Pick<ApprovalRule, "id" | "name" | "approverRole">[];
+  // All rounds, newest first
+  requests: ApprovalRequest[];
+}
@@ -0,0 +1,61 @@
+import type { AuditEntityType, AuditEntry } from "./schema";
+
+// Field-level diff stored with each audit entry
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+// Audit entry with the actor's details, as returned by GET /api/audit
+export interface AuditEntryWithActor extends AuditEntry {
+  actorEmail: string | null;
+  actorName: string | null;
+}
+
+export const auditEntityLabels: Record<AuditEntityType, string> = {
+  placement: "Campaign",
+  partner: "Partner",
+  thirdParty: "3rd Party",
+  channelType: "Channel Type",
+  category: "Category",
+  taxonomyNode: "Taxonomy Entry",
+  taxonomyVersion: "Taxonomy Version",
+};
+
+// Actions that create the entity; their entries list every field's initial value
+export const creationActions = ["create", "import"];
+
+// Bookkeeping columns that change on every write and say nothing about the edit
+const ignoredFields = new Set(["id", "createdAt", "updatedAt", "lastUpdated"]);
+
+const normalize = (value: unknown) => JSON.stringify(value ?? null);
+
+// Fields that differ between two versions of a row. Pass no `before` for a
+// newly created row.
+export function diffRecords(
+  before: Record<string, unknown> | undefined,
+  after: Record<string, unknown>,
+): AuditChanges {
+  const changes: AuditChanges = {};
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after)]);
+  for (const field of Array.from(fields)) {
+    if (ignoredFields.has(field)) continue;
+    const from = before?.[field] ?? null;
+    const to = after[field] ?? null;
+    if (normalize(from) !== normalize(to)) {
+      changes[field] = { from, to };
+    }
+  }
+  return changes;
+}
+
+// "baseUrl" → "Base url", "approval:Finance review" stays as is
+export function formatAuditField(field: string): string {
+  if (field.includes(":")) return field;
+  const words = field.replace(/([a-z0-9])([A-Z])/g, "$1 $2").toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+export function formatAuditValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
@@ -0,0 +1,24 @@
+import type { PlacementStatus, UserAgentClass } from "./schema";
+
+// Campaigns whose links send visitors to the fallback URL instead of the campaign
+export const fallbackRedirectStatuses: readonly PlacementStatus[] = ["paused", "archived"];
+
+// Query parameter that hands the click's ID to the campaign's landing page,
+// so the advertiser can report a conversion against that click
+export const clickIdParam = "click_id";
+
+// Path of the click-tracking redirect for a tracking code or short slug
+export function redirectPath(code: string): string {
+  return `/r/${encodeURIComponent(code)}`;
+}
+
+// Rough device class; bots are checked first as many claim to be browsers too
+export function classifyUserAgent(userAgent: string | undefined): UserAgentClass {
+  if (!userAgent) return "unknown";
+  if (/bot|crawl|spider|slurp|preview|facebookexternalhit|headless|curl|wget|python-requests/i.test(userAgent)) {
+    return "bot";
+  }
+  if (/ipad|tablet|kindle|silk|android(?!.*mobile)/i.test(userAgent)) return "tablet";
+  if (/mobi|iphone|ipod|android|windows phone/i.test(userAgent)) return "mobile";
+  return "desktop";
+}
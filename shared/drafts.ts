@@ -0,0 +1,20 @@
+import type { CampaignDraft, DraftValues } from "./schema";
+import type { PlacementFormData } from "./validation";
+
+const dateFields = ["startDate", "endDate"] as const;
+
+// Campaign builder values from a saved draft. Dates were stored as ISO
+// strings and go back to Date objects for the date pickers.
+export function draftToFormValues(values: DraftValues): Partial<PlacementFormData> {
+  const formValues: Record<string, unknown> = { ...values };
+  for (const field of dateFields) {
+    const value = values[field];
+    formValues[field] = typeof value === "string" && value ? new Date(value) : undefined;
+  }
+  return formValues as Partial<PlacementFormData>;
+}
+
+export function draftTitle(draft: CampaignDraft): string {
+  const title = draft.values.title;
+  return typeof title === "string" && title.trim() ? title.trim() : "Untitled campaign";
+}
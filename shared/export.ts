@@ -0,0 +1,62 @@
+import type { ExportColumn, ExportFormat, MarketingPlacement } from "./schema";
+
+export const exportColumnLabels: Record<ExportColumn, string> = {
+  id: "ID",
+  title: "Title",
+  trackingCode: "Tracking Code",
+  fullTrackingUrl: "Tracking URL",
+  baseUrl: "Base URL",
+  anchorTag: "Anchor Tag",
+  status: "Status",
+  approvalStatus: "Approval Status",
+  campaignType: "Campaign Type",
+  campaignSource: "Campaign Source",
+  adType: "Ad Type",
+  adTypeDetail: "Ad Type Detail",
+  targeting: "Targeting",
+  brand1: "Brand 1",
+  brand2: "Brand 2",
+  brand3: "Brand 3",
+  productCategory: "Product Category",
+  productBrand: "Product Brand",
+  campaignOwner: "Campaign Owner",
+  startDate: "Start Date",
+  endDate: "End Date",
+  description: "Description",
+  campaignNotes: "Campaign Notes",
+  projectReferenceNumber: "Project Reference Number",
+  budget: "Budget",
+  industry: "Industry",
+  tactic: "Tactic",
+  costCenter: "Cost Center",
+  subLedger: "Sub Ledger",
+  partnerName: "Partner Name",
+  thirdPartyName: "3rd Party Name",
+  createdAt: "Created",
+  updatedAt: "Last Updated",
+};
+
+// Columns used when the request does not choose any
+export const defaultExportColumns: ExportColumn[] = [
+  "title",
+  "trackingCode",
+  "fullTrackingUrl",
+  "status",
+  "campaignOwner",
+  "startDate",
+  "endDate",
+];
+
+export const exportFormatLabels: Record<ExportFormat, string> = {
+  csv: "CSV",
+  xlsx: "Excel (.xlsx)",
+  json: "JSON",
+};
+
+export type ExportValue = string | number | boolean | null;
+
+export function exportValue(placement: MarketingPlacement, column: ExportColumn): ExportValue {
+  const value = placement[column];
+  if (value instanceof Date) return value.toISOString();
+  return value ?? null;
+}
@@ -0,0 +1,87 @@
+import type { InsertMarketingPlacement } from "./schema";
+import type { FieldErrors } from "./validation";
+
+// Placement fields a spreadsheet column can be mapped to
+export type ImportField = Exclude<keyof InsertMarketingPlacement, "channelTypeId" | "categoryId" | "userId">;
+
+// One spreadsheet row after column mapping, as cell text
+export type ImportRow = Partial<Record<ImportField, string>>;
+
+// Validation outcome of a whole upload. `rows` only lists rows with errors;
+// row numbers are 1-based positions in the uploaded data, headers excluded.
+export interface ImportReport {
+  valid: number;
+  invalid: number;
+  rows: { row: number; errors: FieldErrors }[];
+}
+
+export const importFields: { field: ImportField; label: string; aliases?: string[] }[] = [
+  { field: "title", label: "Title", aliases: ["campaign", "campaign name", "name"] },
+  { field: "description", label: "Description" },
+  { field: "baseUrl", label: "Base URL", aliases: ["url", "landing page", "destination"] },
+  { field: "anchorTag", label: "Anchor Tag", aliases: ["anchor"] },
+  { field: "campaignType", label: "Campaign Type", aliases: ["channel"] },
+  { field: "campaignSource", label: "Campaign Source", aliases: ["source"] },
+  { field: "adType", label: "Ad Type" },
+  { field: "adTypeDetail", label: "Ad Type Detail" },
+  { field: "targeting", label: "Targeting" },
+  { field: "brand1", label: "Brand 1", aliases: ["brand"] },
+  { field: "brand2", label: "Brand 2" },
+  { field: "brand3", label: "Brand 3" },
+  { field: "productCategory", label: "Product Category" },
+  { field: "productBrand", label: "Product Brand" },
+  { field: "campaignOwner", label: "Campaign Owner", aliases: ["owner"] },
+  { field: "startDate", label: "Start Date", aliases: ["start"] },
+  { field: "endDate", label: "End Date", aliases: ["end"] },
+  { field: "campaignNotes", label: "Campaign Notes", aliases: ["notes"] },
+  { field: "projectReferenceNumber", label: "Project Reference Number", aliases: ["project reference", "project ref"] },
+  { field: "budget", label: "Budget" },
+  { field: "industry", label: "Industry" },
+  { field: "tactic", label: "Tactic" },
+  { field: "costCenter", label: "Cost Center", aliases: ["cost centre"] },
+  { field: "subLedger", label: "Sub Ledger" },
+  { field: "partnering", label: "Partnering" },
+  { field: "partnerName", label: "Partner Name", aliases: ["partner"] },
+  { field: "thirdParty", label: "3rd Party", aliases: ["third party"] },
+  { field: "thirdPartyName", label: "3rd Party Name", aliases: ["third party name"] },
+];
+
+const booleanFields = new Set<ImportField>(["targeting", "partnering", "thirdParty"]);
+const dateFields = new Set<ImportField>(["startDate", "endDate"]);
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+// The field a column header most likely means, matched on field name, label or alias
+export function guessImportField(header: string): ImportField | undefined {
+  const normalized = normalizeHeader(header);
+  return importFields.find(({ field, label, aliases = [] }) =>
+    [field, label, ...aliases].some((name) => normalizeHeader(name) === normalized),
+  )?.field;
+}
+
+const TRUE_VALUES = new Set(["yes", "y", "true", "1", "x"]);
+
+// "31/12/2025" is ambiguous, so only ISO dates and US month/day/year are read
+function parseImportDate(value: string): string {
+  const us = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (us) {
+    const [, month, day, year] = us;
+    return `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
+  }
+  return value;
+}
+
+// Turns cell text into placement schema input: blank cells are left out,
+// yes/no columns become booleans (blank meaning no) and dates are normalized
+export function importRowToPlacementInput(row: ImportRow): Record<string, unknown> {
+  const input: Record<string, unknown> = {};
+  for (const { field } of importFields) {
+    const value = row[field]?.trim() ?? "";
+    if (booleanFields.has(field)) {
+      input[field] = TRUE_VALUES.has(value.toLowerCase());
+    } else if (value !== "") {
+      input[field] = dateFields.has(field) ? parseImportDate(value) : value;
+    }
+  }
+  return input;
+}
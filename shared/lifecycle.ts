@@ -0,0 +1,68 @@
+import type { PlacementStatus } from "./schema";
+import type { Permission } from "./permissions";
+
+export interface PlacementAction {
+  label: string;
+  from: PlacementStatus[];
+  to: PlacementStatus;
+  // Permission needed on top of campaigns:edit
+  permission?: Permission;
+  // The placement must pass full validation first
+  requiresComplete?: boolean;
+  // Only performed by the scheduler, never exposed as an endpoint
+  systemOnly?: boolean;
+}
+
+// Allowed status transitions, each exposed as POST /api/placements/:id/<action>
+export const placementActions = {
+  schedule: { label: "Schedule", from: ["draft"], to: "scheduled", requiresComplete: true },
+  unschedule: { label: "Back to Draft", from: ["scheduled"], to: "draft" },
+  activate: { label: "Activate", from: ["draft", "scheduled", "paused"], to: "active", requiresComplete: true },
+  pause: { label: "Pause", from: ["active"], to: "paused" },
+  archive: { label: "Archive", from: ["draft", "scheduled", "active", "paused"], to: "archived" },
+  reactivate: { label: "Reactivate", from: ["archived"], to: "active", permission: "campaigns:override", requiresComplete: true },
+  expire: { label: "Expire", from: ["scheduled", "active", "paused"], to: "archived", systemOnly: true },
+} satisfies Record<string, PlacementAction>;
+
+export type PlacementActionName = keyof typeof placementActions;
+
+export const placementStatusLabels: Record<PlacementStatus, string> = {
+  draft: "Draft",
+  scheduled: "Scheduled",
+  active: "Active",
+  paused: "Paused",
+  archived: "Archived",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// End dates are picked as calendar days, so a campaign runs through its
+// whole last day. Anything ending before the returned time is over.
+export function endDateCutoff(now = new Date()): Date {
+  return new Date(now.getTime() - DAY_MS);
+}
+
+export function hasEnded(endDate: Date | string | null | undefined, now = new Date()): boolean {
+  return !!endDate && new Date(endDate) < endDateCutoff(now);
+}
+
+// Actions users can trigger through the API
+export const userPlacementActions = (Object.entries(placementActions) as [PlacementActionName, PlacementAction][])
+  .filter(([, action]) => !action.systemOnly)
+  .map(([name]) => name);
+
+// Actions available from a status to a user with the given permissions
+export function getAvailableActions(
+  status: string | null | undefined,
+  permissions: readonly Permission[] = [],
+): PlacementActionName[] {
+  if (!permissions.includes("campaigns:edit")) {
+    return [];
+  }
+
+  return userPlacementActions
+    .map((name) => [name, placementActions[name] as PlacementAction] as const)
+    .filter(([, action]) => action.from.includes((status ?? "draft") as PlacementStatus))
+    .filter(([, action]) => !action.permission || permissions.includes(action.permission))
+    .map(([name]) => name);
+}
@@ -0,0 +1,66 @@
+import type { User } from "./schema";
+
+export const roles = ["viewer", "campaignCreator", "approver", "finance", "admin"] as const;
+
+export type Role = (typeof roles)[number];
+
+export const permissions = [
+  // Browse campaigns, reference data and their history
+  "campaigns:view",
+  // Create and edit campaigns, partners and third parties, and move them through the lifecycle
+  "campaigns:edit",
+  // Lifecycle actions reserved for admins, such as reactivating an archived campaign
+  "campaigns:override",
+  // Approve or reject campaigns submitted for approval
+  "campaigns:approve",
+  // Approve campaign budgets
+  "budgets:approve",
+  "analytics:view",
+  // Taxonomy, channel types and the scheduler
+  "settings:manage",
+] as const;
+
+export type Permission = (typeof permissions)[number];
+
+const viewerPermissions: Permission[] = ["campaigns:view", "analytics:view"];
+
+export const rolePermissions: Record<Role, readonly Permission[]> = {
+  viewer: viewerPermissions,
+  campaignCreator: [...viewerPermissions, "campaigns:edit"],
+  approver: [...viewerPermissions, "campaigns:approve"],
+  finance: [...viewerPermissions, "budgets:approve"],
+  admin: permissions,
+};
+
+export const roleLabels: Record<Role, string> = {
+  viewer: "Viewer",
+  campaignCreator: "Campaign Creator",
+  approver: "Approver",
+  finance: "Finance",
+  admin: "Admin",
+};
+
+// Signed-in user as returned by GET /api/auth/user
+export type AuthUser = User & { permissions: Permission[] };
+
+export function isRole(value: string): value is Role {
+  return (roles as readonly string[]).includes(value);
+}
+
+// Effective permissions of a set of roles. Every signed-in user can view.
+export function permissionsForRoles(userRoles: readonly string[] | null | undefined): Permission[] {
+  const granted = new Set<Permission>(viewerPermissions);
+  for (const role of userRoles ?? []) {
+    if (isRole(role)) {
+      rolePermissions[role].forEach((permission) => granted.add(permission));
+    }
+  }
+  return permissions.filter((permission) => granted.has(permission));
+}
+
+export function hasPermission(
+  granted: readonly Permission[] | null | undefined,
+  permission: Permission,
+): boolean {
+  return !!granted?.includes(permission);
+}
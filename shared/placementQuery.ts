@@ -0,0 +1,26 @@
+import type { MarketingPlacement, PlacementExportQueryInput, PlacementQueryInput } from "./schema";
+
+// One page of GET /api/placements/query
+export interface PlacementPage {
+  items: MarketingPlacement[];
+  // Pass as `cursor` to fetch the next page; null on the last page
+  nextCursor: string | null;
+  // Matching placements across all pages
+  total: number;
+}
+
+// Query string for GET /api/placements/query and /export, leaving out empty filters
+export function toPlacementQueryString(query: PlacementQueryInput | PlacementExportQueryInput): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined || value === null || value === "") continue;
+    if (Array.isArray(value)) {
+      if (value.length > 0) params.set(key, value.join(","));
+    } else if (value instanceof Date) {
+      params.set(key, value.toISOString());
+    } else {
+      params.set(key, String(value));
+    }
+  }
+  return params.toString();
+}
@@ -0,0 +1,38 @@
+import {
+  insertMarketingPlacementSchema,
+  type InsertMarketingPlacement,
+  type MarketingPlacement,
+  type PlacementRevision,
+} from "./schema";
+
+export type RevisionField = keyof InsertMarketingPlacement;
+
+// Editable placement fields captured in a revision. The owner is not one of
+// them, so restoring an old version never hands the campaign to someone else.
+export const revisionFields = Object.keys(insertMarketingPlacementSchema.shape) as RevisionField[];
+
+// Stored as JSON, so dates come back as ISO strings. Unset fields are null
+// so a restore can clear them again.
+export type PlacementSnapshot = Partial<Record<RevisionField, unknown>>;
+
+// Revision with the author's details, as returned by GET /api/placements/:id/revisions
+export interface PlacementRevisionWithActor extends PlacementRevision {
+  actorEmail: string | null;
+  actorName: string | null;
+}
+
+export function toPlacementSnapshot(placement: Partial<MarketingPlacement>): PlacementSnapshot {
+  const snapshot: PlacementSnapshot = {};
+  for (const field of revisionFields) {
+    const value = placement[field as keyof MarketingPlacement];
+    snapshot[field] = value instanceof Date ? value.toISOString() : value ?? null;
+  }
+  return snapshot;
+}
+
+const normalize = (value: unknown) => JSON.stringify(value ?? null);
+
+// Fields whose values differ between two snapshots
+export function changedRevisionFields(a: PlacementSnapshot, b: PlacementSnapshot): RevisionField[] {
+  return revisionFields.filter((field) => normalize(a[field]) !== normalize(b[field]));
+}
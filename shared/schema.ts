@@ -8,9 +8,17 @@ import {
   text,
   integer,
   boolean,
+  numeric,
+  doublePrecision,
+  unique,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { CampaignTaxonomy } from "./taxonomy";
+import type { Role } from "./permissions";
+import type { AuditChanges } from "./audit";
+import type { PlacementSnapshot } from "./revisions";
 
 // Session storage table for Replit Auth
 export const sessions = pgTable(
@@ -30,7 +38,8 @@ export const users = pgTable("users", {
   firstName: varchar("first_name"),
   lastName: varchar("last_name"),
   profileImageUrl: varchar("profile_image_url"),
-  isAdmin: boolean("is_admin").default(false),
+  isAdmin: boolean("is_admin").default(false), // grants the admin role regardless of token claims
+  roles: text("roles").array().$type<Role[]>().default(sql`'{}'::text[]`), // from Azure AD app roles or groups
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -42,6 +51,7 @@ export const channelTypes = pgTable("channel_types", {
   prefix: varchar("prefix", { length: 10 }).notNull().unique(),
   color: varchar("color", { length: 7 }).default("#219DB8"),
   description: text("description"),
+  trackingTemplate: jsonb("tracking_template").$type<TrackingUrlTemplate>(),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -100,22 +110,393 @@ export const marketingPlacements = pgTable("marketing_placements", {
   // System fields
   channelTypeId: varchar("channel_type_id").references(() => channelTypes.id),
   categoryId: varchar("category_id").references(() => categories.id),
+  taxonomyVersionId: varchar("taxonomy_version_id").references((): AnyPgColumn => taxonomyVersions.id),
+  templateId: varchar("template_id").references((): AnyPgColumn => campaignTemplates.id, { onDelete: "set null" }),
+  parentCampaignId: varchar("parent_campaign_id").references((): AnyPgColumn => parentCampaigns.id),
   trackingCode: varchar("tracking_code").notNull().unique(),
   fullTrackingUrl: text("full_tracking_url"),
-  status: varchar("status").default("draft"), // draft, active, paused, archived
+  shortSlug: varchar("short_slug").unique(), // optional /r/<slug> alias of the tracking code
+  status: varchar("status").default("draft"), // see placementStatuses
+  approvalStatus: varchar("approval_status"), // see approvalStatuses; null until submitted
+  approvalRound: integer("approval_round").default(0),
   userId: varchar("user_id").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  // Campaign Center filters and default sort
+  index("IDX_placements_status").on(table.status),
+  index("IDX_placements_owner").on(table.campaignOwner),
+  index("IDX_placements_channel_type").on(table.channelTypeId),
+  index("IDX_placements_category").on(table.categoryId),
+  index("IDX_placements_start_date").on(table.startDate),
+  index("IDX_placements_created").on(table.createdAt, table.id),
+  index("IDX_placements_parent").on(table.parentCampaignId),
+]);
+
+// Groups the placements generated together in variants mode, one per
+// campaign source / ad type combination
+export const parentCampaigns = pgTable("parent_campaigns", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  title: varchar("title").notNull(),
+  userId: varchar("user_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
 });
 
-// Tracking counter for auto-incrementing
-export const trackingCounter = pgTable("tracking_counter", {
+// Campaign lifecycle statuses; changes go through the transitions in shared/lifecycle.ts
+export const placementStatuses = ["draft", "scheduled", "active", "paused", "archived"] as const;
+
+// History of status changes, one row per transition
+export const placementStatusTransitions = pgTable(
+  "placement_status_transitions",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    placementId: varchar("placement_id").notNull().references(() => marketingPlacements.id),
+    action: varchar("action").notNull(),
+    fromStatus: varchar("from_status").notNull(),
+    toStatus: varchar("to_status").notNull(),
+    reason: text("reason"),
+    actorId: varchar("actor_id").references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_status_transitions_placement").on(table.placementId)],
+);
+
+// Snapshot of a placement's editable fields, taken on every save. Revisions
+// are numbered per placement; restoring one saves it again as a new revision.
+export const placementRevisions = pgTable(
+  "placement_revisions",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    placementId: varchar("placement_id").notNull().references(() => marketingPlacements.id),
+    revision: integer("revision").notNull(),
+    snapshot: jsonb("snapshot").$type<PlacementSnapshot>().notNull(),
+    actorId: varchar("actor_id").references(() => users.id),
+    restoredFrom: integer("restored_from"), // revision this one restored, if any
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [unique("UQ_placement_revisions_revision").on(table.placementId, table.revision)],
+);
+
+// Approval outcome of a placement's latest submission
+export const approvalStatuses = ["pending", "approved", "rejected"] as const;
+
+// Roles that can be asked to approve, each backed by a permission
+export const approverRoles = ["approver", "finance"] as const;
+
+// Rules deciding which placements need approval and from whom. Every
+// condition that is set must hold for the rule to apply.
+export const approvalRules = pgTable("approval_rules", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  channelTypeId: varchar("channel_type_id").references(() => channelTypes.id),
-  currentCount: integer("current_count").default(1),
-  lastUpdated: timestamp("last_updated").defaultNow(),
+  name: varchar("name").notNull(),
+  approverRole: varchar("approver_role").notNull().default("approver"), // see approverRoles
+  costCenter: varchar("cost_center"),
+  minBudget: integer("min_budget"),
+  requiresPartner: boolean("requires_partner").default(false),
+  requiresThirdParty: boolean("requires_third_party").default(false),
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// One row per rule a submission has to pass. Each submission of a
+// placement starts a new round; earlier rounds are kept as history.
+export const approvalRequests = pgTable(
+  "approval_requests",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    placementId: varchar("placement_id").notNull().references(() => marketingPlacements.id),
+    round: integer("round").notNull(),
+    ruleId: varchar("rule_id").references(() => approvalRules.id),
+    ruleName: varchar("rule_name").notNull(),
+    approverRole: varchar("approver_role").notNull(),
+    status: varchar("status").notNull().default("pending"), // pending, approved, rejected, cancelled
+    submittedBy: varchar("submitted_by").references(() => users.id),
+    submittedAt: timestamp("submitted_at").defaultNow(),
+    submitComment: text("submit_comment"),
+    decidedBy: varchar("decided_by").references(() => users.id),
+    decidedAt: timestamp("decided_at"),
+    comment: text("comment"),
+  },
+  (table) => [index("IDX_approval_requests_placement").on(table.placementId)],
+);
+
+// Entities whose changes are recorded in the audit log
+export const auditEntityTypes = [
+  "placement",
+  "partner",
+  "thirdParty",
+  "channelType",
+  "category",
+  "taxonomyNode",
+  "taxonomyVersion",
+] as const;
+
+// Append-only record of every change to an audited entity. A database
+// trigger rejects updates and deletes (see server/audit.ts).
+export const auditLog = pgTable(
+  "audit_log",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    entityType: varchar("entity_type").notNull(), // see auditEntityTypes
+    entityId: varchar("entity_id").notNull(),
+    action: varchar("action").notNull(), // create, update, or the lifecycle/approval action
+    actorId: varchar("actor_id").references(() => users.id), // null for system changes
+    changes: jsonb("changes").$type<AuditChanges>().notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_audit_log_entity").on(table.entityType, table.entityId),
+    index("IDX_audit_log_actor").on(table.actorId),
+    index("IDX_audit_log_created").on(table.createdAt),
+  ],
+);
+
+// File formats placements can be exported as
+export const exportFormats = ["csv", "xlsx", "json"] as const;
+
+// Placement columns that can be exported, in their default order
+export const exportColumnKeys = [
+  "id",
+  "title",
+  "trackingCode",
+  "fullTrackingUrl",
+  "baseUrl",
+  "anchorTag",
+  "status",
+  "approvalStatus",
+  "campaignType",
+  "campaignSource",
+  "adType",
+  "adTypeDetail",
+  "targeting",
+  "brand1",
+  "brand2",
+  "brand3",
+  "productCategory",
+  "productBrand",
+  "campaignOwner",
+  "startDate",
+  "endDate",
+  "description",
+  "campaignNotes",
+  "projectReferenceNumber",
+  "budget",
+  "industry",
+  "tactic",
+  "costCenter",
+  "subLedger",
+  "partnerName",
+  "thirdPartyName",
+  "createdAt",
+  "updatedAt",
+] as const;
+
+// Saved column and format choices for exports, private to the user who saved them
+export const exportPresets = pgTable(
+  "export_presets",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    name: varchar("name").notNull(),
+    format: varchar("format").notNull().default("csv"), // see exportFormats
+    columns: jsonb("columns").$type<ExportColumn[]>().notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [unique("UQ_export_presets_name").on(table.userId, table.name)],
+);
+
+// Reusable starting points for new campaigns. Locked fields keep the owner's
+// values on every campaign created from the template.
+export const campaignTemplates = pgTable("campaign_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name").notNull(),
+  description: text("description"),
+  ownerId: varchar("owner_id").notNull().references(() => users.id),
+  isShared: boolean("is_shared").notNull().default(false),
+  values: jsonb("values").$type<TemplateValues>().notNull(),
+  lockedFields: jsonb("locked_fields").$type<TemplateField[]>().notNull().default([]),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Unfinished campaign builder forms, saved as the user types. Values are kept
+// as entered, without validation, until the campaign is created. `version`
+// goes up on every save so a stale tab cannot overwrite a newer save.
+export const campaignDrafts = pgTable(
+  "campaign_drafts",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    values: jsonb("values").$type<DraftValues>().notNull(),
+    templateId: varchar("template_id").references(() => campaignTemplates.id, { onDelete: "set null" }),
+    version: integer("version").notNull().default(1),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [index("IDX_campaign_drafts_user").on(table.userId, table.updatedAt)],
+);
+
+// Device class of a click, derived from its user agent
+export const userAgentClasses = ["desktop", "mobile", "tablet", "bot", "unknown"] as const;
+
+// One row per hit on a /r/<code> redirect. The IP is only kept as a salted
+// hash; the visitor ID comes from a cookie set by the redirect, and links a
+// browser's clicks for attribution.
+export const clickEvents = pgTable(
+  "click_events",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    placementId: varchar("placement_id").notNull().references(() => marketingPlacements.id, { onDelete: "cascade" }),
+    referrer: text("referrer"),
+    userAgentClass: varchar("user_agent_class").notNull(), // see userAgentClasses
+    ipHash: varchar("ip_hash"),
+    visitorId: varchar("visitor_id"),
+    viaShortLink: boolean("via_short_link").notNull().default(false),
+    // Sent to the fallback URL because the campaign was paused or archived
+    fallback: boolean("fallback").notNull().default(false),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => [
+    index("IDX_click_events_placement").on(table.placementId, table.createdAt),
+    index("IDX_click_events_visitor").on(table.visitorId, table.createdAt),
+  ],
+);
+
+export const rollupGranularities = ["hour", "day"] as const;
+
+// Click counts per placement and hour or day, rebuilt from click_events by
+// server/clickRollups.ts. The placement's dimensions are copied onto each row
+// so ranges can be grouped by them without joining placements.
+export const clickRollups = pgTable(
+  "click_rollups",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    granularity: varchar("granularity").notNull(), // see rollupGranularities
+    bucketStart: timestamp("bucket_start").notNull(),
+    placementId: varchar("placement_id").notNull().references(() => marketingPlacements.id, { onDelete: "cascade" }),
+    channelTypeId: varchar("channel_type_id"),
+    categoryId: varchar("category_id"),
+    campaignSource: varchar("campaign_source"),
+    brand: varchar("brand"),
+    clicks: integer("clicks").notNull().default(0),
+    // Distinct hashed IPs within the bucket
+    uniqueClicks: integer("unique_clicks").notNull().default(0),
+    botClicks: integer("bot_clicks").notNull().default(0),
+    fallbackClicks: integer("fallback_clicks").notNull().default(0),
+    shortLinkClicks: integer("short_link_clicks").notNull().default(0),
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  },
+  (table) => [
+    unique("UQ_click_rollups_bucket").on(table.granularity, table.bucketStart, table.placementId),
+    index("IDX_click_rollups_range").on(table.granularity, table.bucketStart),
+  ],
+);
+
+// History of click rollup runs. Each run rebuilt the buckets in [fromTime, toTime).
+export const clickRollupRuns = pgTable("click_rollup_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  trigger: varchar("trigger").notNull(), // startup, interval, manual, recompute
+  fromTime: timestamp("from_time").notNull(),
+  toTime: timestamp("to_time").notNull(),
+  startedAt: timestamp("started_at").defaultNow(),
+  finishedAt: timestamp("finished_at"),
+  hourlyRows: integer("hourly_rows").default(0),
+  dailyRows: integer("daily_rows").default(0),
+  purgedEvents: integer("purged_events").default(0),
+  errors: jsonb("errors").$type<string[]>().default([]),
+});
+
+export const clickRollupRangeSchema = z
+  .object({
+    from: z.coerce.date(),
+    to: z.coerce.date(),
+  })
+  .refine((range) => range.from <= range.to, { message: "The range must not end before it starts", path: ["to"] });
+
+// How a conversion's credit is shared between the clicks that led to it
+export const attributionModels = ["lastClick", "firstClick", "linear"] as const;
+
+// Where a conversion was reported from
+export const conversionSources = ["api", "pixel"] as const;
+
+// Conversions reported by advertisers through POST /api/conversions or the
+// image pixel. A repeated report with the same idempotency key is ignored.
+export const conversionEvents = pgTable(
+  "conversion_events",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    idempotencyKey: varchar("idempotency_key").notNull().unique(),
+    // Not a foreign key: raw clicks are purged after the retention period
+    clickId: varchar("click_id"),
+    trackingCode: varchar("tracking_code"),
+    value: numeric("value", { precision: 14, scale: 2 }),
+    currency: varchar("currency", { length: 3 }),
+    source: varchar("source").notNull(), // see conversionSources
+    occurredAt: timestamp("occurred_at").notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_conversion_events_occurred").on(table.occurredAt)],
+);
+
+// Share of a conversion credited to each placement, one set of rows per
+// attribution model. The credits of a conversion add up to 1 for each model.
+export const conversionAttributions = pgTable(
+  "conversion_attributions",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    conversionId: varchar("conversion_id").notNull().references(() => conversionEvents.id, { onDelete: "cascade" }),
+    placementId: varchar("placement_id").notNull().references(() => marketingPlacements.id, { onDelete: "cascade" }),
+    model: varchar("model").notNull(), // see attributionModels
+    credit: doublePrecision("credit").notNull(),
+    // Copied from the conversion so ranges can be queried without a join
+    occurredAt: timestamp("occurred_at").notNull(),
+  },
+  (table) => [
+    index("IDX_conversion_attributions_range").on(table.model, table.occurredAt),
+    index("IDX_conversion_attributions_conversion").on(table.conversionId),
+  ],
+);
+
+// Reporting periods offered on the Analytics page
+export const analyticsRanges = ["7d", "30d", "90d", "1y"] as const;
+
+export const analyticsQuerySchema = z.object({
+  range: z.enum(analyticsRanges).default("30d"),
+  model: z.enum(attributionModels).default("lastClick"),
+});
+
+// Campaign fields the performance charts can break clicks and conversions down by
+export const analyticsDimensions = ["channelType", "campaignSource", "brand", "tactic", "industry"] as const;
+
+export const analyticsBreakdownQuerySchema = analyticsQuerySchema.extend({
+  dimension: z.enum(analyticsDimensions).default("channelType"),
+});
+
+// History of campaign scheduler runs
+export const schedulerRuns = pgTable("scheduler_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  trigger: varchar("trigger").notNull(), // startup, interval, manual
+  startedAt: timestamp("started_at").defaultNow(),
+  finishedAt: timestamp("finished_at"),
+  activatedCount: integer("activated_count").default(0),
+  expiredCount: integer("expired_count").default(0),
+  errors: jsonb("errors").$type<string[]>().default([]),
+});
+
+// Tracking counter for auto-incrementing, one row per channel type.
+// currentCount holds the last number handed out; the row with a null
+// channelTypeId sequences placements that have no channel type.
+export const trackingCounter = pgTable(
+  "tracking_counter",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    channelTypeId: varchar("channel_type_id").references(() => channelTypes.id),
+    currentCount: integer("current_count").default(1),
+    lastUpdated: timestamp("last_updated").defaultNow(),
+  },
+  (table) => [unique("UQ_tracking_counter_channel_type").on(table.channelTypeId).nullsNotDistinct()],
+);
+
 // Admin UI settings
 export const uiSettings = pgTable("ui_settings", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -152,6 +533,112 @@ export const thirdParties = pgTable("third_parties", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Campaign taxonomy: the option lists behind CampaignForm's dropdowns
+export const taxonomyKinds = [
+  "campaignType",
+  "campaignSource",
+  "adType",
+  "adTypeDetail",
+  "costCenter",
+  "subLedger",
+  "brand",
+  "productCategory",
+  "productBrand",
+  "industry",
+  "tactic",
+  "campaignOwner",
+] as const;
+
+// Dependent kinds and the kind their parent node must have
+export const taxonomyParentKinds: Partial<Record<TaxonomyKind, TaxonomyKind>> = {
+  campaignSource: "campaignType",
+  adType: "campaignSource",
+  adTypeDetail: "adType",
+  subLedger: "costCenter",
+};
+
+export const taxonomyNodes = pgTable(
+  "taxonomy_nodes",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    kind: varchar("kind").notNull(),
+    name: varchar("name").notNull(),
+    parentId: varchar("parent_id").references((): AnyPgColumn => taxonomyNodes.id),
+    sortOrder: integer("sort_order").default(0),
+    isActive: boolean("is_active").default(true),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_taxonomy_nodes_parent").on(table.parentId),
+    unique("UQ_taxonomy_nodes_name").on(table.kind, table.parentId, table.name).nullsNotDistinct(),
+  ],
+);
+
+// Published taxonomy versions. Each version freezes the tree as it was when
+// published; the newest version whose effectiveFrom has passed is the one the
+// campaign builder uses.
+export const taxonomyVersions = pgTable("taxonomy_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  versionNumber: integer("version_number").notNull().unique(),
+  effectiveFrom: timestamp("effective_from").notNull(),
+  snapshot: jsonb("snapshot").$type<CampaignTaxonomy>().notNull(),
+  notes: text("notes"),
+  publishedBy: varchar("published_by").references(() => users.id),
+  publishedAt: timestamp("published_at").defaultNow(),
+});
+
+// Tracking URL templates, stored per channel type
+export const trackingUrlFormats = ["utm", "adobe", "custom"] as const;
+
+// Placement fields that may be referenced as {field} tokens in template values
+export const trackingUrlTokens = [
+  "trackingCode",
+  "title",
+  "campaignType",
+  "campaignSource",
+  "adType",
+  "adTypeDetail",
+  "brand1",
+  "brand2",
+  "brand3",
+  "productCategory",
+  "productBrand",
+  "industry",
+  "tactic",
+  "campaignOwner",
+  "costCenter",
+  "subLedger",
+  "projectReferenceNumber",
+] as const;
+
+// Filters that can be applied to a token, e.g. {campaignSource|slug}
+export const trackingUrlTokenFilters = ["lower", "upper", "slug"] as const;
+
+// Matches {field} and {field|filter} tokens in template values
+export const trackingUrlTokenPattern = /\{(\w+)(?:\|(\w+))?\}/g;
+
+export const trackingUrlTemplateSchema = z.object({
+  format: z.enum(trackingUrlFormats),
+  params: z
+    .array(
+      z.object({
+        key: z.string().trim().min(1, "Parameter name is required"),
+        value: z.string().superRefine((value, ctx) => {
+          for (const [token, field, filter] of Array.from(value.matchAll(trackingUrlTokenPattern))) {
+            if (!(trackingUrlTokens as readonly string[]).includes(field)) {
+              ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown field in ${token}` });
+            }
+            if (filter && !(trackingUrlTokenFilters as readonly string[]).includes(filter)) {
+              ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown filter in ${token}` });
+            }
+          }
+        }),
+      }),
+    )
+    .default([]),
+});
+
 // Zod schemas for validation
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
@@ -159,10 +646,14 @@ export const insertUserSchema = createInsertSchema(users).omit({
   updatedAt: true,
 });
 
-export const insertChannelTypeSchema = createInsertSchema(channelTypes).omit({
-  id: true,
-  createdAt: true,
-});
+export const insertChannelTypeSchema = createInsertSchema(channelTypes)
+  .omit({
+    id: true,
+    createdAt: true,
+  })
+  .extend({
+    trackingTemplate: trackingUrlTemplateSchema.nullish(),
+  });
 
 export const insertCategorySchema = createInsertSchema(categories).omit({
   id: true,
@@ -174,6 +665,15 @@ export const insertMarketingPlacementSchema = createInsertSchema(marketingPlacem
     id: true,
     trackingCode: true,
     fullTrackingUrl: true,
+    taxonomyVersionId: true,
+    templateId: true,
+    // The owner is whoever creates the placement, set on the server
+    userId: true,
+    parentCampaignId: true,
+    shortSlug: true,
+    status: true,
+    approvalStatus: true,
+    approvalRound: true,
     createdAt: true,
     updatedAt: true,
   })
@@ -188,15 +688,306 @@ export const insertMarketingPlacementSchema = createInsertSchema(marketingPlacem
     brand1: z.string().min(1, "Brand 1 is required"),
     productCategory: z.string().min(1, "Product category is required"),
     campaignOwner: z.string().min(1, "Campaign owner is required"),
-    startDate: z.date({ required_error: "Start date is required" }),
+    startDate: z.coerce.date({ required_error: "Start date is required" }),
+    endDate: z.coerce.date().nullish(),
+    campaignNotes: z.string().min(1, "Campaign notes are required"),
     projectReferenceNumber: z.string().min(1, "Project reference number is required"),
     industry: z.string().min(1, "Industry is required"),
     tactic: z.string().min(1, "Tactic is required"),
-    costCenter: z.string().min(1, "Cost center is required"),
     partnering: z.boolean(),
     thirdParty: z.boolean(),
+
+    // Optional fields the campaign builder leaves as empty strings
+    description: z.string().optional(),
+    anchorTag: z.string().optional(),
+    adTypeDetail: z.string().optional(),
+    brand2: z.string().optional(),
+    brand3: z.string().optional(),
+    productBrand: z.string().optional(),
+    budget: z.string().optional(),
+    costCenter: z.string().optional(),
+    subLedger: z.string().optional(),
+    partnerName: z.string().optional(),
+    thirdPartyName: z.string().optional(),
+  });
+
+export const insertTaxonomyNodeSchema = createInsertSchema(taxonomyNodes)
+  .omit({
+    id: true,
+    createdAt: true,
+    updatedAt: true,
+  })
+  .extend({
+    kind: z.enum(taxonomyKinds),
+    name: z.string().trim().min(1, "Name is required"),
+  });
+
+export const updateTaxonomyNodeSchema = insertTaxonomyNodeSchema
+  .pick({ name: true, parentId: true, sortOrder: true, isActive: true })
+  .partial();
+
+export const publishTaxonomyVersionSchema = z.object({
+  effectiveFrom: z.coerce.date({ required_error: "Effective date is required" }),
+  notes: z.string().optional(),
+});
+
+export const insertApprovalRuleSchema = createInsertSchema(approvalRules)
+  .omit({
+    id: true,
+    createdAt: true,
+    updatedAt: true,
+  })
+  .extend({
+    name: z.string().trim().min(1, "Name is required"),
+    approverRole: z.enum(approverRoles),
+    minBudget: z.coerce.number().int().nonnegative().nullish(),
+  });
+
+export const updateApprovalRuleSchema = insertApprovalRuleSchema.partial();
+
+export const approvalDecisionSchema = z.object({
+  comment: z.string().trim().optional(),
+});
+
+export const approvalRejectionSchema = z.object({
+  comment: z.string().trim().min(1, "A comment is required when rejecting"),
+});
+
+// Query parameters of GET /api/audit
+export const auditQuerySchema = z.object({
+  entityType: z.enum(auditEntityTypes).optional(),
+  entityId: z.string().optional(),
+  // User id, or part of the user's email
+  actor: z.string().trim().min(1).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  // Cursor: only entries after this one, given by its time and id, in the
+  // newest-first order. Entries written together share a time.
+  before: z.coerce.date().optional(),
+  beforeId: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+// Columns the Campaign Center can sort by
+export const placementSortFields = [
+  "createdAt",
+  "updatedAt",
+  "title",
+  "status",
+  "campaignOwner",
+  "startDate",
+  "endDate",
+  "trackingCode",
+  "costCenter",
+] as const;
+
+// Sort fields holding timestamps; their cursor keys are ISO dates
+export const placementDateSortFields = ["createdAt", "updatedAt", "startDate", "endDate"] as const satisfies readonly (typeof placementSortFields)[number][];
+
+const sortSpecSchema = z.object({
+  field: z.enum(placementSortFields),
+  direction: z.enum(["asc", "desc"]),
+});
+
+// Accepts repeated query parameters as well as comma separated lists
+const listParam = <T extends z.ZodTypeAny>(item: T) =>
+  z.preprocess(
+    (value) => (typeof value === "string" ? value.split(",").filter(Boolean) : value),
+    z.array(item).optional(),
+  );
+
+// Query parameters of GET /api/placements/query
+export const placementQuerySchema = z.object({
+  // Free text matched against title, notes and tracking code
+  q: z.string().trim().min(1).optional(),
+  status: listParam(z.enum(placementStatuses)),
+  owner: z.string().trim().min(1).optional(),
+  channelTypeId: listParam(z.string()),
+  categoryId: listParam(z.string()),
+  // Matches any of the three brand fields
+  brand: z.string().trim().min(1).optional(),
+  costCenter: listParam(z.string()),
+  campaignSource: listParam(z.string()),
+  tactic: listParam(z.string()),
+  industry: listParam(z.string()),
+  partner: z.string().trim().min(1).optional(),
+  // Placements running at some point in this range
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  // "startDate:desc,title:asc"; a direction-less field sorts ascending
+  sort: z
+    .string()
+    .default("createdAt:desc")
+    .transform((value, ctx) => {
+      const specs = value.split(",").filter(Boolean).map((part) => {
+        const [field, direction = "asc"] = part.split(":");
+        return sortSpecSchema.safeParse({ field, direction });
+      });
+      const invalid = specs.find((spec) => !spec.success);
+      if (invalid || specs.length === 0) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid sort "${value}"`, path: ["sort"] });
+        return z.NEVER;
+      }
+      return specs.map((spec) => spec.data!);
+    }),
+  // Opaque cursor from the previous page's nextCursor
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+// Query parameters of GET /api/placements/export: the Campaign Center filters
+// and sort, plus the file format and columns
+export const placementExportSchema = placementQuerySchema.omit({ cursor: true, limit: true }).extend({
+  format: z.enum(exportFormats).default("csv"),
+  columns: listParam(z.enum(exportColumnKeys)),
+});
+
+export const insertExportPresetSchema = createInsertSchema(exportPresets)
+  .omit({
+    id: true,
+    userId: true,
+    createdAt: true,
+  })
+  .extend({
+    name: z.string().trim().min(1, "Name is required"),
+    format: z.enum(exportFormats),
+    columns: z.array(z.enum(exportColumnKeys)).min(1, "Choose at least one column"),
+  });
+
+// Campaign fields a template can carry: everything on the form except the
+// dates, which belong to each run of a campaign
+export const templateValuesSchema = insertMarketingPlacementSchema
+  .omit({
+    channelTypeId: true,
+    categoryId: true,
+    startDate: true,
+    endDate: true,
+  })
+  .partial();
+
+export const templateFields = Object.keys(templateValuesSchema.shape) as (keyof typeof templateValuesSchema.shape)[];
+
+export const insertCampaignTemplateSchema = createInsertSchema(campaignTemplates)
+  .omit({
+    id: true,
+    ownerId: true,
+    createdAt: true,
+    updatedAt: true,
+  })
+  .extend({
+    name: z.string().trim().min(1, "Name is required"),
+    description: z.string().nullish(),
+    isShared: z.boolean().default(false),
+    values: templateValuesSchema,
+    lockedFields: z.array(z.enum(templateFields as [TemplateField, ...TemplateField[]])).default([]),
+  })
+  .superRefine((template, ctx) => {
+    for (const field of template.lockedFields) {
+      const value = template.values[field];
+      if (value === undefined || value === null || value === "") {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["values", field],
+          message: "A locked field needs a value",
+        });
+      }
+    }
   });
 
+// Body of PUT /api/placements/:id/short-link; a slug is generated when none is given
+export const shortLinkSchema = z.object({
+  slug: z
+    .string()
+    .trim()
+    .regex(/^[A-Za-z0-9][A-Za-z0-9-]{2,39}$/, "Use 3 to 40 letters, digits or dashes, starting with a letter or digit")
+    .optional(),
+});
+
+// Body of PUT /api/settings/redirect-fallback
+export const redirectFallbackSchema = z.object({
+  url: z.string().trim().url("Must be a valid URL").or(z.literal("")),
+});
+
+// A conversion reported to POST /api/conversions or the pixel. It is tied to
+// the click that led to it, or failing that to a campaign's tracking code.
+export const conversionReportSchema = z
+  .object({
+    idempotencyKey: z.string().trim().min(1, "An idempotency key is required").max(200),
+    clickId: z.string().trim().min(1).optional(),
+    trackingCode: z.string().trim().min(1).optional(),
+    value: z.coerce.number().nonnegative().max(999_999_999_999).optional(),
+    currency: z
+      .string()
+      .trim()
+      .regex(/^[A-Za-z]{3}$/, "Use a three-letter currency code")
+      .transform((code) => code.toUpperCase())
+      .optional(),
+    // Defaults to the time of the report
+    occurredAt: z.coerce.date().optional(),
+  })
+  .refine((report) => report.clickId || report.trackingCode, {
+    message: "A click ID or tracking code is required",
+    path: ["clickId"],
+  })
+  .refine((report) => report.value === undefined || report.currency, {
+    message: "A currency is required with a value",
+    path: ["currency"],
+  });
+
+export const attributionSettingsSchema = z.object({
+  lookbackDays: z.coerce.number().int().min(1, "Use at least 1 day"),
+});
+
+// Most placements generated from one campaign in variants mode
+export const MAX_VARIANTS = 50;
+
+// One campaign source / ad type (/ ad type detail) combination of a variant
+export const variantCombinationSchema = z.object({
+  campaignSource: z.string().min(1, "Campaign source is required"),
+  adType: z.string().min(1, "Ad type is required"),
+  adTypeDetail: z.string().optional(),
+});
+
+// Body of POST /api/placements/variants: the campaign builder values shared by
+// every variant, plus the combinations to generate
+export const placementVariantsSchema = z.object({
+  placement: z.record(z.string(), z.unknown()),
+  variants: z
+    .array(variantCombinationSchema)
+    .min(1, "Choose at least one combination")
+    .max(MAX_VARIANTS, `Generate at most ${MAX_VARIANTS} variants at a time`),
+});
+
+// Draft values as the form held them; dates arrive as ISO strings
+export const draftValuesSchema = z.record(z.string(), z.unknown());
+
+export const insertCampaignDraftSchema = z.object({
+  values: draftValuesSchema,
+  templateId: z.string().nullish(),
+});
+
+// Saves send the version they started from; a mismatch means another tab saved first
+export const updateCampaignDraftSchema = insertCampaignDraftSchema.extend({
+  version: z.number().int().min(1),
+});
+
+// Query parameters of GET /api/search
+export const searchQuerySchema = z.object({
+  q: z.string().trim().min(2, "Search needs at least 2 characters"),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+// Largest spreadsheet accepted by the bulk import
+export const MAX_IMPORT_ROWS = 500;
+
+// Body of the bulk import endpoints: mapped rows as cell text
+export const placementImportSchema = z.object({
+  rows: z
+    .array(z.record(z.string(), z.string()))
+    .min(1, "The file has no rows to import")
+    .max(MAX_IMPORT_ROWS, `Import at most ${MAX_IMPORT_ROWS} rows at a time`),
+});
+
 export const insertHelpContentSchema = createInsertSchema(helpContent).omit({
   id: true,
   updatedAt: true,
@@ -219,6 +1010,11 @@ export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 
+export type TrackingUrlFormat = (typeof trackingUrlFormats)[number];
+export type TrackingUrlToken = (typeof trackingUrlTokens)[number];
+export type TrackingUrlTokenFilter = (typeof trackingUrlTokenFilters)[number];
+export type TrackingUrlTemplate = z.infer<typeof trackingUrlTemplateSchema>;
+
 export type ChannelType = typeof channelTypes.$inferSelect;
 export type InsertChannelType = z.infer<typeof insertChannelTypeSchema>;
 
@@ -226,8 +1022,84 @@ export type Category = typeof categories.$inferSelect;
 export type InsertCategory = z.infer<typeof insertCategorySchema>;
 
 export type MarketingPlacement = typeof marketingPlacements.$inferSelect;
+export type NewMarketingPlacement = typeof marketingPlacements.$inferInsert;
 export type InsertMarketingPlacement = z.infer<typeof insertMarketingPlacementSchema>;
 
+export type UserAgentClass = (typeof userAgentClasses)[number];
+export type ClickEvent = typeof clickEvents.$inferSelect;
+export type NewClickEvent = typeof clickEvents.$inferInsert;
+export type RollupGranularity = (typeof rollupGranularities)[number];
+export type ClickRollup = typeof clickRollups.$inferSelect;
+export type ClickRollupRun = typeof clickRollupRuns.$inferSelect;
+export type ClickRollupRange = z.infer<typeof clickRollupRangeSchema>;
+export type AnalyticsRange = (typeof analyticsRanges)[number];
+export type AttributionModel = (typeof attributionModels)[number];
+export type ConversionSource = (typeof conversionSources)[number];
+export type ConversionEvent = typeof conversionEvents.$inferSelect;
+export type NewConversionEvent = typeof conversionEvents.$inferInsert;
+export type ConversionAttribution = typeof conversionAttributions.$inferSelect;
+export type ConversionReport = z.infer<typeof conversionReportSchema>;
+export type AttributionSettings = z.infer<typeof attributionSettingsSchema>;
+export type AnalyticsQuery = z.infer<typeof analyticsQuerySchema>;
+export type AnalyticsDimension = (typeof analyticsDimensions)[number];
+export type AnalyticsBreakdownQuery = z.infer<typeof analyticsBreakdownQuerySchema>;
+
+export type ParentCampaign = typeof parentCampaigns.$inferSelect;
+export type NewParentCampaign = typeof parentCampaigns.$inferInsert;
+export type VariantCombination = z.infer<typeof variantCombinationSchema>;
+
+export type PlacementStatus = (typeof placementStatuses)[number];
+export type PlacementStatusTransition = typeof placementStatusTransitions.$inferSelect;
+export type InsertPlacementStatusTransition = typeof placementStatusTransitions.$inferInsert;
+
+export type PlacementSortField = (typeof placementSortFields)[number];
+export type PlacementSort = z.infer<typeof sortSpecSchema>;
+export type PlacementQuery = z.infer<typeof placementQuerySchema>;
+export type PlacementQueryInput = z.input<typeof placementQuerySchema>;
+
+export type ExportFormat = (typeof exportFormats)[number];
+export type ExportColumn = (typeof exportColumnKeys)[number];
+export type PlacementExportQuery = z.infer<typeof placementExportSchema>;
+export type PlacementExportQueryInput = z.input<typeof placementExportSchema>;
+export type ExportPreset = typeof exportPresets.$inferSelect;
+export type InsertExportPreset = z.infer<typeof insertExportPresetSchema>;
+
+export type TemplateField = (typeof templateFields)[number];
+export type TemplateValues = z.infer<typeof templateValuesSchema>;
+export type CampaignTemplate = typeof campaignTemplates.$inferSelect;
+export type InsertCampaignTemplate = z.infer<typeof insertCampaignTemplateSchema>;
+export type InsertCampaignTemplateInput = z.input<typeof insertCampaignTemplateSchema>;
+
+export type DraftValues = z.infer<typeof draftValuesSchema>;
+export type CampaignDraft = typeof campaignDrafts.$inferSelect;
+export type InsertCampaignDraft = z.infer<typeof insertCampaignDraftSchema>;
+export type UpdateCampaignDraft = z.infer<typeof updateCampaignDraftSchema>;
+
+export type PlacementRevision = typeof placementRevisions.$inferSelect;
+export type NewPlacementRevision = typeof placementRevisions.$inferInsert;
+
+export type ApprovalStatus = (typeof approvalStatuses)[number];
+export type ApproverRole = (typeof approverRoles)[number];
+export type ApprovalRule = typeof approvalRules.$inferSelect;
+export type InsertApprovalRule = z.infer<typeof insertApprovalRuleSchema>;
+export type UpdateApprovalRule = z.infer<typeof updateApprovalRuleSchema>;
+export type ApprovalRequest = typeof approvalRequests.$inferSelect;
+export type NewApprovalRequest = typeof approvalRequests.$inferInsert;
+
+export type AuditEntityType = (typeof auditEntityTypes)[number];
+export type AuditEntry = typeof auditLog.$inferSelect;
+export type NewAuditEntry = typeof auditLog.$inferInsert;
+export type AuditQuery = z.infer<typeof auditQuerySchema>;
+
+export type SchedulerRun = typeof schedulerRuns.$inferSelect;
+
+export type TaxonomyKind = (typeof taxonomyKinds)[number];
+export type TaxonomyNode = typeof taxonomyNodes.$inferSelect;
+export type InsertTaxonomyNode = z.infer<typeof insertTaxonomyNodeSchema>;
+export type UpdateTaxonomyNode = z.infer<typeof updateTaxonomyNodeSchema>;
+export type TaxonomyVersion = typeof taxonomyVersions.$inferSelect;
+export type PublishTaxonomyVersion = z.infer<typeof publishTaxonomyVersionSchema>;
+
 export type HelpContent = typeof helpContent.$inferSelect;
 export type InsertHelpContent = z.infer<typeof insertHelpContentSchema>;
 
@@ -0,0 +1,81 @@
+// Which part of a placement a search hit was found in, most specific first
+export const searchMatchTypes = [
+  "trackingCode",
+  "title",
+  "landingPage",
+  "trackingUrl",
+  "description",
+  "notes",
+] as const;
+
+export type SearchMatchType = (typeof searchMatchTypes)[number];
+
+export const searchMatchLabels: Record<SearchMatchType, string> = {
+  trackingCode: "Tracking Code",
+  title: "Title",
+  landingPage: "Landing Page",
+  trackingUrl: "Tracking URL",
+  description: "Description",
+  notes: "Notes",
+};
+
+// Text with the [start, end) offsets of the matched terms
+export interface SearchHighlight {
+  text: string;
+  ranges: [number, number][];
+}
+
+// One hit of GET /api/search
+export interface SearchResult {
+  placementId: string;
+  title: string;
+  trackingCode: string;
+  status: string | null;
+  matchType: SearchMatchType;
+  highlight: SearchHighlight;
+}
+
+// Words of a search box query, without websearch operators and quotes
+export function searchTerms(query: string): string[] {
+  return query
+    .split(/\s+/)
+    .map((term) => term.replace(/^[-"]+|"+$/g, "").toLowerCase())
+    .filter((term) => term.length > 0 && term !== "or");
+}
+
+// Finds the terms in `text`. Long text is cut down to a window around the
+// first match so results stay on one line.
+export function highlightTerms(text: string, terms: string[], maxLength = 120): SearchHighlight {
+  const lower = text.toLowerCase();
+  let ranges: [number, number][] = [];
+  for (const term of terms) {
+    for (let start = lower.indexOf(term); start !== -1; start = lower.indexOf(term, start + term.length)) {
+      ranges.push([start, start + term.length]);
+    }
+  }
+  // Overlapping matches of different terms are merged into one range
+  ranges.sort((a, b) => a[0] - b[0]);
+  ranges = ranges.reduce<[number, number][]>((merged, range) => {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push(range);
+    }
+    return merged;
+  }, []);
+
+  if (text.length <= maxLength) {
+    return { text, ranges };
+  }
+  const first = ranges[0]?.[0] ?? 0;
+  const offset = Math.max(0, Math.min(first - 30, text.length - maxLength));
+  const end = offset + maxLength;
+  ranges = ranges
+    .filter(([start, stop]) => start >= offset && stop <= end)
+    .map(([start, stop]) => [start - offset + (offset > 0 ? 1 : 0), stop - offset + (offset > 0 ? 1 : 0)]);
+  return {
+    text: `${offset > 0 ? "…" : ""}${text.slice(offset, end)}${end < text.length ? "…" : ""}`,
+    ranges,
+  };
+}
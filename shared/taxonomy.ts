@@ -0,0 +1,118 @@
+import type { TaxonomyKind, TaxonomyNode } from "./schema";
+
+export interface TaxonomyTreeNode {
+  id: string;
+  name: string;
+  children: TaxonomyTreeNode[];
+}
+
+export interface TaxonomyVersionSummary {
+  id: string;
+  versionNumber: number;
+  effectiveFrom: string | Date;
+}
+
+// Full dependency tree returned by GET /api/taxonomy
+export interface CampaignTaxonomy {
+  // Published version the tree comes from; null while nothing is published
+  version?: TaxonomyVersionSummary | null;
+  // Campaign Type → Campaign Source → Ad Type → Ad Type Detail
+  campaignTypes: TaxonomyTreeNode[];
+  // Cost Center → Sub Ledger
+  costCenters: TaxonomyTreeNode[];
+  brands: TaxonomyTreeNode[];
+  productCategories: TaxonomyTreeNode[];
+  productBrands: TaxonomyTreeNode[];
+  industries: TaxonomyTreeNode[];
+  tactics: TaxonomyTreeNode[];
+  campaignOwners: TaxonomyTreeNode[];
+}
+
+type TaxonomyListKey = Exclude<keyof CampaignTaxonomy, "version">;
+
+// Root kinds and the CampaignTaxonomy list they are returned in
+const rootKinds: Record<TaxonomyListKey, TaxonomyKind> = {
+  campaignTypes: "campaignType",
+  costCenters: "costCenter",
+  brands: "brand",
+  productCategories: "productCategory",
+  productBrands: "productBrand",
+  industries: "industry",
+  tactics: "tactic",
+  campaignOwners: "campaignOwner",
+};
+
+export const emptyTaxonomy: CampaignTaxonomy = {
+  campaignTypes: [],
+  costCenters: [],
+  brands: [],
+  productCategories: [],
+  productBrands: [],
+  industries: [],
+  tactics: [],
+  campaignOwners: [],
+};
+
+function compareNodes(a: TaxonomyNode, b: TaxonomyNode): number {
+  return (a.sortOrder ?? 0) - (b.sortOrder ?? 0) || a.name.localeCompare(b.name);
+}
+
+// Assemble the nested taxonomy from flat node rows. Inactive nodes are
+// dropped together with everything below them.
+export function buildTaxonomyTree(nodes: TaxonomyNode[]): CampaignTaxonomy {
+  const active = nodes.filter((node) => node.isActive !== false).sort(compareNodes);
+  const childrenByParent = new Map<string | null, TaxonomyNode[]>();
+  for (const node of active) {
+    const siblings = childrenByParent.get(node.parentId) ?? [];
+    siblings.push(node);
+    childrenByParent.set(node.parentId, siblings);
+  }
+
+  const toTree = (node: TaxonomyNode): TaxonomyTreeNode => ({
+    id: node.id,
+    name: node.name,
+    children: (childrenByParent.get(node.id) ?? []).map(toTree),
+  });
+
+  const roots = childrenByParent.get(null) ?? [];
+  const taxonomy: CampaignTaxonomy = { ...emptyTaxonomy };
+  for (const [key, kind] of Object.entries(rootKinds) as [TaxonomyListKey, TaxonomyKind][]) {
+    taxonomy[key] = roots.filter((node) => node.kind === kind).map(toTree);
+  }
+  return taxonomy;
+}
+
+function findByName(nodes: TaxonomyTreeNode[] | undefined, name: string | null | undefined) {
+  return name ? nodes?.find((node) => node.name === name) : undefined;
+}
+
+export function optionNames(nodes: TaxonomyTreeNode[] | undefined): string[] {
+  return (nodes ?? []).map((node) => node.name);
+}
+
+export function getCampaignSources(taxonomy: CampaignTaxonomy, campaignType?: string | null): string[] {
+  return optionNames(findByName(taxonomy.campaignTypes, campaignType)?.children);
+}
+
+export function getAdTypes(
+  taxonomy: CampaignTaxonomy,
+  campaignType?: string | null,
+  campaignSource?: string | null,
+): string[] {
+  const source = findByName(findByName(taxonomy.campaignTypes, campaignType)?.children, campaignSource);
+  return optionNames(source?.children);
+}
+
+export function getAdTypeDetails(
+  taxonomy: CampaignTaxonomy,
+  campaignType?: string | null,
+  campaignSource?: string | null,
+  adType?: string | null,
+): string[] {
+  const source = findByName(findByName(taxonomy.campaignTypes, campaignType)?.children, campaignSource);
+  return optionNames(findByName(source?.children, adType)?.children);
+}
+
+export function getSubLedgers(taxonomy: CampaignTaxonomy, costCenter?: string | null): string[] {
+  return optionNames(findByName(taxonomy.costCenters, costCenter)?.children);
+}
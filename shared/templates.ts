@@ -0,0 +1,22 @@
+import { templateFields, type MarketingPlacement, type TemplateValues } from "./schema";
+import { placementToFormValues } from "./validation";
+
+// Template values taken from an existing campaign; unset fields are left out
+export function toTemplateValues(placement: MarketingPlacement): TemplateValues {
+  const formValues = placementToFormValues(placement);
+  const values: Record<string, unknown> = {};
+  for (const field of templateFields) {
+    if (formValues[field] !== undefined && formValues[field] !== "") {
+      values[field] = formValues[field];
+    }
+  }
+  return values as TemplateValues;
+}
+
+// Starting values for a copy of a campaign. The copy gets its own tracking
+// code when saved and its own dates, so neither is carried over. The
+// campaign's templateId is passed on separately, as it is not a form value.
+export function duplicatePlacementValues(placement: MarketingPlacement) {
+  const { startDate, endDate, ...values } = placementToFormValues(placement);
+  return { ...values, title: `Copy of ${placement.title}` };
+}
@@ -0,0 +1,84 @@
+import {
+  trackingUrlTokenPattern,
+  type MarketingPlacement,
+  type TrackingUrlFormat,
+  type TrackingUrlTemplate,
+  type TrackingUrlToken,
+  type TrackingUrlTokenFilter,
+} from "./schema";
+
+export type TrackingUrlInput = Pick<MarketingPlacement, "baseUrl" | "trackingCode"> &
+  Partial<Pick<MarketingPlacement, TrackingUrlToken | "anchorTag">>;
+
+// Parameters each format starts from. Template params with the same key
+// override these; custom templates only use their own params.
+export const defaultTrackingParams: Record<TrackingUrlFormat, TrackingUrlTemplate["params"]> = {
+  utm: [
+    { key: "utm_source", value: "{campaignSource|slug}" },
+    { key: "utm_medium", value: "{adType|slug}" },
+    { key: "utm_campaign", value: "{title|slug}" },
+    { key: "utm_content", value: "{adTypeDetail|slug}" },
+    { key: "utm_term", value: "{tactic|slug}" },
+    { key: "utm_id", value: "{trackingCode}" },
+  ],
+  adobe: [{ key: "cid", value: "{trackingCode}" }],
+  custom: [],
+};
+
+// Used for channel types that have no template configured
+export const defaultTrackingTemplate: TrackingUrlTemplate = { format: "adobe", params: [] };
+
+function applyFilter(value: string, filter?: string): string {
+  switch (filter as TrackingUrlTokenFilter | undefined) {
+    case "lower":
+      return value.toLowerCase();
+    case "upper":
+      return value.toUpperCase();
+    case "slug":
+      return value
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "-")
+        .replace(/^-+|-+$/g, "");
+    default:
+      return value;
+  }
+}
+
+export function renderTemplateValue(value: string, placement: TrackingUrlInput): string {
+  return value
+    .replace(trackingUrlTokenPattern, (_token, field: string, filter?: string) => {
+      const fieldValue = placement[field as TrackingUrlToken];
+      return fieldValue ? applyFilter(String(fieldValue).trim(), filter) : "";
+    })
+    .trim();
+}
+
+// Resolve the final list of parameters for a template, applying format defaults
+export function resolveTemplateParams(template: TrackingUrlTemplate): TrackingUrlTemplate["params"] {
+  const params = new Map(defaultTrackingParams[template.format].map(({ key, value }) => [key, value]));
+  for (const { key, value } of template.params) {
+    params.set(key, value);
+  }
+  return Array.from(params, ([key, value]) => ({ key, value }));
+}
+
+// Build the full tracking URL for a placement. Existing query parameters on the
+// base URL are kept unless the template sets the same key, and the anchor tag
+// replaces any fragment already present on the base URL.
+export function buildTrackingUrl(placement: TrackingUrlInput, template?: TrackingUrlTemplate | null): string {
+  const url = new URL(placement.baseUrl);
+
+  for (const { key, value } of resolveTemplateParams(template ?? defaultTrackingTemplate)) {
+    const rendered = renderTemplateValue(value, placement);
+    if (rendered) {
+      url.searchParams.set(key, rendered);
+    }
+  }
+
+  const anchor = placement.anchorTag?.trim().replace(/^#/, "");
+  if (anchor) {
+    url.hash = anchor;
+  }
+
+  return url.toString();
+}
@@ -0,0 +1,154 @@
+import { z } from "zod";
+import {
+  insertMarketingPlacementSchema,
+  type InsertMarketingPlacement,
+  type MarketingPlacement,
+} from "./schema";
+import {
+  getAdTypeDetails,
+  getAdTypes,
+  getCampaignSources,
+  getSubLedgers,
+  optionNames,
+  type CampaignTaxonomy,
+} from "./taxonomy";
+
+// Field-level errors keyed by placement field, as returned by the placement API
+// and applied to the campaign builder through form.setError
+export type FieldErrors = Record<string, string>;
+
+export interface ValidationErrorResponse {
+  error: string;
+  fieldErrors: FieldErrors;
+}
+
+type PlacementInput = Partial<InsertMarketingPlacement>;
+
+const isBlank = (value: string | null | undefined) => !value || value.trim() === "";
+
+function addFieldIssue(ctx: z.RefinementCtx, field: keyof InsertMarketingPlacement, message: string) {
+  ctx.addIssue({ code: z.ZodIssueCode.custom, message, path: [field] });
+}
+
+// Rules that span more than one field
+export function checkPlacementRules(data: PlacementInput, ctx: z.RefinementCtx) {
+  if (!isBlank(data.costCenter) && isBlank(data.subLedger)) {
+    addFieldIssue(ctx, "subLedger", "Sub Ledger is required when Cost Center is selected");
+  }
+  if (data.partnering && isBlank(data.partnerName)) {
+    addFieldIssue(ctx, "partnerName", "Partner name is required when partnering");
+  }
+  if (data.thirdParty && isBlank(data.thirdPartyName)) {
+    addFieldIssue(ctx, "thirdPartyName", "3rd party name is required when a 3rd party is involved");
+  }
+  if (data.startDate && data.endDate && data.endDate < data.startDate) {
+    addFieldIssue(ctx, "endDate", "End date must be on or after the start date");
+  }
+}
+
+// Each taxonomy-backed field, with the options valid for it given the other fields
+const taxonomyFields: {
+  field: keyof InsertMarketingPlacement;
+  parent?: keyof InsertMarketingPlacement;
+  label: string;
+  options: (taxonomy: CampaignTaxonomy, data: PlacementInput) => string[];
+}[] = [
+  { field: "campaignType", label: "Campaign type", options: (t) => optionNames(t.campaignTypes) },
+  {
+    field: "campaignSource",
+    parent: "campaignType",
+    label: "Campaign source",
+    options: (t, d) => getCampaignSources(t, d.campaignType),
+  },
+  {
+    field: "adType",
+    parent: "campaignSource",
+    label: "Ad type",
+    options: (t, d) => getAdTypes(t, d.campaignType, d.campaignSource),
+  },
+  {
+    field: "adTypeDetail",
+    parent: "adType",
+    label: "Ad type detail",
+    options: (t, d) => getAdTypeDetails(t, d.campaignType, d.campaignSource, d.adType),
+  },
+  { field: "brand1", label: "Brand", options: (t) => optionNames(t.brands) },
+  { field: "brand2", label: "Brand", options: (t) => optionNames(t.brands) },
+  { field: "brand3", label: "Brand", options: (t) => optionNames(t.brands) },
+  { field: "productCategory", label: "Product category", options: (t) => optionNames(t.productCategories) },
+  { field: "productBrand", label: "Product brand", options: (t) => optionNames(t.productBrands) },
+  { field: "industry", label: "Industry", options: (t) => optionNames(t.industries) },
+  { field: "tactic", label: "Tactic", options: (t) => optionNames(t.tactics) },
+  { field: "campaignOwner", label: "Campaign owner", options: (t) => optionNames(t.campaignOwners) },
+  { field: "costCenter", label: "Cost center", options: (t) => optionNames(t.costCenters) },
+  {
+    field: "subLedger",
+    parent: "costCenter",
+    label: "Sub ledger",
+    options: (t, d) => getSubLedgers(t, d.costCenter),
+  },
+];
+
+// Check taxonomy-backed fields against the current taxonomy. When `changed` is
+// given only those fields, and fields that depend on them, are checked, so
+// that editing an old placement does not trip over options retired since.
+export function checkTaxonomyMembership(
+  taxonomy: CampaignTaxonomy,
+  data: PlacementInput,
+  ctx: z.RefinementCtx,
+  changed?: string[],
+) {
+  const checked = new Set(changed);
+  for (const { field, parent, label, options } of taxonomyFields) {
+    if (changed) {
+      if (parent && checked.has(parent)) checked.add(field);
+      if (!checked.has(field)) continue;
+    }
+
+    const value = data[field];
+    if (typeof value === "string" && !isBlank(value) && !options(taxonomy, data).includes(value)) {
+      addFieldIssue(ctx, field, `${label} "${value}" is not a valid option`);
+    }
+  }
+}
+
+// Placement schema shared by the campaign builder and the placement API.
+// Pass the taxonomy to also check dropdown values against it.
+export function createPlacementSchema(taxonomy?: CampaignTaxonomy, changed?: string[]) {
+  return insertMarketingPlacementSchema.superRefine((data, ctx) => {
+    checkPlacementRules(data, ctx);
+    if (taxonomy) {
+      checkTaxonomyMembership(taxonomy, data, ctx, changed);
+    }
+  });
+}
+
+export const placementSchema = createPlacementSchema();
+
+export type PlacementFormData = z.infer<typeof placementSchema>;
+
+export function toFieldErrors(error: z.ZodError): FieldErrors {
+  const fieldErrors: FieldErrors = {};
+  for (const issue of error.issues) {
+    const field = issue.path.join(".") || "root";
+    fieldErrors[field] ??= issue.message;
+  }
+  return fieldErrors;
+}
+
+export function toValidationErrorResponse(error: z.ZodError): ValidationErrorResponse {
+  return { error: "Validation failed", fieldErrors: toFieldErrors(error) };
+}
+
+// Convert a stored placement into schema input: database nulls become
+// undefined so optional fields validate the same way as in the form
+export function placementToFormValues(placement: MarketingPlacement): PlacementInput {
+  const values: Record<string, unknown> = {};
+  for (const field of Object.keys(insertMarketingPlacementSchema.shape)) {
+    const value = placement[field as keyof MarketingPlacement];
+    if (value !== null && value !== undefined) {
+      values[field] = value;
+    }
+  }
+  return values as PlacementInput;
+}
@@ -0,0 +1,40 @@
+import { getAdTypeDetails, getAdTypes, getCampaignSources, type CampaignTaxonomy } from "./taxonomy";
+import type { MarketingPlacement, ParentCampaign, VariantCombination } from "./schema";
+
+// Parent campaign with its generated placements, as returned by GET /api/parent-campaigns/:id
+export interface ParentCampaignWithPlacements extends ParentCampaign {
+  placements: MarketingPlacement[];
+}
+
+// Identifies a combination, e.g. to tell duplicates apart
+export function variantKey(variant: VariantCombination): string {
+  return [variant.campaignSource, variant.adType, variant.adTypeDetail ?? ""].join("\u0000");
+}
+
+// Works on generated placements too, whose combination fields are nullable
+export function variantLabel(variant: Pick<MarketingPlacement, "campaignSource" | "adType"> & { adTypeDetail?: string | null }): string {
+  return [variant.campaignSource, variant.adType, variant.adTypeDetail].filter(Boolean).join(" / ");
+}
+
+// Every source / ad type combination the taxonomy allows for a campaign type.
+// Ad types with details give one combination per detail.
+export function listVariantCombinations(taxonomy: CampaignTaxonomy, campaignType?: string | null): VariantCombination[] {
+  const combinations: VariantCombination[] = [];
+  for (const campaignSource of getCampaignSources(taxonomy, campaignType)) {
+    for (const adType of getAdTypes(taxonomy, campaignType, campaignSource)) {
+      const details = getAdTypeDetails(taxonomy, campaignType, campaignSource, adType);
+      if (details.length === 0) {
+        combinations.push({ campaignSource, adType });
+      }
+      for (const adTypeDetail of details) {
+        combinations.push({ campaignSource, adType, adTypeDetail });
+      }
+    }
+  }
+  return combinations;
+}
+
+// Title of a generated placement: the campaign title plus its combination
+export function variantTitle(title: string, variant: VariantCombination): string {
+  return `${title} · ${variantLabel(variant)}`;
+}